@@ -0,0 +1,72 @@
+// Run the RAG evaluation harness against the golden dataset
+// Usage: npm run eval:rag -- [--k 5] [--label my-change] [--out eval-reports] [--provider name] [--template id] [--calibrate] [--ensemble samples]
+// Without --provider the deterministic mock LLM is used; otherwise a provider from llm.config.json
+// --calibrate refits the confidence calibration to this run and saves it for the app;
+// it needs --provider, since a fit to the mock's answers says nothing about a real model
+import { execSync } from 'child_process';
+import { mkdirSync, writeFileSync } from 'fs';
+import path from 'path';
+import { runEvaluation, renderMarkdownReport } from '@/lib/evaluation/runner';
+import { getLLMProvider } from '@/lib/llm';
+
+const CALIBRATION_FILE = path.join('src', 'lib', 'confidence-calibration.json');
+
+function readArg(name: string, fallback?: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index !== -1 && process.argv[index + 1] ? process.argv[index + 1] : fallback;
+}
+
+function currentCommit(): string | undefined {
+  try {
+    return execSync('git rev-parse --short HEAD', { stdio: ['ignore', 'pipe', 'ignore'] }).toString().trim();
+  } catch {
+    return undefined;
+  }
+}
+
+async function main() {
+  const k = parseInt(readArg('k', '5')!);
+  const outDir = readArg('out', 'eval-reports')!;
+  const label = readArg('label', currentCommit());
+  const providerName = readArg('provider');
+  const templateId = readArg('template');
+  const calibrate = process.argv.includes('--calibrate');
+  const ensembleSamples = readArg('ensemble');
+
+  if (calibrate && !providerName) {
+    throw new Error('--calibrate needs --provider; the mock LLM cannot be used to fit the calibration');
+  }
+
+  const report = await runEvaluation({
+    k,
+    label,
+    templateId,
+    calibrate,
+    ...(ensembleSamples ? { ensemble: { samples: parseInt(ensembleSamples) } } : {}),
+    ...(providerName ? { provider: getLLMProvider(providerName) } : {})
+  });
+
+  mkdirSync(outDir, { recursive: true });
+  const baseName = `${label || 'report'}-${report.generatedAt.replace(/[:.]/g, '-')}`;
+  const markdown = renderMarkdownReport(report);
+
+  for (const name of [baseName, 'latest']) {
+    writeFileSync(path.join(outDir, `${name}.json`), JSON.stringify(report, null, 2));
+    writeFileSync(path.join(outDir, `${name}.md`), markdown);
+  }
+
+  if (report.calibration) {
+    writeFileSync(CALIBRATION_FILE, JSON.stringify(report.calibration, null, 2) + '\n');
+    console.log(`Confidence calibration written to ${CALIBRATION_FILE}`);
+  }
+
+  console.log(markdown);
+  console.log(`Reports written to ${path.join(outDir, baseName)}.{json,md}`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('Evaluation failed:', error);
+    process.exit(1);
+  });
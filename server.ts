@@ -1,5 +1,10 @@
 // server.ts - Next.js Standalone + Socket.IO
 import { setupSocket } from '@/lib/socket';
+import { loadDomainPacks } from '@/lib/domain-packs';
+import { loadLanguagePacks } from '@/lib/language-packs';
+import { pipelineWorker } from '@/lib/pipeline-worker';
+import { batchAnalysisRunner } from '@/lib/batch-analysis';
+import { webhookDispatcher } from '@/lib/webhook-dispatcher';
 import { createServer } from 'http';
 import { Server } from 'socket.io';
 import next from 'next';
@@ -11,6 +16,10 @@ const hostname = '0.0.0.0';
 // Custom server with Socket.IO integration
 async function createCustomServer() {
   try {
+    // Refuse to start with an invalid domain or language pack
+    loadDomainPacks();
+    loadLanguagePacks();
+
     // Create Next.js app
     const nextApp = next({ 
       dev,
@@ -42,6 +51,13 @@ async function createCustomServer() {
 
     setupSocket(io);
 
+    // Pick up pipeline jobs and batches queued before a restart
+    pipelineWorker.start();
+    batchAnalysisRunner.start();
+
+    // Resume webhook deliveries that were waiting for a retry
+    webhookDispatcher.start();
+
     // Start the server
     server.listen(currentPort, hostname, () => {
       console.log(`> Ready on http://${hostname}:${currentPort}`);
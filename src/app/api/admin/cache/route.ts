@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { analysisCache, CacheNamespace } from '@/lib/analysis-cache';
+
+const NAMESPACES: CacheNamespace[] = ['rag-analysis', 'requirements-analysis'];
+
+export async function GET() {
+  try {
+    return NextResponse.json({
+      success: true,
+      data: analysisCache.getStats()
+    });
+  } catch (error) {
+    console.error('Cache stats error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Clear the whole cache, or one analysis type with ?namespace=
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const namespace = searchParams.get('namespace');
+
+    if (namespace && !NAMESPACES.includes(namespace as CacheNamespace)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid namespace. Expected one of: ${NAMESPACES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const removed = analysisCache.clear((namespace as CacheNamespace) || undefined);
+
+    return NextResponse.json({
+      success: true,
+      data: { removed }
+    });
+  } catch (error) {
+    console.error('Cache clear error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
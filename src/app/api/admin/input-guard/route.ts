@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+
+const ACTIONS = ['redacted', 'flagged', 'blocked'];
+
+// Recent input guard decisions, newest first; filter with ?action=
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const action = searchParams.get('action');
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50', 10) || 50, 1), 200);
+
+    if (action && !ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid action. Expected one of: ${ACTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const logs = await db.inputGuardLog.findMany({
+      where: action ? { action } : {},
+      orderBy: { createdAt: 'desc' },
+      take: limit
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: logs.map(log => ({
+        ...log,
+        redactions: log.redactions ? JSON.parse(log.redactions) : [],
+        injectionPatterns: log.injectionPatterns ? JSON.parse(log.injectionPatterns) : []
+      }))
+    });
+  } catch (error) {
+    console.error('Input guard log error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { detectLanguage, pivotToEnglish } from '@/lib/language-detection';
 
 // Simple, friendly app type detection
 const appTypes = [
@@ -43,8 +44,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Simple, friendly processing
-    const lowerDesc = description.toLowerCase();
+    // Simple, friendly processing; the keywords are English, so ideas in
+    // other languages are matched through their English rendering
+    const language = detectLanguage(description);
+    const lowerDesc = pivotToEnglish(description, language.language).toLowerCase();
     
     // Detect app type
     const detectedAppType = detectAppType(lowerDesc);
@@ -61,6 +64,7 @@ export async function POST(request: NextRequest) {
       message: "I understand your app idea! Here's what I found:",
       appIdea: {
         description: description,
+        language: language.language,
         appType: detectedAppType,
         features: detectedFeatures,
         platform: detectedPlatform,
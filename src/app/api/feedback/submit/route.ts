@@ -1,5 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
+import { parseTemplateRef } from '@/lib/prompt-templates';
+import { savedApps } from '@/lib/saved-apps';
+
+// Template version behind the rated app: sent with the feedback, or recorded
+// in the saved app's metadata when it was created from an analysis
+function ratedTemplateRef(appId: string, promptTemplate: unknown) {
+  if (promptTemplate !== undefined) {
+    return parseTemplateRef(promptTemplate);
+  }
+  try {
+    const app = savedApps.get(appId);
+    return app ? parseTemplateRef(JSON.parse(app.metadata).promptTemplate) : null;
+  } catch {
+    return null;
+  }
+}
 
 export async function POST(request: NextRequest) {
   try {
@@ -12,7 +28,8 @@ export async function POST(request: NextRequest) {
       rating,
       title,
       description,
-      metadata = {}
+      metadata = {},
+      promptTemplate
     } = body;
 
     // Validate required fields
@@ -23,6 +40,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const templateRef = ratedTemplateRef(appId, promptTemplate);
+    if (promptTemplate !== undefined && !templateRef) {
+      return NextResponse.json(
+        { success: false, error: 'promptTemplate must be the template reference of an analysis result' },
+        { status: 400 }
+      );
+    }
+
     // Create feedback entry
     const feedback = await db.feedback.create({
       data: {
@@ -34,6 +59,9 @@ export async function POST(request: NextRequest) {
         title,
         description,
         metadata: JSON.stringify(metadata),
+        promptTemplateId: templateRef?.id ?? null,
+        promptTemplateVersion: templateRef?.version ?? null,
+        promptExperimentId: templateRef?.experiment?.id ?? null,
         status: 'pending',
         createdAt: new Date(),
         updatedAt: new Date()
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getKnowledgeDocument,
+  updateKnowledgeDocument,
+  deleteKnowledgeDocument,
+  isKnowledgeDocumentType,
+  toPublicDocument,
+  KNOWLEDGE_DOCUMENT_TYPES
+} from '@/lib/knowledge-store';
+
+const isBlank = (value: unknown) => typeof value !== 'string' || value.trim() === '';
+const isTagList = (value: unknown) => Array.isArray(value) && value.every(tag => typeof tag === 'string');
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    
+    const document = await getKnowledgeDocument(id);
+    
+    if (!document) {
+      return NextResponse.json(
+        { success: false, error: 'Document not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({
+      success: true,
+      data: toPublicDocument(document)
+    });
+  } catch (error) {
+    console.error('Knowledge fetch error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const { domain, content, source, type, tags } = body;
+    
+    // Fields that are given must not be empty, as on creation
+    const blankFields = Object.entries({ domain, content, source })
+      .filter(([, value]) => value !== undefined && isBlank(value))
+      .map(([field]) => field);
+    if (blankFields.length > 0) {
+      return NextResponse.json(
+        { success: false, error: `Fields must not be empty: ${blankFields.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    
+    if (type !== undefined && !isKnowledgeDocumentType(type)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid type. Expected one of: ${KNOWLEDGE_DOCUMENT_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    
+    if (tags !== undefined && !isTagList(tags)) {
+      return NextResponse.json(
+        { success: false, error: 'Tags must be an array of strings' },
+        { status: 400 }
+      );
+    }
+    
+    const document = await updateKnowledgeDocument(id, { domain, content, source, type, tags });
+    
+    if (!document) {
+      return NextResponse.json(
+        { success: false, error: 'Document not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({
+      success: true,
+      data: toPublicDocument(document),
+      message: 'Document updated successfully'
+    });
+  } catch (error) {
+    console.error('Knowledge update error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    
+    const deleted = await deleteKnowledgeDocument(id);
+    
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, error: 'Document not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({
+      success: true,
+      message: 'Document deleted successfully'
+    });
+  } catch (error) {
+    console.error('Knowledge deletion error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
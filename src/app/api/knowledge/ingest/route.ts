@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ingestDocument, isSupportedFile, SUPPORTED_EXTENSIONS } from '@/lib/document-ingestion';
+import { isKnowledgeDocumentType, toPublicDocument, KNOWLEDGE_DOCUMENT_TYPES } from '@/lib/knowledge-store';
+
+// Maximum size of a single uploaded file (2 MB)
+const MAX_FILE_SIZE = 2 * 1024 * 1024;
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const files = formData.getAll('files').filter((entry): entry is File => typeof entry !== 'string');
+    const domain = formData.get('domain');
+    const type = formData.get('type');
+    const tags = formData.get('tags');
+
+    // Validate required fields
+    if (files.length === 0 || typeof domain !== 'string' || !domain.trim()) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required fields: files, domain' },
+        { status: 400 }
+      );
+    }
+
+    if (type && !isKnowledgeDocumentType(type)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid type. Expected one of: ${KNOWLEDGE_DOCUMENT_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const results: Array<{
+      fileName: string;
+      success: boolean;
+      chunkCount?: number;
+      documents?: any[];
+      error?: string;
+    }> = [];
+
+    for (const file of files) {
+      if (!isSupportedFile(file.name)) {
+        results.push({
+          fileName: file.name,
+          success: false,
+          error: `Unsupported file type. Expected one of: ${SUPPORTED_EXTENSIONS.join(', ')}`
+        });
+        continue;
+      }
+
+      if (file.size > MAX_FILE_SIZE) {
+        results.push({
+          fileName: file.name,
+          success: false,
+          error: 'File exceeds the 2 MB size limit'
+        });
+        continue;
+      }
+
+      try {
+        const result = await ingestDocument({
+          fileName: file.name,
+          content: await file.text(),
+          domain: domain.trim(),
+          type: isKnowledgeDocumentType(type) ? type : undefined,
+          tags: typeof tags === 'string' ? tags.split(',').map(tag => tag.trim()).filter(Boolean) : []
+        });
+
+        results.push({
+          fileName: result.fileName,
+          success: true,
+          chunkCount: result.chunkCount,
+          documents: result.documents.map(toPublicDocument)
+        });
+      } catch (error) {
+        console.error(`Failed to ingest ${file.name}:`, error);
+        results.push({
+          fileName: file.name,
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    return NextResponse.json({
+      success: results.some(result => result.success),
+      data: {
+        files: results,
+        ingestedDocuments: results.reduce((sum, result) => sum + (result.chunkCount || 0), 0)
+      }
+    });
+  } catch (error) {
+    console.error('Knowledge ingestion error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
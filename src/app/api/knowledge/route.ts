@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isUniqueConstraintError } from '@/lib/db';
+import {
+  pageKnowledgeDocuments,
+  createKnowledgeDocument,
+  isKnowledgeDocumentType,
+  toPublicDocument,
+  KNOWLEDGE_DOCUMENT_TYPES
+} from '@/lib/knowledge-store';
+
+const MAX_PAGE_SIZE = 100;
+
+const isBlank = (value: unknown) => typeof value !== 'string' || value.trim() === '';
+const isTagList = (value: unknown) => Array.isArray(value) && value.every(tag => typeof tag === 'string');
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const domain = searchParams.get('domain');
+    const type = searchParams.get('type');
+    const tags = searchParams.get('tags');
+    const page = Math.max(parseInt(searchParams.get('page') || '1', 10) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20', 10) || 20, 1), MAX_PAGE_SIZE);
+
+    // Only the requested page is read from the database
+    const { documents, total } = await pageKnowledgeDocuments({
+      domain,
+      type,
+      tags: tags ? tags.split(',').map(tag => tag.trim()).filter(Boolean) : []
+    }, { skip: (page - 1) * limit, take: limit });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        documents: documents.map(toPublicDocument),
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Knowledge list error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { id, domain, content, source, type, tags = [] } = body;
+
+    // Validate required fields
+    if ([domain, content, source, type].some(isBlank)) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required fields: domain, content, source, type' },
+        { status: 400 }
+      );
+    }
+
+    if (!isKnowledgeDocumentType(type)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid type. Expected one of: ${KNOWLEDGE_DOCUMENT_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (id !== undefined && isBlank(id)) {
+      return NextResponse.json(
+        { success: false, error: 'Id must be a non-empty string' },
+        { status: 400 }
+      );
+    }
+
+    if (!isTagList(tags)) {
+      return NextResponse.json(
+        { success: false, error: 'Tags must be an array of strings' },
+        { status: 400 }
+      );
+    }
+
+    const document = await createKnowledgeDocument({ id, domain, content, source, type, tags });
+
+    return NextResponse.json({
+      success: true,
+      data: toPublicDocument(document)
+    }, { status: 201 });
+  } catch (error) {
+    if (isUniqueConstraintError(error)) {
+      return NextResponse.json(
+        { success: false, error: 'A document with this id already exists' },
+        { status: 409 }
+      );
+    }
+    console.error('Knowledge creation error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
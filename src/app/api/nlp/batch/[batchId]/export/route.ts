@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { batchAnalysisRunner, exportBatch } from '@/lib/batch-analysis';
+import type { BatchExportFormat } from '@/lib/batch-files';
+
+const EXPORT_FORMATS: BatchExportFormat[] = ['csv', 'jsonl', 'zip'];
+
+// Download the results of a batch as CSV, JSONL or a ZIP with both
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ batchId: string }> }
+) {
+  try {
+    const { batchId } = await params;
+    const format = (new URL(request.url).searchParams.get('format') || 'csv') as BatchExportFormat;
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid format. Expected one of: ${EXPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const batch = await batchAnalysisRunner.get(batchId);
+    if (!batch) {
+      return NextResponse.json(
+        { success: false, error: 'Batch not found' },
+        { status: 404 }
+      );
+    }
+
+    const exported = exportBatch(batch, format);
+    const body = typeof exported.body === 'string' ? exported.body : new Uint8Array(exported.body);
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': exported.contentType,
+        'Content-Disposition': `attachment; filename="${exported.fileName}"`
+      }
+    });
+  } catch (error) {
+    console.error('Batch export API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { batchAnalysisRunner, summarizeBatch } from '@/lib/batch-analysis';
+
+// Progress of a batch and the outcome of each idea
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ batchId: string }> }
+) {
+  try {
+    const { batchId } = await params;
+    const batch = await batchAnalysisRunner.get(batchId);
+
+    if (!batch) {
+      return NextResponse.json(
+        { success: false, error: 'Batch not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: summarizeBatch(batch) });
+  } catch (error) {
+    console.error('Batch status API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Cancel the ideas of a batch that have not been analyzed yet
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ batchId: string }> }
+) {
+  try {
+    const { batchId } = await params;
+    const batch = await batchAnalysisRunner.cancel(batchId);
+
+    if (!batch) {
+      return NextResponse.json(
+        { success: false, error: 'Batch not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: summarizeBatch(batch) });
+  } catch (error) {
+    console.error('Batch cancel API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
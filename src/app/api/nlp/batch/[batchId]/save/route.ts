@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { batchAnalysisRunner } from '@/lib/batch-analysis';
+import { createSavedApp } from '@/lib/saved-apps';
+
+// Save the analyzed ideas of a batch as apps; ideas saved before are skipped
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ batchId: string }> }
+) {
+  try {
+    const { batchId } = await params;
+    const body = await request.json().catch(() => ({}));
+    const { rows, isTemplate = false, tags = [] } = body;
+
+    if (rows !== undefined && (!Array.isArray(rows) || rows.some(row => !Number.isInteger(row)))) {
+      return NextResponse.json(
+        { success: false, error: 'rows must be a list of row numbers' },
+        { status: 400 }
+      );
+    }
+
+    const outcome = await batchAnalysisRunner.saveItems(
+      batchId,
+      item => !rows || rows.includes(item.row),
+      item => createSavedApp({
+        name: item.name || (item.idea.length > 60 ? `${item.idea.slice(0, 57)}...` : item.idea),
+        description: item.idea,
+        originalInput: item.idea,
+        domain: item.domain,
+        requirements: item.result?.requirements ?? {},
+        specifications: item.result?.specifications,
+        metadata: {
+          source: 'batch',
+          batchId,
+          row: item.row,
+          projectType: item.projectType,
+          intent: item.result?.intent?.intent,
+          confidence: item.result?.requirements?.confidence
+        },
+        isTemplate: isTemplate === true,
+        tags: ['batch', ...(Array.isArray(tags) ? tags.filter(tag => typeof tag === 'string') : [])]
+      })
+    );
+    if (!outcome) {
+      return NextResponse.json(
+        { success: false, error: 'Batch not found' },
+        { status: 404 }
+      );
+    }
+
+    const { batch, saved } = outcome;
+    return NextResponse.json({
+      success: true,
+      data: {
+        saved: saved.map(({ item, app }) => ({ row: item.row, appId: app.id, name: app.name })),
+        skipped: batch.items.length - saved.length
+      },
+      message: `Saved ${saved.length} apps`
+    });
+  } catch (error) {
+    console.error('Batch save API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { detectBatchFormat, parseBatchFile, BatchFileFormat } from '@/lib/batch-files';
+import { batchAnalysisRunner, summarizeBatch, MAX_BATCH_IDEAS, MAX_BATCH_CONCURRENCY } from '@/lib/batch-analysis';
+
+// Maximum size of an uploaded batch (2 MB)
+const MAX_FILE_SIZE = 2 * 1024 * 1024;
+
+interface BatchUpload {
+  fileName: string;
+  format: BatchFileFormat | null;
+  content: string;
+  size: number;
+  concurrency?: number;
+}
+
+// A multipart upload (field "file") or JSON { fileName?, format?, content }
+async function readUpload(request: NextRequest): Promise<BatchUpload | null> {
+  if (request.headers.get('content-type')?.includes('multipart/form-data')) {
+    const formData = await request.formData();
+    const file = formData.get('file');
+    if (!file || typeof file === 'string') return null;
+
+    const concurrency = formData.get('concurrency');
+    return {
+      fileName: file.name,
+      format: detectBatchFormat(file.name),
+      content: await file.text(),
+      size: file.size,
+      concurrency: typeof concurrency === 'string' ? parseInt(concurrency, 10) : undefined
+    };
+  }
+
+  const body = await request.json();
+  if (typeof body.content !== 'string') return null;
+
+  const fileName = typeof body.fileName === 'string' ? body.fileName : `ideas.${body.format || 'csv'}`;
+  return {
+    fileName,
+    format: body.format === 'csv' || body.format === 'jsonl' ? body.format : detectBatchFormat(fileName),
+    content: body.content,
+    size: Buffer.byteLength(body.content),
+    concurrency: typeof body.concurrency === 'number' ? body.concurrency : undefined
+  };
+}
+
+// Start analyzing every idea of an uploaded CSV or JSONL file
+export async function POST(request: NextRequest) {
+  try {
+    const upload = await readUpload(request);
+
+    if (!upload) {
+      return NextResponse.json(
+        { error: 'Invalid input', message: 'A CSV or JSONL file is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!upload.format) {
+      return NextResponse.json(
+        { error: 'Invalid input', message: 'Unsupported file type. Expected one of: .csv, .jsonl' },
+        { status: 400 }
+      );
+    }
+
+    if (upload.size > MAX_FILE_SIZE) {
+      return NextResponse.json(
+        { error: 'Invalid input', message: 'File exceeds the 2 MB size limit' },
+        { status: 400 }
+      );
+    }
+
+    if (upload.concurrency !== undefined && (!Number.isInteger(upload.concurrency) || upload.concurrency < 1 || upload.concurrency > MAX_BATCH_CONCURRENCY)) {
+      return NextResponse.json(
+        { error: 'Invalid input', message: `concurrency must be an integer from 1 to ${MAX_BATCH_CONCURRENCY}` },
+        { status: 400 }
+      );
+    }
+
+    const { ideas, errors } = parseBatchFile(upload.content, upload.format);
+
+    if (ideas.length === 0) {
+      return NextResponse.json(
+        { error: 'Invalid input', message: 'The file contains no ideas', parseErrors: errors },
+        { status: 400 }
+      );
+    }
+
+    if (ideas.length > MAX_BATCH_IDEAS) {
+      return NextResponse.json(
+        { error: 'Invalid input', message: `A batch may hold at most ${MAX_BATCH_IDEAS} ideas; the file has ${ideas.length}` },
+        { status: 400 }
+      );
+    }
+
+    const batch = await batchAnalysisRunner.create(upload.fileName, upload.format, ideas, errors, upload.concurrency);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...summarizeBatch(batch),
+        statusUrl: `/api/nlp/batch/${batch.id}`
+      }
+    }, { status: 202 });
+
+  } catch (error) {
+    console.error('Batch analysis API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', message: 'Failed to start batch analysis' },
+      { status: 500 }
+    );
+  }
+}
+
+// Batches of the last day, newest first, without their items
+export async function GET() {
+  try {
+    return NextResponse.json({
+      success: true,
+      data: (await batchAnalysisRunner.list()).map(batch => {
+        const { items, ...summary } = summarizeBatch(batch);
+        return summary;
+      })
+    });
+  } catch (error) {
+    console.error('Batch list API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', message: 'Failed to list batches' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ragOrchestration, RAGAnalysisResult } from '@/lib/rag-orchestration';
+import { resolveAnalysisDomains } from '@/lib/domain-detection';
+import {
+  getClarificationSession,
+  updateClarificationSession,
+  validateAnswers,
+  enrichDescription,
+  assessCoverage,
+  ClarificationSession
+} from '@/lib/clarification';
+import { validateEnsembleOptions, toEnsembleOptions } from '@/lib/feature-ensemble';
+import { validateOutputLanguage } from '@/lib/language-detection';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = getClarificationSession(id);
+
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Clarification session not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: session
+    });
+  } catch (error) {
+    console.error('Clarification session fetch error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Answer the session's questions and analyze the enriched idea; a session whose
+// analysis failed may be answered again
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const { answers = {}, ensemble, explain = false, outputLanguage } = body;
+
+    const session = getClarificationSession(id);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Clarification session not found' },
+        { status: 404 }
+      );
+    }
+
+    if (session.status !== 'awaiting_answers' && session.status !== 'failed') {
+      return NextResponse.json(
+        { success: false, error: `Session has already been answered (status: ${session.status})` },
+        { status: 409 }
+      );
+    }
+
+    const answerError = validateAnswers(session.questions, answers);
+    if (answerError) {
+      return NextResponse.json(
+        { success: false, error: answerError },
+        { status: 400 }
+      );
+    }
+
+    const ensembleError = validateEnsembleOptions(ensemble);
+    if (ensembleError) {
+      return NextResponse.json(
+        { success: false, error: ensembleError },
+        { status: 400 }
+      );
+    }
+
+    const languageError = validateOutputLanguage(outputLanguage);
+    if (languageError) {
+      return NextResponse.json(
+        { success: false, error: languageError },
+        { status: 400 }
+      );
+    }
+
+    const enrichedDescription = enrichDescription(session.description, session.questions, answers);
+    updateClarificationSession(id, { answers, enrichedDescription, status: 'analyzing' });
+
+    // The answers may shift the domain, so detected domains are classified again
+    const domains = resolveAnalysisDomains(enrichedDescription, session.domain);
+    const coverage = assessCoverage(enrichedDescription, domains.domain);
+
+    let result: RAGAnalysisResult | undefined;
+    let updated: ClarificationSession | undefined;
+    try {
+      result = await ragOrchestration.analyzeRequirements(enrichedDescription, domains.domain, {
+        contextDomains: domains.contextDomains,
+        domainDistribution: domains.distribution,
+        ensemble: toEnsembleOptions(ensemble),
+        explain: explain === true,
+        outputLanguage,
+        assignmentKey: id
+      });
+    } finally {
+      // A run that threw counts as failed, so the session never stays in analyzing
+      updated = updateClarificationSession(id, {
+        status: result?.success ? 'completed' : 'failed',
+        ...(result ? { result } : {})
+      });
+    }
+
+    if (!result.success) {
+      // Input the guard rejected is the caller's error, not ours
+      const rejected = result.metadata?.inputGuard?.action === 'blocked';
+      return NextResponse.json(
+        { success: false, error: result.error || 'Analysis failed', metadata: result.metadata },
+        { status: rejected ? 400 : 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        status: 'completed',
+        sessionId: id,
+        domain: domains.domain,
+        domains: domains.distribution,
+        coverage,
+        enrichedDescription,
+        result: updated?.result ?? result
+      }
+    });
+  } catch (error) {
+    console.error('Clarification answer error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
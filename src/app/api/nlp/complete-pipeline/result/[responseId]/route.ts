@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getAnalysisResult } from '@/lib/analysis-storage';
+import { getPipelineJobStore } from '@/lib/pipeline-jobs';
+import { pipelineWorker } from '@/lib/pipeline-worker';
 
 export async function GET(
   request: NextRequest,
@@ -8,10 +9,10 @@ export async function GET(
   try {
     const { responseId } = await params;
     
-    // Retrieve the stored result
-    const storedResult = getAnalysisResult(responseId);
+    const store = await getPipelineJobStore();
+    const job = await store.get(responseId);
     
-    if (!storedResult) {
+    if (!job) {
       return NextResponse.json({
         success: false,
         error: 'Result not found',
@@ -20,38 +21,55 @@ export async function GET(
       }, { status: 404 });
     }
     
-    // Check if the result is still being processed
-    if (storedResult.status === 'processing') {
+    // Waiting for a worker or running; error holds the last failed attempt
+    if (job.status === 'queued' || job.status === 'processing') {
       return NextResponse.json({
         success: false,
         error: 'Still processing',
         responseId,
-        status: 'processing',
-        estimatedProcessingTime: storedResult.estimatedProcessingTime || '30-45 seconds',
-        startedAt: storedResult.startedAt,
-        currentProgress: 'Processing pipeline steps...'
+        status: job.status,
+        attempts: job.attempts,
+        maxAttempts: job.maxAttempts,
+        currentStage: job.currentStage,
+        stageTimings: job.stageTimings,
+        nextRunAt: job.status === 'queued' ? job.nextRunAt : undefined,
+        lastError: job.error,
+        startedAt: job.startedAt
       }, { status: 202 });
     }
     
-    // Check if the result has an error
-    if (storedResult.status === 'error') {
+    if (job.status === 'error') {
       return NextResponse.json({
         success: false,
-        error: storedResult.error || 'Processing failed',
+        error: job.error || 'Processing failed',
         responseId,
         status: 'error',
-        completedAt: storedResult.completedAt
+        attempts: job.attempts,
+        stageTimings: job.stageTimings,
+        completedAt: job.completedAt
       }, { status: 500 });
     }
+
+    if (job.status === 'cancelled') {
+      return NextResponse.json({
+        success: false,
+        error: 'Pipeline run was cancelled',
+        responseId,
+        status: 'cancelled',
+        completedAt: job.completedAt
+      }, { status: 409 });
+    }
     
     // Return the completed result
     return NextResponse.json({
       success: true,
-      data: storedResult.data || storedResult,
+      data: job.result?.data ?? job.result,
       responseId,
-      status: storedResult.status,
-      processedAt: storedResult.processedAt || storedResult.completedAt,
-      completedAt: storedResult.completedAt
+      status: job.status,
+      attempts: job.attempts,
+      stageTimings: job.stageTimings,
+      processedAt: job.startedAt,
+      completedAt: job.completedAt
     });
     
   } catch (error) {
@@ -63,4 +81,46 @@ export async function GET(
       status: 'error'
     }, { status: 500 });
   }
-}
\ No newline at end of file
+}
+
+// Cancel a queued or running pipeline job
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ responseId: string }> }
+) {
+  try {
+    const { responseId } = await params;
+    const job = await pipelineWorker.cancel(responseId);
+
+    if (!job) {
+      return NextResponse.json({
+        success: false,
+        error: 'Result not found',
+        responseId,
+        status: 'not_found'
+      }, { status: 404 });
+    }
+
+    if (job.status !== 'cancelled') {
+      return NextResponse.json({
+        success: false,
+        error: `Pipeline run already ${job.status}`,
+        responseId,
+        status: job.status
+      }, { status: 409 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      responseId,
+      status: job.status,
+      completedAt: job.completedAt
+    });
+  } catch (error) {
+    console.error('Error cancelling pipeline job:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
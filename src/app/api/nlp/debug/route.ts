@@ -1,14 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { listStoredResults } from '@/lib/analysis-storage';
+import { getPipelineJobStore } from '@/lib/pipeline-jobs';
 
 export async function GET(request: NextRequest) {
   try {
-    const count = listStoredResults();
+    const store = await getPipelineJobStore();
+    const jobsByStatus = await store.countByStatus();
     
     return NextResponse.json({
       success: true,
       message: 'Pipeline debug endpoint',
-      storedResultsCount: count,
+      storedResultsCount: jobsByStatus.completed,
+      jobsByStatus,
       timestamp: new Date().toISOString()
     });
   } catch (error) {
@@ -19,4 +21,4 @@ export async function GET(request: NextRequest) {
       message: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runStageGraph, selectStages } from '@/lib/stage-graph';
+import { NLP_PIPELINE_STAGES } from './stages';
+
+// Run the NLP stage graph and return every stage's result
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { text, projectType, explain = false, stages } = body;
+
+    if (!text || typeof text !== 'string') {
+      return NextResponse.json(
+        { error: 'Invalid input', message: 'Text is required and must be a string' },
+        { status: 400 }
+      );
+    }
+
+    // Only the requested stages and what they depend on; all stages by default
+    const stageNames = NLP_PIPELINE_STAGES.map(stage => stage.name);
+    if (stages !== undefined && (!Array.isArray(stages) || stages.some(name => !stageNames.includes(name)))) {
+      return NextResponse.json(
+        { error: 'Invalid input', message: `stages must be a list of: ${stageNames.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    const selected = stages ? selectStages(NLP_PIPELINE_STAGES, stages) : NLP_PIPELINE_STAGES;
+
+    const run = await runStageGraph(selected, {
+      text,
+      projectType: typeof projectType === 'string' ? projectType : undefined,
+      explain: explain === true
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        results: run.outputs,
+        stages: run.stages.map(({ output, ...stage }) => stage)
+      }
+    });
+
+  } catch (error) {
+    console.error('NLP pipeline API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', message: 'Failed to run NLP pipeline' },
+      { status: 500 }
+    );
+  }
+}
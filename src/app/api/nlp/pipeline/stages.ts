@@ -0,0 +1,54 @@
+// Stages of the NLP pipeline run by /api/nlp/pipeline
+// Each stage calls the same library function as the endpoint clients used to
+// call one by one, so a stage returns what that endpoint returns as data.
+
+import type { StageDefinition } from '@/lib/stage-graph';
+import { processText, recognizeIntent, extractEntities, generateSpecs } from '@/lib/nlp-service';
+import { analyzeRequirements } from '@/lib/requirements-analysis';
+
+export interface NLPPipelineInput {
+  text: string;
+  projectType?: string;
+  explain?: boolean;
+}
+
+// Project type given by the caller, else the category found by text processing
+const projectTypeOf = (input: NLPPipelineInput, outputs: Record<string, any>): string =>
+  input.projectType || outputs.processing?.classification?.category || 'mobile-app';
+
+export const NLP_PIPELINE_STAGES: StageDefinition<NLPPipelineInput>[] = [
+  {
+    name: 'processing',
+    run: ({ input }) => processText(input.text, {
+      includeSentiment: true,
+      includeKeywords: true,
+      includeSummary: true,
+      includeLanguage: true
+    })
+  },
+  {
+    // Needs only the text, so it runs alongside processing
+    name: 'intent',
+    run: ({ input }) => recognizeIntent(input.text)
+  },
+  {
+    name: 'entities',
+    dependsOn: ['processing'],
+    run: ({ input, outputs }) => extractEntities(input.text, projectTypeOf(input, outputs))
+  },
+  {
+    name: 'requirements',
+    dependsOn: ['processing'],
+    run: ({ input, outputs }) => analyzeRequirements(input.text, {
+      projectType: projectTypeOf(input, outputs),
+      explain: input.explain === true
+    })
+  },
+  {
+    name: 'specs',
+    dependsOn: ['requirements'],
+    // Specifications are generated from features; without any there is nothing to specify
+    when: ({ outputs }) => (outputs.requirements?.features?.length ?? 0) > 0,
+    run: ({ outputs }) => generateSpecs(outputs.requirements, 'json')
+  }
+];
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ragOrchestration } from '@/lib/rag-orchestration';
+import { resolveAnalysisDomains } from '@/lib/domain-detection';
+import {
+  assessCoverage,
+  createClarificationSession,
+  DEFAULT_MIN_COVERAGE
+} from '@/lib/clarification';
+import { validateEnsembleOptions, toEnsembleOptions } from '@/lib/feature-ensemble';
+import { validateOutputLanguage } from '@/lib/language-detection';
+
+// Analyze an app idea with the RAG pipeline. Vague ideas get clarifying
+// questions and a session to answer them in, unless clarify is false. Set
+// ensemble (true or { samples, providers, minAgreement }) to keep only the
+// features several samples agree on, and explain to get the domain scores,
+// retrieved documents, prompt and raw model output behind the result. Ideas may
+// be written in any language with a language pack; set outputLanguage (a
+// language code, or "auto" for the idea's language) to get the specification
+// text in that language. A sessionId or userId assigns the caller to a prompt
+// experiment arm; without one the regular template is used.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { description, domain, clarify = true, minCoverage = DEFAULT_MIN_COVERAGE, ensemble, explain = false, outputLanguage, sessionId, userId } = body;
+
+    if (!description || typeof description !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'Description is required and must be a string' },
+        { status: 400 }
+      );
+    }
+
+    if (domain !== undefined && typeof domain !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'Domain must be a string' },
+        { status: 400 }
+      );
+    }
+
+    if ((sessionId !== undefined && typeof sessionId !== 'string') || (userId !== undefined && typeof userId !== 'string')) {
+      return NextResponse.json(
+        { success: false, error: 'sessionId and userId must be strings' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof minCoverage !== 'number' || minCoverage < 0 || minCoverage > 1) {
+      return NextResponse.json(
+        { success: false, error: 'minCoverage must be a number between 0 and 1' },
+        { status: 400 }
+      );
+    }
+
+    const ensembleError = validateEnsembleOptions(ensemble);
+    if (ensembleError) {
+      return NextResponse.json(
+        { success: false, error: ensembleError },
+        { status: 400 }
+      );
+    }
+
+    const languageError = validateOutputLanguage(outputLanguage);
+    if (languageError) {
+      return NextResponse.json(
+        { success: false, error: languageError },
+        { status: 400 }
+      );
+    }
+
+    const domains = resolveAnalysisDomains(description, domain);
+    const coverage = assessCoverage(description, domains.domain);
+
+    if (clarify && coverage.score < minCoverage) {
+      const session = createClarificationSession(description, domains.domain, coverage, { fixedDomain: Boolean(domain) });
+
+      return NextResponse.json({
+        success: true,
+        data: {
+          status: 'needs_clarification',
+          sessionId: session.id,
+          domain: domains.domain,
+          coverage,
+          questions: session.questions
+        }
+      });
+    }
+
+    const result = await ragOrchestration.analyzeRequirements(description, domains.domain, {
+      contextDomains: domains.contextDomains,
+      domainDistribution: domains.distribution,
+      ensemble: toEnsembleOptions(ensemble),
+      explain: explain === true,
+      outputLanguage,
+      assignmentKey: userId || sessionId
+    });
+
+    if (!result.success) {
+      // Input the guard rejected is the caller's error, not ours
+      const rejected = result.metadata?.inputGuard?.action === 'blocked';
+      return NextResponse.json(
+        { success: false, error: result.error || 'Analysis failed', metadata: result.metadata, explanation: result.explanation },
+        { status: rejected ? 400 : 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        status: 'completed',
+        domain: domains.domain,
+        domains: domains.distribution,
+        coverage,
+        result
+      }
+    });
+  } catch (error) {
+    console.error('RAG analysis error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
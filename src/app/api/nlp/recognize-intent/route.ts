@@ -1,51 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-// Mock intent result for testing
-const mockIntentResult = {
-  success: true,
-  data: {
-    text: '',
-    intent: 'create_app',
-    confidence: 0.8,
-    entities: [
-      { type: 'feature', text: 'mobile app', confidence: 0.7 },
-      { type: 'platform', text: 'iOS', confidence: 0.6 }
-    ],
-    action: 'initialize_app_creation',
-    parameters: { appType: 'mobile', platform: 'cross-platform' }
-  },
-  timestamp: new Date().toISOString()
-};
-
-// Helper function to determine intent from text
-function getIntentFromText(text: string): { intent: string; confidence: number; action: string; parameters: any } {
-  const lowerText = text.toLowerCase();
-  
-  if (lowerText.includes('create') || lowerText.includes('build') || lowerText.includes('make') || lowerText.includes('develop')) {
-    return {
-      intent: 'create_app',
-      confidence: 0.8,
-      action: 'initialize_app_creation',
-      parameters: { appType: 'mobile' }
-    };
-  }
-  
-  if (lowerText.includes('add') || lowerText.includes('include') || lowerText.includes('want')) {
-    return {
-      intent: 'add_feature',
-      confidence: 0.7,
-      action: 'add_feature_to_app',
-      parameters: { featureType: 'general' }
-    };
-  }
-  
-  return {
-    intent: 'request_info',
-    confidence: 0.5,
-    action: 'provide_information',
-    parameters: {}
-  };
-}
+import { recognizeIntent } from '@/lib/nlp-service';
 
 export async function POST(request: NextRequest) {
   try {
@@ -59,36 +13,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Try to connect to actual NLP service first
-    const nlpServiceUrl = process.env.NLP_SERVICE_URL || 'http://localhost:3002';
-    
-    try {
-      const response = await fetch(`${nlpServiceUrl}/api/nlp/recognize-intent`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ text, context }),
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        return NextResponse.json(data);
-      }
-    } catch (error) {
-      console.log('NLP service not available, using mock data');
-    }
-
-    // Fallback to mock data
-    const intentData = getIntentFromText(text);
-    const mockResult = JSON.parse(JSON.stringify(mockIntentResult));
-    mockResult.data.text = text;
-    mockResult.data.intent = intentData.intent;
-    mockResult.data.confidence = intentData.confidence;
-    mockResult.data.action = intentData.action;
-    mockResult.data.parameters = { ...intentData.parameters, ...context };
-    
-    return NextResponse.json(mockResult);
+    return NextResponse.json({
+      success: true,
+      data: await recognizeIntent(text, context),
+      timestamp: new Date().toISOString()
+    });
 
   } catch (error) {
     console.error('Recognize intent API error:', error);
@@ -97,4 +26,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
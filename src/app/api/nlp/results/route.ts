@@ -1,17 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getAnalysisResult, listStoredResults } from '@/lib/analysis-storage';
+import { getPipelineJobStore } from '@/lib/pipeline-jobs';
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const responseId = searchParams.get('responseId');
 
-    console.log(`Results API called with responseId: ${responseId}`);
-    
-    // Debug: List all stored results
-    const storedCount = listStoredResults();
-    console.log(`Total stored results: ${storedCount}`);
-
     if (!responseId) {
       return NextResponse.json(
         { error: 'Missing parameter', message: 'responseId is required' },
@@ -19,27 +13,26 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Check if we have the result
-    const result = getAnalysisResult(responseId);
+    // Only completed jobs have a result
+    const store = await getPipelineJobStore();
+    const job = await store.get(responseId);
     
-    if (!result) {
-      console.log(`Result not found for responseId: ${responseId}`);
+    if (!job || job.status !== 'completed') {
       return NextResponse.json(
         { 
           error: 'Not found', 
           message: 'Analysis result not found or still processing',
           responseId,
-          status: 'not_found'
+          status: job?.status ?? 'not_found'
         },
         { status: 404 }
       );
     }
 
-    console.log(`Result found for responseId: ${responseId}`);
     // Return the result
     return NextResponse.json({
       success: true,
-      data: result,
+      data: job.result,
       responseId
     });
 
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPromptTemplate, setPromptTemplateActive } from '@/lib/prompt-templates';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const template = await getPromptTemplate(id);
+
+    if (!template) {
+      return NextResponse.json(
+        { success: false, error: 'Prompt template not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: template
+    });
+  } catch (error) {
+    console.error('Prompt template fetch error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Template versions are immutable; only their active flag can change
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { isActive } = await request.json();
+
+    if (typeof isActive !== 'boolean') {
+      return NextResponse.json(
+        { success: false, error: 'isActive must be a boolean' },
+        { status: 400 }
+      );
+    }
+
+    const template = await setPromptTemplateActive(id, isActive);
+
+    if (!template) {
+      return NextResponse.json(
+        { success: false, error: 'Prompt template not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: template,
+      message: isActive ? 'Prompt template activated' : 'Prompt template deactivated'
+    });
+  } catch (error) {
+    console.error('Prompt template update error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
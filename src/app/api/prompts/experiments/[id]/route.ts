@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getPromptExperiment,
+  getExperimentResults,
+  updatePromptExperiment,
+  deletePromptExperiment,
+  validateExperimentVariants,
+  isExperimentStatus,
+  EXPERIMENT_STATUSES
+} from '@/lib/prompt-templates';
+
+// The experiment with the feedback each of its arms received
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const experiment = await getPromptExperiment(id);
+
+    if (!experiment) {
+      return NextResponse.json(
+        { success: false, error: 'Experiment not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...experiment,
+        results: await getExperimentResults(experiment)
+      }
+    });
+  } catch (error) {
+    console.error('Prompt experiment fetch error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { status, variants } = await request.json();
+
+    if (status !== undefined && !isExperimentStatus(status)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid status. Expected one of: ${EXPERIMENT_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (variants !== undefined) {
+      const variantError = await validateExperimentVariants(variants);
+      if (variantError) {
+        return NextResponse.json(
+          { success: false, error: variantError },
+          { status: 400 }
+        );
+      }
+    }
+
+    const experiment = await updatePromptExperiment(id, { status, variants });
+
+    if (!experiment) {
+      return NextResponse.json(
+        { success: false, error: 'Experiment not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: experiment,
+      message: 'Experiment updated successfully'
+    });
+  } catch (error) {
+    console.error('Prompt experiment update error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const deleted = await deletePromptExperiment(id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, error: 'Experiment not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Experiment deleted successfully'
+    });
+  } catch (error) {
+    console.error('Prompt experiment deletion error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
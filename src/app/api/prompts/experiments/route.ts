@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isUniqueConstraintError } from '@/lib/db';
+import {
+  listPromptExperiments,
+  createPromptExperiment,
+  validateExperimentVariants
+} from '@/lib/prompt-templates';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const experiments = await listPromptExperiments(searchParams.get('status'));
+
+    return NextResponse.json({
+      success: true,
+      data: experiments
+    });
+  } catch (error) {
+    console.error('Prompt experiment list error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { name, domain = null, variants } = body;
+
+    if (!name || typeof name !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'Missing required field: name' },
+        { status: 400 }
+      );
+    }
+
+    const variantError = await validateExperimentVariants(variants);
+    if (variantError) {
+      return NextResponse.json(
+        { success: false, error: variantError },
+        { status: 400 }
+      );
+    }
+
+    const experiment = await createPromptExperiment({ name, domain, variants });
+
+    return NextResponse.json({
+      success: true,
+      data: experiment
+    }, { status: 201 });
+  } catch (error) {
+    if (isUniqueConstraintError(error)) {
+      return NextResponse.json(
+        { success: false, error: 'An experiment with this name already exists' },
+        { status: 409 }
+      );
+    }
+    console.error('Prompt experiment creation error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  listPromptTemplates,
+  getPromptTemplate,
+  createPromptTemplateVersion,
+  PromptTemplate,
+  PromptTemplateVersionConflictError
+} from '@/lib/prompt-templates';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const templates = await listPromptTemplates({
+      name: searchParams.get('name'),
+      domain: searchParams.get('domain'),
+      activeOnly: searchParams.get('active') === 'true'
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: templates
+    });
+  } catch (error) {
+    console.error('Prompt template list error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Publish a new version of a named template. Fields not supplied are copied
+// from baseTemplateId, so small edits don't have to resend the whole prompt.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { baseTemplateId, ...fields } = body;
+
+    let base: PromptTemplate | null = null;
+    if (baseTemplateId) {
+      base = await getPromptTemplate(baseTemplateId);
+      if (!base) {
+        return NextResponse.json(
+          { success: false, error: 'Base template not found' },
+          { status: 404 }
+        );
+      }
+    }
+
+    const input = {
+      name: fields.name ?? base?.name,
+      domain: fields.domain !== undefined ? fields.domain : base?.domain,
+      description: fields.description ?? base?.description,
+      systemRole: fields.systemRole ?? base?.systemRole,
+      instructions: fields.instructions ?? base?.instructions,
+      outputSchema: fields.outputSchema ?? base?.outputSchema,
+      domainGuidance: fields.domainGuidance ?? base?.domainGuidance
+    };
+
+    // Validate required fields
+    if (!input.name || !input.systemRole || !input.instructions || !input.outputSchema) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required fields: name, systemRole, instructions, outputSchema' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof input.outputSchema !== 'object' || (input.domainGuidance && typeof input.domainGuidance !== 'object')) {
+      return NextResponse.json(
+        { success: false, error: 'outputSchema and domainGuidance must be JSON objects' },
+        { status: 400 }
+      );
+    }
+
+    const template = await createPromptTemplateVersion(input);
+
+    return NextResponse.json({
+      success: true,
+      data: template
+    }, { status: 201 });
+  } catch (error) {
+    if (error instanceof PromptTemplateVersionConflictError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 409 }
+      );
+    }
+    console.error('Prompt template creation error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { savedApps } from '../../route';
+import { savedApps } from '@/lib/saved-apps';
+import { webhookDispatcher } from '@/lib/webhook-dispatcher';
 
 export async function GET(
   request: NextRequest,
@@ -75,6 +76,7 @@ export async function PUT(
     savedApps.set(id, updatedApp);
     
     console.log(`Updated app: ${updatedApp.name} (${id})`);
+    void webhookDispatcher.emit('saved_app.updated', { app: updatedApp, changedFields: Object.keys(body) });
     
     return NextResponse.json({
       success: true,
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { savedApps } from '../route';
+import { savedApps } from '@/lib/saved-apps';
+import { webhookDispatcher } from '@/lib/webhook-dispatcher';
 
 export async function GET(request: NextRequest) {
   try {
@@ -231,6 +232,7 @@ export async function PUT(request: NextRequest) {
     };
     
     savedApps.set(appId, updatedApp);
+    void webhookDispatcher.emit('saved_app.updated', { app: updatedApp, changedFields: Object.keys(updates) });
     
     return NextResponse.json({
       success: true,
@@ -1,7 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-// In-memory storage for saved apps (in production, this would use a database)
-export const savedApps = new Map();
+import { savedApps, createSavedApp } from '@/lib/saved-apps';
 
 export async function GET(request: NextRequest) {
   try {
@@ -42,46 +40,16 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const {
-      name,
-      description,
-      originalInput,
-      domain,
-      requirements,
-      specifications,
-      metadata = {},
-      isTemplate = false,
-      tags = []
-    } = body;
     
     // Validate required fields
-    if (!name || !originalInput || !requirements) {
+    if (!body.name || !body.originalInput || !body.requirements) {
       return NextResponse.json(
         { error: 'Missing required fields: name, originalInput, requirements' },
         { status: 400 }
       );
     }
     
-    // Create new saved app
-    const savedApp = {
-      id: `app_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      name,
-      description: description || '',
-      originalInput,
-      domain: domain || 'general',
-      requirements: typeof requirements === 'string' ? requirements : JSON.stringify(requirements),
-      specifications: specifications ? (typeof specifications === 'string' ? specifications : JSON.stringify(specifications)) : '{}',
-      metadata: typeof metadata === 'string' ? metadata : JSON.stringify(metadata),
-      isTemplate,
-      tags: typeof tags === 'string' ? tags : JSON.stringify(tags),
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString()
-    };
-    
-    // Store the app
-    savedApps.set(savedApp.id, savedApp);
-    
-    console.log(`Saved app: ${savedApp.name} (${savedApp.id})`);
+    const savedApp = createSavedApp(body);
     
     return NextResponse.json({
       success: true,
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getWebhookStore } from '@/lib/webhook-store';
+import { webhookDispatcher } from '@/lib/webhook-dispatcher';
+
+// Send a logged delivery again; the original stays in the log unchanged
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; deliveryId: string }> }
+) {
+  try {
+    const { id, deliveryId } = await params;
+    const store = await getWebhookStore();
+    const delivery = await store.getDelivery(deliveryId);
+
+    if (!delivery || delivery.subscriptionId !== id) {
+      return NextResponse.json(
+        { success: false, error: 'Delivery not found' },
+        { status: 404 }
+      );
+    }
+
+    const redelivery = await webhookDispatcher.redeliver(deliveryId);
+
+    return NextResponse.json({
+      success: true,
+      data: redelivery
+    }, { status: 202 });
+  } catch (error) {
+    console.error('Webhook redeliver API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
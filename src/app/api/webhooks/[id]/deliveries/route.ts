@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getWebhookStore, WebhookDeliveryStatus } from '@/lib/webhook-store';
+
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['pending', 'delivering', 'succeeded', 'failed'];
+
+// Delivery log of a subscription, newest first; ?status= and ?limit= narrow it
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50', 10) || 50, 1), 200);
+
+    if (status && !DELIVERY_STATUSES.includes(status as WebhookDeliveryStatus)) {
+      return NextResponse.json(
+        { success: false, error: `status must be one of ${DELIVERY_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const store = await getWebhookStore();
+    if (!(await store.getSubscription(id))) {
+      return NextResponse.json(
+        { success: false, error: 'Webhook not found' },
+        { status: 404 }
+      );
+    }
+
+    const deliveries = await store.listDeliveries(id, {
+      status: (status as WebhookDeliveryStatus | null) ?? undefined,
+      limit
+    });
+
+    return NextResponse.json({ success: true, data: deliveries });
+  } catch (error) {
+    console.error('Webhook deliveries API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
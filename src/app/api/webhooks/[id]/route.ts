@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getWebhookStore, maskSubscription, validateSubscriptionFields } from '@/lib/webhook-store';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const store = await getWebhookStore();
+    const subscription = await store.getSubscription(id);
+
+    if (!subscription) {
+      return NextResponse.json(
+        { success: false, error: 'Webhook not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: maskSubscription(subscription) });
+  } catch (error) {
+    console.error('Webhook fetch API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Change the URL, events, secret or description, or pause with active: false.
+// Deliveries of a paused subscription fail instead of being sent.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const { url, events, secret, active, description } = body;
+
+    const update = Object.fromEntries(
+      Object.entries({ url, events, secret, active, description }).filter(([, value]) => value !== undefined)
+    );
+    const invalid = validateSubscriptionFields(update);
+    if (invalid) {
+      return NextResponse.json(
+        { success: false, error: invalid },
+        { status: 400 }
+      );
+    }
+
+    const store = await getWebhookStore();
+    const subscription = await store.updateSubscription(id, update);
+
+    if (!subscription) {
+      return NextResponse.json(
+        { success: false, error: 'Webhook not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: maskSubscription(subscription) });
+  } catch (error) {
+    console.error('Webhook update API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Remove the subscription together with its delivery log
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const store = await getWebhookStore();
+
+    if (!(await store.deleteSubscription(id))) {
+      return NextResponse.json(
+        { success: false, error: 'Webhook not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: 'Webhook deleted successfully' });
+  } catch (error) {
+    console.error('Webhook delete API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getWebhookStore, maskSubscription, validateSubscriptionFields, WEBHOOK_EVENTS } from '@/lib/webhook-store';
+import { generateWebhookSecret } from '@/lib/webhook-dispatcher';
+
+export async function GET() {
+  try {
+    const store = await getWebhookStore();
+    const subscriptions = await store.listSubscriptions();
+
+    return NextResponse.json({
+      success: true,
+      data: subscriptions.map(maskSubscription),
+      events: WEBHOOK_EVENTS
+    });
+  } catch (error) {
+    console.error('Webhook list API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Subscribe a URL to events. Without a secret one is generated; either way
+// the secret is only returned here, so the receiver can verify signatures.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { url, events, secret, description } = body;
+
+    if (!url || !events) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required fields: url, events' },
+        { status: 400 }
+      );
+    }
+
+    const fields = { url, events, secret: secret ?? generateWebhookSecret(), description };
+    const invalid = validateSubscriptionFields(fields);
+    if (invalid) {
+      return NextResponse.json(
+        { success: false, error: invalid },
+        { status: 400 }
+      );
+    }
+
+    const store = await getWebhookStore();
+    const subscription = await store.createSubscription(fields);
+
+    return NextResponse.json({
+      success: true,
+      data: subscription
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Webhook create API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,13 +1,16 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import DashboardNavigation from '@/components/DashboardNavigation';
 import AppIdeaTranslator from '@/components/AppIdeaTranslator';
 import VoiceNLPInterface from '@/components/voice/VoiceNLPInterface';
+import BatchAnalysis from '@/components/nlp/BatchAnalysis';
 import FeedbackDashboard from '@/components/feedback/FeedbackDashboard';
 import FeedbackForm from '@/components/feedback/FeedbackForm';
 import AnalyticsDashboard from '@/components/analytics/AnalyticsDashboard';
 import AlertsDashboard from '@/components/alerts/AlertsDashboard';
+import { lastAnalysisPromptTemplate } from '@/hooks/use-analysis-stream';
+import type { PromptTemplateRef } from '@/lib/prompt-templates';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -29,6 +32,12 @@ import {
 
 export default function Home() {
   const [activeTab, setActiveTab] = useState('nlp');
+  // Feedback rates the latest analysis, so it is attributed to that analysis's template version
+  const [promptTemplate, setPromptTemplate] = useState<PromptTemplateRef>();
+
+  useEffect(() => {
+    if (activeTab === 'feedback') setPromptTemplate(lastAnalysisPromptTemplate());
+  }, [activeTab]);
 
   const renderTabContent = () => {
     switch (activeTab) {
@@ -36,6 +45,8 @@ export default function Home() {
         return <AppIdeaTranslator />;
       case 'voice':
         return <VoiceNLPInterface />;
+      case 'batch':
+        return <BatchAnalysis />;
       case 'feedback':
         return (
           <div className="space-y-6">
@@ -44,7 +55,7 @@ export default function Home() {
                 <FeedbackDashboard />
               </div>
               <div>
-                <FeedbackForm appId="demo-app" />
+                <FeedbackForm appId="demo-app" promptTemplate={promptTemplate} />
               </div>
             </div>
           </div>
@@ -16,7 +16,8 @@ import {
   Users,
   TrendingUp,
   Star,
-  Mic
+  Mic,
+  Upload
 } from 'lucide-react';
 
 interface DashboardNavigationProps {
@@ -42,6 +43,14 @@ export default function DashboardNavigation({ activeTab, onTabChange }: Dashboar
       status: 'new',
       color: 'bg-gradient-to-r from-purple-500 to-pink-500 text-white'
     },
+    {
+      id: 'batch',
+      title: 'Batch Analysis',
+      description: 'Analyze a CSV or JSONL of ideas at once',
+      icon: Upload,
+      status: 'new',
+      color: 'bg-gradient-to-r from-purple-500 to-pink-500 text-white'
+    },
     {
       id: 'feedback',
       title: 'Feedback System',
@@ -157,7 +166,7 @@ export default function DashboardNavigation({ activeTab, onTabChange }: Dashboar
         </CardHeader>
         <CardContent>
           <Tabs value={activeTab} onValueChange={onTabChange} className="space-y-4">
-            <TabsList className="grid w-full grid-cols-3 lg:grid-cols-7 bg-slate-100 p-1 rounded-lg">
+            <TabsList className="grid w-full grid-cols-3 lg:grid-cols-8 bg-slate-100 p-1 rounded-lg">
               {features.map((feature) => (
                 <TabsTrigger 
                   key={feature.id} 
@@ -18,13 +18,16 @@ import {
   Heart,
   TrendingUp
 } from 'lucide-react';
+import type { PromptTemplateRef } from '@/lib/prompt-templates';
 
 interface FeedbackFormProps {
   appId: string;
+  // Template version of the analysis being rated, so experiments can compare ratings
+  promptTemplate?: PromptTemplateRef;
   onSubmit?: (feedback: any) => void;
 }
 
-export default function FeedbackForm({ appId, onSubmit }: FeedbackFormProps) {
+export default function FeedbackForm({ appId, promptTemplate, onSubmit }: FeedbackFormProps) {
   const [formData, setFormData] = useState({
     type: '',
     category: 'general',
@@ -77,7 +80,8 @@ export default function FeedbackForm({ appId, onSubmit }: FeedbackFormProps) {
           appId,
           userId: 'anonymous', // In a real app, get from auth
           ...formData,
-          rating: formData.rating > 0 ? formData.rating : null
+          rating: formData.rating > 0 ? formData.rating : null,
+          promptTemplate
         }),
       });
 
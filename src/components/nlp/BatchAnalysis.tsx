@@ -0,0 +1,257 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Loader2, Upload, Download, Save, Square } from 'lucide-react';
+
+interface BatchItemSummary {
+  row: number;
+  idea: string;
+  name?: string;
+  domain: string;
+  projectType: string;
+  status: 'pending' | 'running' | 'completed' | 'error' | 'cancelled';
+  intent?: string;
+  featureCount?: number;
+  confidence?: number;
+  error?: string;
+  savedAppId?: string;
+}
+
+interface BatchSummary {
+  id: string;
+  fileName: string;
+  status: 'processing' | 'completed' | 'cancelled';
+  items: BatchItemSummary[];
+  parseErrors: Array<{ row: number; error: string }>;
+  progress: {
+    total: number;
+    completed: number;
+    failed: number;
+    cancelled: number;
+    percent: number;
+  };
+}
+
+// How often a running batch's progress is refreshed
+const BATCH_POLL_INTERVAL_MS = 1500;
+
+const statusColors: Record<BatchItemSummary['status'], string> = {
+  pending: 'bg-gray-100 text-gray-800',
+  running: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+  error: 'bg-red-100 text-red-800',
+  cancelled: 'bg-yellow-100 text-yellow-800'
+};
+
+// Upload a CSV or JSONL of ideas, follow the batch and export or save the results
+export default function BatchAnalysis() {
+  const [file, setFile] = useState<File | null>(null);
+  const [batch, setBatch] = useState<BatchSummary | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const batchId = batch?.id;
+  const processing = batch?.status === 'processing';
+
+  useEffect(() => {
+    if (!batchId || !processing) return;
+
+    const timer = setInterval(async () => {
+      try {
+        const response = await fetch(`/api/nlp/batch/${batchId}`);
+        const result = await response.json();
+        if (result.success) setBatch(result.data);
+      } catch (err) {
+        console.error('Error refreshing batch:', err);
+      }
+    }, BATCH_POLL_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [batchId, processing]);
+
+  const startBatch = async () => {
+    if (!file) return;
+
+    setUploading(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      const response = await fetch('/api/nlp/batch', { method: 'POST', body: formData });
+      const result = await response.json();
+
+      if (result.success) {
+        setBatch(result.data);
+      } else {
+        setError(result.message || result.error || 'Failed to start batch');
+      }
+    } catch (err) {
+      console.error('Error starting batch:', err);
+      setError('Network error occurred while uploading the batch');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const cancelBatch = async () => {
+    if (!batch) return;
+    const response = await fetch(`/api/nlp/batch/${batch.id}`, { method: 'DELETE' });
+    const result = await response.json();
+    if (result.success) setBatch(result.data);
+  };
+
+  const saveAll = async () => {
+    if (!batch) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/nlp/batch/${batch.id}/save`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({})
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setMessage(result.message);
+        const refreshed = await fetch(`/api/nlp/batch/${batch.id}`).then(res => res.json());
+        if (refreshed.success) setBatch(refreshed.data);
+      } else {
+        setError(result.error || 'Failed to save apps');
+      }
+    } catch (err) {
+      console.error('Error saving batch:', err);
+      setError('Failed to save apps');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const unsaved = batch?.items.filter(item => item.status === 'completed' && !item.savedAppId).length ?? 0;
+
+  return (
+    <Card className="bg-white/80 backdrop-blur-sm border border-slate-200 shadow-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Upload className="h-5 w-5" />
+          Batch Idea Analysis
+        </CardTitle>
+        <CardDescription className="text-slate-600">
+          Upload a CSV or JSONL of ideas (columns: idea, and optionally name, domain, projectType)
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <Input
+            type="file"
+            accept=".csv,.jsonl,.ndjson"
+            className="max-w-sm"
+            onChange={event => setFile(event.target.files?.[0] ?? null)}
+          />
+          <Button onClick={startBatch} disabled={!file || uploading || processing}>
+            {uploading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+            Analyze
+          </Button>
+          {processing && (
+            <Button variant="outline" onClick={cancelBatch}>
+              <Square className="h-4 w-4 mr-2" />
+              Cancel
+            </Button>
+          )}
+        </div>
+
+        {error && (
+          <Alert variant="destructive" className="border-red-200 bg-red-50">
+            <AlertDescription className="text-red-800">{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {message && (
+          <Alert>
+            <AlertDescription>{message}</AlertDescription>
+          </Alert>
+        )}
+
+        {batch && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-medium">{batch.fileName}</span>
+                <span className="text-muted-foreground">
+                  {batch.progress.completed} completed, {batch.progress.failed} failed of {batch.progress.total}
+                  {batch.status === 'cancelled' && ' (cancelled)'}
+                </span>
+              </div>
+              <Progress value={batch.progress.percent} />
+            </div>
+
+            {batch.parseErrors.length > 0 && (
+              <p className="text-sm text-amber-700">
+                Skipped rows: {batch.parseErrors.map(parseError => `${parseError.row} (${parseError.error})`).join(', ')}
+              </p>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              {(['csv', 'jsonl', 'zip'] as const).map(format => (
+                <Button key={format} variant="outline" size="sm" asChild>
+                  <a href={`/api/nlp/batch/${batch.id}/export?format=${format}`}>
+                    <Download className="h-4 w-4 mr-2" />
+                    {format.toUpperCase()}
+                  </a>
+                </Button>
+              ))}
+              <Button size="sm" onClick={saveAll} disabled={saving || unsaved === 0}>
+                {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                Save {unsaved} as apps
+              </Button>
+            </div>
+
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground">
+                  <th className="py-1">Row</th>
+                  <th className="py-1">Idea</th>
+                  <th className="py-1">Domain</th>
+                  <th className="py-1">Status</th>
+                  <th className="py-1 text-right">Features</th>
+                  <th className="py-1 text-right">Confidence</th>
+                </tr>
+              </thead>
+              <tbody>
+                {batch.items.map(item => (
+                  <tr key={item.row} className="border-t align-top">
+                    <td className="py-1">{item.row}</td>
+                    <td className="py-1 pr-2">
+                      {item.name && <p className="font-medium">{item.name}</p>}
+                      <p className="text-slate-600 line-clamp-2">{item.idea}</p>
+                      {item.error && <p className="text-red-700">{item.error}</p>}
+                    </td>
+                    <td className="py-1">{item.domain}</td>
+                    <td className="py-1">
+                      <Badge className={statusColors[item.status]}>{item.savedAppId ? 'saved' : item.status}</Badge>
+                    </td>
+                    <td className="py-1 text-right">{item.featureCount ?? '-'}</td>
+                    <td className="py-1 text-right">
+                      {item.confidence !== undefined ? `${(item.confidence * 100).toFixed(0)}%` : '-'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
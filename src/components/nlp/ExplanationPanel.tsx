@@ -0,0 +1,150 @@
+'use client';
+
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import type { AnalysisExplanation } from '@/lib/analysis-explanation';
+
+interface ExplanationPanelProps {
+  explanation: AnalysisExplanation;
+}
+
+const formatScore = (value?: number) => (value === undefined ? '-' : value.toFixed(3));
+
+function CodeBlock({ children }: { children: string }) {
+  return (
+    <pre className="max-h-80 overflow-auto whitespace-pre-wrap break-words rounded bg-slate-950 p-3 text-xs text-slate-100">
+      {children}
+    </pre>
+  );
+}
+
+// Why an analysis came out the way it did: domain scores, retrieval, prompt and model output
+export default function ExplanationPanel({ explanation }: ExplanationPanelProps) {
+  const { domain, retrieval, prompt, outputs, inputGuard } = explanation;
+  const keywordDomains = Object.entries(domain.keywords);
+
+  return (
+    <div className="rounded border border-slate-200">
+      <h4 className="px-3 pt-3 font-semibold">Explanation</h4>
+      <Accordion type="multiple" className="px-3">
+        <AccordionItem value="domain">
+          <AccordionTrigger>Domain detection ({domain.domain}, {domain.chosenBy === 'caller' ? 'chosen by caller' : 'classifier'})</AccordionTrigger>
+          <AccordionContent className="space-y-3">
+            {domain.scores.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {domain.scores.map(score => (
+                  <Badge key={score.domain} variant={score.domain === domain.domain ? 'default' : 'outline'}>
+                    {score.domain}: {(score.confidence * 100).toFixed(0)}%
+                  </Badge>
+                ))}
+              </div>
+            )}
+            {keywordDomains.map(([name, terms]) => (
+              <div key={name}>
+                <p className="text-sm font-medium mb-1">Terms pointing to {name}</p>
+                {terms.length > 0 ? (
+                  <div className="flex flex-wrap gap-2">
+                    {terms.map(term => (
+                      <Badge key={term.term} variant="secondary" title={`Weight ${term.weight}`}>
+                        {term.term}
+                      </Badge>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">No indicative terms</p>
+                )}
+              </div>
+            ))}
+          </AccordionContent>
+        </AccordionItem>
+
+        <AccordionItem value="retrieval">
+          <AccordionTrigger>Retrieved documents ({retrieval.documents.length})</AccordionTrigger>
+          <AccordionContent>
+            {!retrieval.contextRetrieved && retrieval.documents.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No knowledge base context was retrieved</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground">
+                    <th className="py-1">Source</th>
+                    <th className="py-1">Type</th>
+                    <th className="py-1 text-right">Score</th>
+                    <th className="py-1 text-right">Vector</th>
+                    <th className="py-1 text-right">Lexical</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {retrieval.documents.map(document => (
+                    <tr key={document.id} className="border-t" title={document.id}>
+                      <td className="py-1">{document.source}</td>
+                      <td className="py-1">{document.type}</td>
+                      <td className="py-1 text-right">{formatScore(document.score)}</td>
+                      <td className="py-1 text-right">{formatScore(document.vectorScore)}</td>
+                      <td className="py-1 text-right">{formatScore(document.lexicalScore)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </AccordionContent>
+        </AccordionItem>
+
+        {prompt && (
+          <AccordionItem value="prompt">
+            <AccordionTrigger>Prompt</AccordionTrigger>
+            <AccordionContent className="space-y-2">
+              {inputGuard && inputGuard.redactions.length > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  Redacted before sending: {inputGuard.redactions.map(redaction => redaction.placeholder).join(', ')}
+                </p>
+              )}
+              <p className="text-sm font-medium">System</p>
+              <CodeBlock>{prompt.system}</CodeBlock>
+              <p className="text-sm font-medium">User</p>
+              <CodeBlock>{prompt.user}</CodeBlock>
+            </AccordionContent>
+          </AccordionItem>
+        )}
+
+        <AccordionItem value="outputs">
+          <AccordionTrigger>Model output ({outputs.length === 0 ? 'none' : `${outputs.reduce((sum, output) => sum + output.repairs.length, 0)} repairs`})</AccordionTrigger>
+          <AccordionContent className="space-y-4">
+            {outputs.length === 0 && (
+              <p className="text-sm text-muted-foreground">No model output; the result comes from rule-based templates</p>
+            )}
+            {outputs.map((output, index) => (
+              <div key={index} className="space-y-2">
+                <div className="flex items-center gap-2">
+                  {outputs.length > 1 && <Badge variant="outline">Sample {index + 1}</Badge>}
+                  {output.provider && <Badge variant="outline">{output.provider}</Badge>}
+                  <Badge variant="outline">{output.attempts} attempt{output.attempts === 1 ? '' : 's'}</Badge>
+                </div>
+                {output.repairs.map(repair => (
+                  <div key={repair.attempt} className="space-y-1">
+                    <p className="text-sm font-medium text-red-700">Attempt {repair.attempt} rejected</p>
+                    <ul className="list-disc pl-5 text-sm text-red-700">
+                      {repair.errors.map(error => (
+                        <li key={error}>{error}</li>
+                      ))}
+                    </ul>
+                    <CodeBlock>{repair.output}</CodeBlock>
+                  </div>
+                ))}
+                {output.raw !== undefined ? (
+                  <>
+                    <p className="text-sm font-medium">Accepted output</p>
+                    <CodeBlock>{output.raw}</CodeBlock>
+                  </>
+                ) : (
+                  <p className="text-sm text-red-700">No attempt produced valid output</p>
+                )}
+              </div>
+            ))}
+          </AccordionContent>
+        </AccordionItem>
+      </Accordion>
+    </div>
+  );
+}
@@ -7,7 +7,14 @@ import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Loader2, Mic, Send, FileText, Brain, Target, Database, Code } from 'lucide-react';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Loader2, Mic, Send, FileText, Brain, Target, Database, Code, Sparkles, Square } from 'lucide-react';
+import { useAnalysisStream } from '@/hooks/use-analysis-stream';
+import { usePipelineProgress } from '@/hooks/use-pipeline-progress';
+import ExplanationPanel from './ExplanationPanel';
+import type { AnalysisExplanation } from '@/lib/analysis-explanation';
+import type { StageResult } from '@/lib/stage-graph';
 
 interface NLPResponse {
   success: boolean;
@@ -16,6 +23,30 @@ interface NLPResponse {
   timestamp?: string;
 }
 
+// Pipeline runs are queued; poll their status until they finish (a finished
+// job answers the first request). While the job is followed live its final
+// event triggers the next poll at once; polling goes on regardless, so a
+// connection that drops mid-run cannot leave the form waiting.
+const PIPELINE_POLL_INTERVAL_MS = 1000;
+const PIPELINE_POLL_TIMEOUT_MS = 60 * 1000;
+
+async function waitForPipelineResult(statusUrl: string, followed?: Promise<unknown>): Promise<NLPResponse> {
+  const deadline = Date.now() + PIPELINE_POLL_TIMEOUT_MS;
+  let live = followed?.then(() => {
+    live = undefined;
+  });
+
+  while (Date.now() < deadline) {
+    const response = await fetch(statusUrl);
+    if (response.status !== 202) {
+      return response.json();
+    }
+    const interval = new Promise(resolve => setTimeout(resolve, PIPELINE_POLL_INTERVAL_MS));
+    await (live ? Promise.race([interval, live]) : interval);
+  }
+  return { success: false, error: 'Pipeline is taking longer than expected; try again later' };
+}
+
 interface ProcessingResult {
   originalText: string;
   language?: { language: string; confidence: number };
@@ -71,10 +102,12 @@ interface RequirementResult {
   estimatedComplexity: string;
   estimatedDuration: string;
   confidence: number;
+  explanation?: AnalysisExplanation;
 }
 
 export default function NLPInterface() {
   const [inputText, setInputText] = useState('');
+  const [explain, setExplain] = useState(false);
   const [loading, setLoading] = useState(false);
   const [results, setResults] = useState<{
     processing?: ProcessingResult;
@@ -84,6 +117,8 @@ export default function NLPInterface() {
     specs?: any;
   }>({});
   const [error, setError] = useState<string | null>(null);
+  const liveAnalysis = useAnalysisStream();
+  const pipelineProgress = usePipelineProgress();
 
   const processText = async () => {
     if (!inputText.trim()) {
@@ -95,97 +130,27 @@ export default function NLPInterface() {
     setError(null);
 
     try {
-      // Process text through NLP pipeline
-      const processingResponse = await fetch('/api/nlp/process-text', {
+      // The server runs the stages (intent, entities and requirements in parallel)
+      const response = await fetch('/api/nlp/pipeline', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
           text: inputText,
-          options: {
-            includeSentiment: true,
-            includeKeywords: true,
-            includeSummary: true,
-            includeLanguage: true
-          }
+          projectType: 'mobile-app',
+          explain
         }),
       });
 
-      const processingData: NLPResponse = await processingResponse.json();
-
-      if (processingData.success && processingData.data) {
-        setResults(prev => ({ ...prev, processing: processingData.data }));
-
-        // Get intent
-        const intentResponse = await fetch('/api/nlp/recognize-intent', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            text: inputText,
-            context: {}
-          }),
-        });
-
-        const intentData: NLPResponse = await intentResponse.json();
-        if (intentData.success && intentData.data) {
-          setResults(prev => ({ ...prev, intent: intentData.data }));
-        }
-
-        // Extract entities
-        const entityResponse = await fetch('/api/nlp/extract-entities', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            text: inputText,
-            domain: 'mobile-app'
-          }),
-        });
-
-        const entityData: NLPResponse = await entityResponse.json();
-        if (entityData.success && entityData.data) {
-          setResults(prev => ({ ...prev, entities: entityData.data }));
-        }
-
-        // Analyze requirements
-        const requirementResponse = await fetch('/api/nlp/analyze-requirements', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            description: inputText,
-            projectType: 'mobile-app'
-          }),
-        });
+      const data: NLPResponse = await response.json();
+      const processing = data.data?.stages?.find((stage: StageResult) => stage.stage === 'processing');
 
-        const requirementData: NLPResponse = await requirementResponse.json();
-        if (requirementData.success && requirementData.data) {
-          setResults(prev => ({ ...prev, requirements: requirementData.data }));
-
-          // Generate specs from requirements
-          const specsResponse = await fetch('/api/nlp/generate-specs', {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              requirements: requirementData.data,
-              format: 'json'
-            }),
-          });
-
-          const specsData: NLPResponse = await specsResponse.json();
-          if (specsData.success && specsData.data) {
-            setResults(prev => ({ ...prev, specs: specsData.data }));
-          }
-        }
+      if (data.success && processing?.status === 'completed') {
+        const { processing: processed, intent, entities, requirements, specs } = data.data.results;
+        setResults({ processing: processed, intent, entities, requirements, specs });
       } else {
-        setError(processingData.error || 'Failed to process text');
+        setError(processing?.error || data.error || 'Failed to process text');
       }
     } catch (err) {
       setError('Network error occurred while processing text');
@@ -219,7 +184,11 @@ export default function NLPInterface() {
         }),
       });
 
-      const data: NLPResponse = await response.json();
+      const submitted: NLPResponse = await response.json();
+      // Show the stage timeline while polling for the result
+      const data = submitted.success && submitted.data?.statusUrl
+        ? await waitForPipelineResult(submitted.data.statusUrl, pipelineProgress.follow(submitted.data.responseId))
+        : submitted;
 
       if (data.success && data.data) {
         const pipeline = data.data;
@@ -321,8 +290,61 @@ export default function NLPInterface() {
               <Target className="h-4 w-4 mr-2" />
               Complete Pipeline
             </Button>
+
+            {liveAnalysis.status === 'streaming' ? (
+              <Button 
+                onClick={liveAnalysis.cancel}
+                variant="outline"
+                className="border-red-300 text-red-700 hover:bg-red-50 hover:border-red-400"
+              >
+                <Square className="h-4 w-4 mr-2" />
+                Cancel
+              </Button>
+            ) : (
+              <Button 
+                onClick={() => liveAnalysis.start(inputText, undefined, { explain })}
+                disabled={loading || !inputText.trim()}
+                variant="outline"
+                className="border-purple-300 text-purple-700 hover:bg-purple-50 hover:border-purple-400"
+              >
+                <Sparkles className="h-4 w-4 mr-2" />
+                Live Spec
+              </Button>
+            )}
           </div>
 
+          <div className="flex items-center gap-2">
+            <Switch id="explain" checked={explain} onCheckedChange={setExplain} />
+            <Label htmlFor="explain" className="text-sm text-slate-600">
+              Explain results (domain scores, retrieved documents, prompt and raw model output)
+            </Label>
+          </div>
+
+          {pipelineProgress.status !== 'idle' && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-slate-700">Pipeline stages</p>
+              <div className="flex flex-wrap items-center gap-2">
+                {pipelineProgress.timeline.map(entry => (
+                  <Badge key={`${entry.stage}-${entry.attempt}`} variant={entry.status === 'completed' ? 'secondary' : 'outline'} className="gap-1">
+                    {entry.status === 'running' && <Loader2 className="h-3 w-3 animate-spin" />}
+                    {entry.stage}
+                    {entry.attempt > 1 && ` (attempt ${entry.attempt})`}
+                    {entry.durationMs !== undefined && ` ${entry.durationMs}ms`}
+                  </Badge>
+                ))}
+                {pipelineProgress.status === 'running' && pipelineProgress.timeline.length === 0 && (
+                  <span className="text-sm text-muted-foreground">Queued...</span>
+                )}
+              </div>
+              {pipelineProgress.status === 'retrying' && (
+                <p className="text-sm text-amber-700">
+                  Attempt failed ({pipelineProgress.error}); retrying
+                  {pipelineProgress.nextRunAt && ` at ${new Date(pipelineProgress.nextRunAt).toLocaleTimeString()}`}
+                </p>
+              )}
+            </div>
+          )}
+
           {error && (
             <Alert variant="destructive" className="border-red-200 bg-red-50">
               <AlertDescription className="text-red-800">{error}</AlertDescription>
@@ -331,6 +353,81 @@ export default function NLPInterface() {
         </CardContent>
       </Card>
 
+      {liveAnalysis.status !== 'idle' && (
+        <Card className="bg-white/80 backdrop-blur-sm border border-slate-200 shadow-sm">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              {liveAnalysis.status === 'streaming' ? (
+                <Loader2 className="h-5 w-5 text-purple-600 animate-spin" />
+              ) : (
+                <Sparkles className="h-5 w-5 text-purple-600" />
+              )}
+              Live Specification
+            </CardTitle>
+            <CardDescription className="text-slate-600">
+              {liveAnalysis.status === 'streaming' && `Generating features${liveAnalysis.repairs > 0 ? ` (repair attempt ${liveAnalysis.repairs})` : ''}...`}
+              {liveAnalysis.status === 'completed' && `${liveAnalysis.result?.data?.project_name || 'Specification'} generated`}
+              {liveAnalysis.status === 'cancelled' && 'Generation cancelled'}
+              {liveAnalysis.status === 'error' && 'Generation failed'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex items-center gap-2">
+              {liveAnalysis.domain && <Badge>{liveAnalysis.domain}</Badge>}
+              <Badge variant="outline">{liveAnalysis.features.length} features</Badge>
+              {liveAnalysis.result?.metadata && (
+                <Badge className={getConfidenceColor(liveAnalysis.result.metadata.confidence)}>
+                  Confidence: {(liveAnalysis.result.metadata.confidence * 100).toFixed(0)}%
+                </Badge>
+              )}
+            </div>
+
+            {liveAnalysis.result?.metadata?.confidenceBreakdown && liveAnalysis.result.metadata.confidenceBreakdown.reasons.length > 0 && (
+              <div className="text-sm text-slate-600">
+                <h4 className="font-semibold mb-1">Why confidence is lower</h4>
+                <ul className="list-disc pl-5 space-y-1">
+                  {liveAnalysis.result.metadata.confidenceBreakdown.reasons.map(reason => (
+                    <li key={reason}>{reason}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {liveAnalysis.error && (
+              <Alert variant="destructive" className="border-red-200 bg-red-50">
+                <AlertDescription className="text-red-800">{liveAnalysis.error}</AlertDescription>
+              </Alert>
+            )}
+
+            {liveAnalysis.result?.explanation && (
+              <ExplanationPanel explanation={liveAnalysis.result.explanation} />
+            )}
+
+            {liveAnalysis.features.map((feature, index) => (
+              <div key={index} className="p-3 border rounded">
+                <div className="flex items-center justify-between mb-2">
+                  <h5 className="font-medium">{feature.name}</h5>
+                  <Badge className={getPriorityColor(feature.priority.toLowerCase())}>
+                    {feature.priority}
+                  </Badge>
+                </div>
+                <p className="text-sm text-muted-foreground mb-2">{feature.description}</p>
+                <p className="text-sm italic text-slate-600">{feature.user_story}</p>
+                {feature.sources.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2 mt-2">
+                    {feature.sources.map(source => (
+                      <Badge key={source.docId} variant="outline" title={source.snippet}>
+                        {source.source}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {Object.keys(results).length > 0 && (
         <Tabs defaultValue="processing" className="space-y-4">
           <TabsList className="grid w-full grid-cols-5 bg-slate-100 p-1 rounded-lg">
@@ -598,6 +695,10 @@ export default function NLPInterface() {
                         </div>
                       </div>
                     )}
+
+                    {results.requirements.explanation && (
+                      <ExplanationPanel explanation={results.requirements.explanation} />
+                    )}
                   </>
                 )}
               </CardContent>
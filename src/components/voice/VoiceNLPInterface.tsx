@@ -23,6 +23,7 @@ import {
   CheckCircle,
   Command
 } from 'lucide-react';
+import type { StageResult } from '@/lib/stage-graph';
 
 interface NLPResponse {
   success: boolean;
@@ -115,97 +116,26 @@ export default function VoiceNLPInterface() {
     setError(null);
 
     try {
-      // Process text through NLP pipeline
-      const processingResponse = await fetch('/api/nlp/process-text', {
+      // The server runs the stages (intent, entities and requirements in parallel)
+      const response = await fetch('/api/nlp/pipeline', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
           text: inputText,
-          options: {
-            includeSentiment: true,
-            includeKeywords: true,
-            includeSummary: true,
-            includeLanguage: true
-          }
+          projectType: 'mobile-app'
         }),
       });
 
-      const processingData: NLPResponse = await processingResponse.json();
-
-      if (processingData.success && processingData.data) {
-        setResults(prev => ({ ...prev, processing: processingData.data }));
-
-        // Get intent
-        const intentResponse = await fetch('/api/nlp/recognize-intent', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            text: inputText,
-            context: {}
-          }),
-        });
-
-        const intentData: NLPResponse = await intentResponse.json();
-        if (intentData.success && intentData.data) {
-          setResults(prev => ({ ...prev, intent: intentData.data }));
-        }
-
-        // Extract entities
-        const entityResponse = await fetch('/api/nlp/extract-entities', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            text: inputText,
-            domain: 'mobile-app'
-          }),
-        });
-
-        const entityData: NLPResponse = await entityResponse.json();
-        if (entityData.success && entityData.data) {
-          setResults(prev => ({ ...prev, entities: entityData.data }));
-        }
-
-        // Analyze requirements
-        const requirementResponse = await fetch('/api/nlp/analyze-requirements', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            description: inputText,
-            projectType: 'mobile-app'
-          }),
-        });
-
-        const requirementData: NLPResponse = await requirementResponse.json();
-        if (requirementData.success && requirementData.data) {
-          setResults(prev => ({ ...prev, requirements: requirementData.data }));
-
-          // Generate specs from requirements
-          const specsResponse = await fetch('/api/nlp/generate-specs', {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              requirements: requirementData.data,
-              format: 'json'
-            }),
-          });
-
-          const specsData: NLPResponse = await specsResponse.json();
-          if (specsData.success && specsData.data) {
-            setResults(prev => ({ ...prev, specs: specsData.data }));
-          }
-        }
+      const data: NLPResponse = await response.json();
+      const processing = data.data?.stages?.find((stage: StageResult) => stage.stage === 'processing');
+
+      if (data.success && processing?.status === 'completed') {
+        const { processing: processed, intent, entities, requirements, specs } = data.data.results;
+        setResults({ processing: processed, intent, entities, requirements, specs });
       } else {
-        setError(processingData.error || 'Failed to process text');
+        setError(processing?.error || data.error || 'Failed to process text');
       }
     } catch (err) {
       setError('Network error occurred while processing text');
@@ -0,0 +1,140 @@
+"use client"
+
+import * as React from "react"
+import { io, Socket } from "socket.io-client"
+import type { AnalyzedFeature, RAGAnalysisResult } from "@/lib/rag-orchestration"
+import type { PromptTemplateRef } from "@/lib/prompt-templates"
+
+export type AnalysisStreamStatus = "idle" | "streaming" | "completed" | "cancelled" | "error"
+
+interface StreamEvent {
+  requestId: string
+}
+
+const SESSION_ID_KEY = "analysisSessionId"
+const PROMPT_TEMPLATE_KEY = "analysisPromptTemplate"
+
+// Id kept in the browser across reloads and reconnects, so prompt experiments
+// assign the same variant to every analysis of this visitor
+export function analysisSessionId(): string {
+  let sessionId = window.localStorage.getItem(SESSION_ID_KEY)
+  if (!sessionId) {
+    sessionId = `session_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`
+    window.localStorage.setItem(SESSION_ID_KEY, sessionId)
+  }
+  return sessionId
+}
+
+// Template version of the last completed analysis, for attributing feedback to it
+export function lastAnalysisPromptTemplate(): PromptTemplateRef | undefined {
+  try {
+    const stored = window.localStorage.getItem(PROMPT_TEMPLATE_KEY)
+    return stored ? JSON.parse(stored) : undefined
+  } catch {
+    return undefined
+  }
+}
+
+// Streams a requirements analysis over Socket.IO, exposing features as they are generated
+export function useAnalysisStream() {
+  const socketRef = React.useRef<Socket | null>(null)
+  const requestIdRef = React.useRef<string | null>(null)
+  const [status, setStatus] = React.useState<AnalysisStreamStatus>("idle")
+  const [domain, setDomain] = React.useState<string | null>(null)
+  const [features, setFeatures] = React.useState<AnalyzedFeature[]>([])
+  const [repairs, setRepairs] = React.useState(0)
+  const [result, setResult] = React.useState<RAGAnalysisResult | null>(null)
+  const [error, setError] = React.useState<string | null>(null)
+
+  React.useEffect(() => {
+    const socket = io({ path: "/api/socketio" })
+    socketRef.current = socket
+
+    // Ignore events from requests that were replaced by a newer one
+    const isCurrent = (event: StreamEvent) => event.requestId === requestIdRef.current
+
+    socket.on("analysis:started", (event: StreamEvent & { domain: string }) => {
+      if (isCurrent(event)) setDomain(event.domain)
+    })
+
+    socket.on("analysis:feature", (event: StreamEvent & { index: number; feature: AnalyzedFeature }) => {
+      if (isCurrent(event)) setFeatures(prev => [...prev.slice(0, event.index), event.feature])
+    })
+
+    // Invalid output is regenerated, so the partial list starts over
+    socket.on("analysis:repair", (event: StreamEvent & { attempt: number }) => {
+      if (!isCurrent(event)) return
+      setFeatures([])
+      setRepairs(event.attempt - 1)
+    })
+
+    socket.on("analysis:completed", (event: StreamEvent & { result: RAGAnalysisResult }) => {
+      if (!isCurrent(event)) return
+      setResult(event.result)
+      setFeatures(event.result.data?.features || [])
+      if (event.result.metadata?.promptTemplate) {
+        window.localStorage.setItem(PROMPT_TEMPLATE_KEY, JSON.stringify(event.result.metadata.promptTemplate))
+      }
+      setStatus("completed")
+      requestIdRef.current = null
+    })
+
+    socket.on("analysis:cancelled", (event: StreamEvent) => {
+      if (!isCurrent(event)) return
+      setStatus("cancelled")
+      requestIdRef.current = null
+    })
+
+    socket.on("analysis:error", (event: StreamEvent & { error: string }) => {
+      if (!isCurrent(event)) return
+      setError(event.error)
+      setStatus("error")
+      requestIdRef.current = null
+    })
+
+    socket.on("disconnect", () => {
+      if (!requestIdRef.current) return
+      setError("Connection to the analysis server was lost")
+      setStatus("error")
+      requestIdRef.current = null
+    })
+
+    return () => {
+      socket.disconnect()
+    }
+  }, [])
+
+  const start = React.useCallback((description: string, domainOverride?: string, options: { explain?: boolean } = {}) => {
+    const socket = socketRef.current
+    if (!socket) return
+
+    if (requestIdRef.current) {
+      socket.emit("analysis:cancel", { requestId: requestIdRef.current })
+    }
+
+    const requestId = `analysis_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`
+    requestIdRef.current = requestId
+    setStatus("streaming")
+    setDomain(null)
+    setFeatures([])
+    setRepairs(0)
+    setResult(null)
+    setError(null)
+
+    socket.emit("analysis:start", {
+      requestId,
+      description,
+      domain: domainOverride,
+      explain: options.explain,
+      sessionId: analysisSessionId()
+    })
+  }, [])
+
+  const cancel = React.useCallback(() => {
+    if (requestIdRef.current) {
+      socketRef.current?.emit("analysis:cancel", { requestId: requestIdRef.current })
+    }
+  }, [])
+
+  return { status, domain, features, repairs, result, error, start, cancel }
+}
@@ -0,0 +1,135 @@
+"use client"
+
+import * as React from "react"
+import { io, Socket } from "socket.io-client"
+import type {
+  PipelineCompletedEvent,
+  PipelineFailedEvent,
+  PipelineStageCompletedEvent,
+  PipelineStageStartedEvent,
+} from "@/lib/pipeline-events"
+
+export type PipelineProgressStatus = "idle" | "running" | "retrying" | "completed" | "failed"
+
+export interface PipelineTimelineEntry {
+  stage: string
+  attempt: number
+  status: "running" | "completed"
+  durationMs?: number
+}
+
+export type PipelineOutcome = PipelineCompletedEvent | PipelineFailedEvent
+
+interface JobEvent {
+  jobId: string
+  seq: number
+}
+
+// Follows a queued pipeline job over Socket.IO and builds its stage timeline
+export function usePipelineProgress() {
+  const socketRef = React.useRef<Socket | null>(null)
+  const jobIdRef = React.useRef<string | null>(null)
+  // Last event applied, so replayed and duplicate events are skipped
+  const lastSeqRef = React.useRef(0)
+  const settleRef = React.useRef<((outcome: PipelineOutcome | null) => void) | null>(null)
+  const [status, setStatus] = React.useState<PipelineProgressStatus>("idle")
+  const [timeline, setTimeline] = React.useState<PipelineTimelineEntry[]>([])
+  const [error, setError] = React.useState<string | null>(null)
+  const [nextRunAt, setNextRunAt] = React.useState<string | null>(null)
+
+  React.useEffect(() => {
+    const socket = io({ path: "/api/socketio" })
+    socketRef.current = socket
+
+    const isNew = (event: JobEvent) => {
+      if (event.jobId !== jobIdRef.current || event.seq <= lastSeqRef.current) return false
+      lastSeqRef.current = event.seq
+      return true
+    }
+
+    const finish = (outcome: PipelineOutcome | null) => {
+      settleRef.current?.(outcome)
+      settleRef.current = null
+    }
+
+    // Ask for the events missed while disconnected
+    socket.on("connect", () => {
+      if (jobIdRef.current) {
+        socket.emit("pipeline:subscribe", { jobId: jobIdRef.current, afterSeq: lastSeqRef.current })
+      }
+    })
+
+    socket.on("pipeline:stage-started", (event: PipelineStageStartedEvent) => {
+      if (!isNew(event)) return
+      setStatus("running")
+      setTimeline(prev => [...prev, { stage: event.stage, attempt: event.attempt, status: "running" }])
+    })
+
+    socket.on("pipeline:stage-completed", (event: PipelineStageCompletedEvent) => {
+      if (!isNew(event)) return
+      setTimeline(prev => {
+        const running = prev.findIndex(entry => entry.stage === event.stage && entry.attempt === event.attempt && entry.status === "running")
+        const entry: PipelineTimelineEntry = { stage: event.stage, attempt: event.attempt, status: "completed", durationMs: event.durationMs }
+        return running === -1 ? [...prev, entry] : prev.map((existing, index) => (index === running ? entry : existing))
+      })
+    })
+
+    socket.on("pipeline:failed", (event: PipelineFailedEvent) => {
+      if (!isNew(event)) return
+      setError(event.error)
+      if (event.status === "queued") {
+        setStatus("retrying")
+        setNextRunAt(event.nextRunAt ?? null)
+        return
+      }
+      setStatus("failed")
+      finish(event)
+    })
+
+    socket.on("pipeline:completed", (event: PipelineCompletedEvent) => {
+      if (!isNew(event)) return
+      setStatus("completed")
+      setError(null)
+      setNextRunAt(null)
+      finish(event)
+    })
+
+    socket.on("pipeline:error", (event: { jobId: string; error: string }) => {
+      if (event.jobId !== jobIdRef.current) return
+      setError(event.error)
+      setStatus("failed")
+      finish(null)
+    })
+
+    return () => {
+      socket.disconnect()
+    }
+  }, [])
+
+  // Follow a job; resolves with its final event, or null when it cannot be
+  // followed live (no connection, unknown job, or replaced by another job)
+  const follow = React.useCallback((jobId: string): Promise<PipelineOutcome | null> => {
+    const socket = socketRef.current
+    if (!socket?.connected) return Promise.resolve(null)
+
+    settleRef.current?.(null)
+    settleRef.current = null
+
+    if (jobIdRef.current) {
+      socket.emit("pipeline:unsubscribe", { jobId: jobIdRef.current })
+    }
+    jobIdRef.current = jobId
+    lastSeqRef.current = 0
+    setStatus("running")
+    setTimeline([])
+    setError(null)
+    setNextRunAt(null)
+
+    return new Promise(resolve => {
+      settleRef.current = resolve
+      socket.emit("pipeline:subscribe", { jobId, afterSeq: 0 })
+    })
+  }, [])
+
+  return { status, timeline, error, nextRunAt, follow }
+}
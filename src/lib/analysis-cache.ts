@@ -0,0 +1,291 @@
+// Semantic cache for requirement analyses
+// Entries are partitioned by analysis type, domain, domain distribution, prompt
+// version and model. Inside a partition an input hits on its normalized text, or
+// on a near-duplicate whose embedding similarity is above the threshold and that
+// names the same platforms and negates the same things.
+
+import { createHash } from 'crypto';
+import { generateEmbedding, cosineSimilarity } from './embeddings';
+import type { DomainScore } from './domain-detection';
+
+export type CacheNamespace = 'rag-analysis' | 'requirements-analysis';
+
+export interface CacheKey {
+  namespace: CacheNamespace;
+  input: string;
+  domain: string;
+  // Further domains whose knowledge was blended into the result
+  contextDomains?: string[];
+  // Classifier confidences the result's confidence was scored with
+  domainDistribution?: DomainScore[];
+  promptVersion: string;
+  model: string;
+}
+
+export interface CacheLookup<T> {
+  value: T;
+  match: 'exact' | 'semantic';
+  similarity: number;
+  cachedAt: string;
+}
+
+interface CacheEntry {
+  partition: string;
+  normalizedInput: string;
+  embedding: number[];
+  guardTerms: string;
+  domains: string[];
+  namespace: CacheNamespace;
+  // Results built from retrieved knowledge are dropped when that knowledge changes
+  dependsOnKnowledge: boolean;
+  value: unknown;
+  createdAt: number;
+  expiresAt: number;
+  lastAccessedAt: number;
+  hits: number;
+}
+
+interface NamespaceStats {
+  exactHits: number;
+  semanticHits: number;
+  misses: number;
+  stores: number;
+}
+
+export interface CacheConfig {
+  ttlMs: number;
+  similarityThreshold: number;
+  maxEntries: number;
+}
+
+const DEFAULT_CONFIG: CacheConfig = {
+  ttlMs: parseInt(process.env.ANALYSIS_CACHE_TTL_MS || '') || 60 * 60 * 1000,
+  similarityThreshold: parseFloat(process.env.ANALYSIS_CACHE_SIMILARITY || '') || 0.97,
+  maxEntries: parseInt(process.env.ANALYSIS_CACHE_MAX_ENTRIES || '') || 500
+};
+
+// Lowercase, unify quotes and collapse whitespace and trailing punctuation
+export function normalizeCacheInput(input: string): string {
+  return input
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/\s+/g, ' ')
+    .replace(/[\s.!?,;:]+$/, '')
+    .trim();
+}
+
+// Words that change what an idea asks for while barely moving its hashed n-gram
+// embedding ("iOS" vs "Android", "with" vs "without check deposit")
+const PLATFORM_TERMS = new Set([
+  'ios', 'iphone', 'ipad', 'android', 'web', 'browser', 'desktop', 'windows', 'macos', 'mac',
+  'linux', 'mobile', 'tablet', 'watchos', 'wearos', 'smartwatch', 'tv'
+]);
+const NEGATION_TERMS = new Set([
+  'no', 'not', 'without', 'never', 'none', 'nor', 'except', 'excluding', "don't", "doesn't",
+  "won't", "can't", 'cannot', "shouldn't", "mustn't", "isn't", "aren't",
+  'sin', 'nunca', 'ohne', 'nicht', 'kein', 'keine', 'keinen', 'niemals'
+]);
+
+// Platforms an input names and what it negates (each negation with the word
+// after it), in order; a semantic hit needs the same terms
+function guardTermsOf(normalizedInput: string): string {
+  const words = normalizedInput.split(/[^\p{L}\p{N}']+/u).filter(Boolean);
+  const terms: string[] = [];
+  words.forEach((word, index) => {
+    if (PLATFORM_TERMS.has(word)) terms.push(word);
+    else if (NEGATION_TERMS.has(word)) terms.push(`${word} ${words[index + 1] ?? ''}`);
+  });
+  return terms.join('|');
+}
+
+// Short stable hash used as a version for prompts that are not in the template registry
+export function promptFingerprint(prompt: string): string {
+  return createHash('sha256').update(prompt).digest('hex').slice(0, 12);
+}
+
+export class AnalysisCache {
+  private entries = new Map<string, CacheEntry>();
+  private stats = new Map<CacheNamespace, NamespaceStats>();
+  private evictions = 0;
+  private expirations = 0;
+  private invalidations = 0;
+  private config: CacheConfig;
+
+  constructor(config: Partial<CacheConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  private partitionOf(key: CacheKey): string {
+    const domains = Array.from(new Set([key.domain, ...(key.contextDomains || [])])).join('+');
+    const distribution = (key.domainDistribution || [])
+      .map(score => `${score.domain}:${score.confidence.toFixed(2)}`)
+      .join(',');
+    return [key.namespace, domains, distribution, key.promptVersion, key.model].join('|');
+  }
+
+  private statsFor(namespace: CacheNamespace): NamespaceStats {
+    let stats = this.stats.get(namespace);
+    if (!stats) {
+      stats = { exactHits: 0, semanticHits: 0, misses: 0, stores: 0 };
+      this.stats.set(namespace, stats);
+    }
+    return stats;
+  }
+
+  // Look up an exact or near-duplicate entry for the key
+  get<T>(key: CacheKey): CacheLookup<T> | null {
+    this.removeExpired();
+
+    const partition = this.partitionOf(key);
+    const normalizedInput = normalizeCacheInput(key.input);
+    const stats = this.statsFor(key.namespace);
+
+    let entry = this.entries.get(`${partition}|${normalizedInput}`);
+    let similarity = 1;
+    const match = entry ? 'exact' : 'semantic';
+
+    if (!entry) {
+      const embedding = generateEmbedding(normalizedInput);
+      const guardTerms = guardTermsOf(normalizedInput);
+      similarity = this.config.similarityThreshold;
+      for (const candidate of this.entries.values()) {
+        if (candidate.partition !== partition || candidate.guardTerms !== guardTerms) continue;
+        const score = cosineSimilarity(embedding, candidate.embedding);
+        if (score >= similarity) {
+          entry = candidate;
+          similarity = score;
+        }
+      }
+    }
+
+    if (!entry) {
+      stats.misses++;
+      return null;
+    }
+
+    if (match === 'exact') stats.exactHits++;
+    else stats.semanticHits++;
+
+    entry.hits++;
+    entry.lastAccessedAt = Date.now();
+
+    return {
+      value: structuredClone(entry.value) as T,
+      match,
+      similarity,
+      cachedAt: new Date(entry.createdAt).toISOString()
+    };
+  }
+
+  set(key: CacheKey, value: unknown, options: { dependsOnKnowledge?: boolean } = {}) {
+    const partition = this.partitionOf(key);
+    const normalizedInput = normalizeCacheInput(key.input);
+    const now = Date.now();
+
+    this.entries.set(`${partition}|${normalizedInput}`, {
+      partition,
+      normalizedInput,
+      embedding: generateEmbedding(normalizedInput),
+      guardTerms: guardTermsOf(normalizedInput),
+      domains: Array.from(new Set([key.domain, ...(key.contextDomains || [])])),
+      namespace: key.namespace,
+      dependsOnKnowledge: options.dependsOnKnowledge ?? false,
+      value: structuredClone(value),
+      createdAt: now,
+      expiresAt: now + this.config.ttlMs,
+      lastAccessedAt: now,
+      hits: 0
+    });
+    this.statsFor(key.namespace).stores++;
+
+    this.evictOverflow();
+  }
+
+  // Drop knowledge-based entries for a domain; general documents feed every domain
+  invalidateKnowledge(domain: string): number {
+    let removed = 0;
+    for (const [id, entry] of this.entries) {
+      if (entry.dependsOnKnowledge && (domain === 'general' || entry.domains.includes(domain))) {
+        this.entries.delete(id);
+        removed++;
+      }
+    }
+    this.invalidations += removed;
+    return removed;
+  }
+
+  clear(namespace?: CacheNamespace): number {
+    let removed = 0;
+    for (const [id, entry] of this.entries) {
+      if (!namespace || entry.namespace === namespace) {
+        this.entries.delete(id);
+        removed++;
+      }
+    }
+    this.invalidations += removed;
+    return removed;
+  }
+
+  private removeExpired() {
+    const now = Date.now();
+    for (const [id, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(id);
+        this.expirations++;
+      }
+    }
+  }
+
+  // Evict least recently used entries above the size limit
+  private evictOverflow() {
+    if (this.entries.size <= this.config.maxEntries) return;
+
+    const byAccess = Array.from(this.entries.entries()).sort((a, b) => a[1].lastAccessedAt - b[1].lastAccessedAt);
+    for (const [id] of byAccess.slice(0, this.entries.size - this.config.maxEntries)) {
+      this.entries.delete(id);
+      this.evictions++;
+    }
+  }
+
+  getStats() {
+    this.removeExpired();
+
+    const namespaces = Object.fromEntries(Array.from(this.stats.entries()).map(([namespace, stats]) => {
+      const hits = stats.exactHits + stats.semanticHits;
+      const lookups = hits + stats.misses;
+      return [namespace, { ...stats, hitRate: lookups === 0 ? 0 : hits / lookups }];
+    }));
+
+    const totals = Array.from(this.stats.values()).reduce(
+      (sum, stats) => ({
+        hits: sum.hits + stats.exactHits + stats.semanticHits,
+        misses: sum.misses + stats.misses
+      }),
+      { hits: 0, misses: 0 }
+    );
+
+    return {
+      config: this.config,
+      size: this.entries.size,
+      hits: totals.hits,
+      misses: totals.misses,
+      hitRate: totals.hits + totals.misses === 0 ? 0 : totals.hits / (totals.hits + totals.misses),
+      evictions: this.evictions,
+      expirations: this.expirations,
+      invalidations: this.invalidations,
+      namespaces
+    };
+  }
+}
+
+// Global singleton so API routes and the Socket.IO server share one cache
+declare global {
+  var _analysisCache: AnalysisCache | undefined;
+}
+
+export const analysisCache = global._analysisCache || new AnalysisCache();
+
+if (!global._analysisCache) {
+  global._analysisCache = analysisCache;
+}
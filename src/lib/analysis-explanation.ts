@@ -0,0 +1,88 @@
+// Explainability reports for analyses requested with explain=true
+// A report shows why an idea was analyzed the way it was: the domain scores and
+// the terms behind them, the knowledge documents retrieved with their
+// similarity scores, the exact prompt sent and every model output, including
+// the ones rejected and sent back for repair. Prompt and outputs are shown as
+// the model saw them, with personal data still replaced by placeholders.
+
+import { DomainScore, TermWeight, explainDomains } from './domain-detection';
+import { GENERAL_DOMAIN } from './domain-packs';
+import type { ScoredDocument } from './vector-db';
+import type { RepairStep } from './llm';
+import type { InputGuardReport } from './input-guard';
+
+export interface DomainExplanation {
+  domain: string;
+  // "caller" when the domain was given with the request instead of detected
+  chosenBy: 'classifier' | 'caller';
+  // Classifier confidence for every domain, highest first
+  scores: DomainScore[];
+  // Terms of the idea that pointed to each assigned domain, strongest first
+  keywords: Record<string, TermWeight[]>;
+}
+
+export interface RetrievedDocumentTrace {
+  id: string;
+  domain: string;
+  source: string;
+  type: string;
+  // Hybrid score used for ranking, with its vector and lexical parts
+  score: number;
+  vectorScore?: number;
+  lexicalScore?: number;
+}
+
+export interface ModelOutputTrace {
+  // Provider or model that produced the output; set for ensemble samples
+  provider?: string;
+  attempts: number;
+  // Final, valid output; absent when every attempt failed validation
+  raw?: string;
+  repairs: RepairStep[];
+}
+
+export interface AnalysisExplanation {
+  domain: DomainExplanation;
+  retrieval: {
+    // False when the knowledge base was unavailable or not used
+    contextRetrieved: boolean;
+    documents: RetrievedDocumentTrace[];
+  };
+  // Absent when no model was called (e.g. the rule-based fallback)
+  prompt?: {
+    system: string;
+    user: string;
+  };
+  // One per model call chain; several for an ensemble
+  outputs: ModelOutputTrace[];
+  inputGuard?: InputGuardReport;
+}
+
+// Classifier scores and indicative terms for the domain an idea was analyzed under
+export function explainDomainDetection(
+  description: string,
+  domain: string,
+  distribution?: DomainScore[],
+  assignedDomains?: string[]
+): DomainExplanation {
+  const assigned = assignedDomains && assignedDomains.length > 0 ? assignedDomains : [domain];
+
+  return {
+    domain,
+    chosenBy: distribution ? 'classifier' : 'caller',
+    scores: (distribution || []).map(score => ({ domain: score.domain, confidence: Number(score.confidence.toFixed(3)) })),
+    keywords: explainDomains(description, assigned.filter(name => name !== GENERAL_DOMAIN))
+  };
+}
+
+export function traceRetrievedDocuments(documents: ScoredDocument[]): RetrievedDocumentTrace[] {
+  return documents.map(({ document, score, vectorScore, lexicalScore }) => ({
+    id: document.id,
+    domain: document.domain,
+    source: document.metadata.source,
+    type: document.metadata.type,
+    score: Number(score.toFixed(4)),
+    ...(vectorScore !== undefined ? { vectorScore: Number(vectorScore.toFixed(4)) } : {}),
+    ...(lexicalScore !== undefined ? { lexicalScore: Number(lexicalScore.toFixed(4)) } : {})
+  }));
+}
@@ -0,0 +1,75 @@
+import { z } from 'zod';
+
+// Schemas for the JSON the LLM must return; failures are fed back to the model verbatim
+
+// Accept "high", "High" etc. but nothing outside the allowed values
+const caseInsensitiveEnum = <const T extends readonly [string, ...string[]]>(values: T, transform: (value: string) => string) =>
+  z.preprocess(value => (typeof value === 'string' ? transform(value.trim()) : value), z.enum(values));
+
+const nonEmptyString = z.string().trim().min(1);
+
+// One feature as produced by the model, before citations are resolved
+export const ragFeatureSchema = z.object({
+  name: nonEmptyString,
+  description: nonEmptyString,
+  user_story: nonEmptyString.optional(),
+  priority: caseInsensitiveEnum(['HIGH', 'MEDIUM', 'LOW'], value => value.toUpperCase()),
+  functional_requirements: z.array(z.string()),
+  non_functional_requirements: z.array(z.string()),
+  citations: z.array(z.union([z.number(), z.string()])).optional()
+});
+
+export type RAGFeaturePayload = z.infer<typeof ragFeatureSchema>;
+
+// Shape of RAGAnalysisResult.data as produced by the model
+export const ragAnalysisSchema = z.object({
+  project_name: nonEmptyString,
+  core_domain: nonEmptyString,
+  features: z.array(ragFeatureSchema).min(1)
+});
+
+export type RAGAnalysisPayload = z.infer<typeof ragAnalysisSchema>;
+
+const level = caseInsensitiveEnum(['low', 'medium', 'high'], value => value.toLowerCase());
+
+// Shape returned by the requirements-analysis prompt in analyze-requirements/route.ts
+export const requirementsAnalysisSchema = z.object({
+  requirements: z.array(z.object({
+    id: nonEmptyString,
+    title: nonEmptyString,
+    description: nonEmptyString,
+    priority: caseInsensitiveEnum(['critical', 'high', 'medium', 'low'], value => value.toLowerCase()),
+    category: z.string()
+  })),
+  features: z.array(z.object({
+    id: nonEmptyString,
+    name: nonEmptyString,
+    description: nonEmptyString,
+    complexity: level,
+    estimatedHours: z.coerce.number().nonnegative(),
+    category: z.string().optional()
+  })).min(1),
+  constraints: z.array(z.string()),
+  assumptions: z.array(z.string()),
+  risks: z.array(z.object({
+    description: nonEmptyString,
+    impact: level,
+    probability: level
+  })),
+  priorities: z.array(z.object({
+    item: z.string(),
+    priority_level: z.string(),
+    justification: z.string()
+  })).default([]),
+  dependencies: z.array(z.object({
+    from: z.string(),
+    to: z.string(),
+    type: z.string()
+  })).default([]),
+  complexity: level,
+  duration: z.string(),
+  confidence: z.number().min(0).max(1),
+  detectedDomain: z.string().optional()
+});
+
+export type RequirementsAnalysisPayload = z.infer<typeof requirementsAnalysisSchema>;
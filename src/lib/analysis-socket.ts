@@ -0,0 +1,111 @@
+// Socket.IO handlers that stream RAG analyses to the client feature by feature
+//
+// Client -> server:
+//   analysis:start   { requestId, description, domain?, ensemble?, explain?, outputLanguage?, sessionId?, userId? }
+//                    userId or sessionId assigns the client to a prompt experiment arm
+//   analysis:cancel  { requestId }
+// Server -> client (all payloads carry requestId):
+//   analysis:started   { domain, domains? }  domains: classifier confidences when detected
+//   analysis:feature   { index, feature }   with ensemble, sent once the consensus is known
+//   analysis:repair    { attempt, errors }   streamed features restart from index 0
+//   analysis:completed { result }           result.explanation is set when explain was requested
+//   analysis:cancelled {}
+//   analysis:error     { error }
+
+import { Socket } from 'socket.io';
+import { ragOrchestration } from './rag-orchestration';
+import { resolveAnalysisDomains } from './domain-detection';
+import { EnsembleOptions, validateEnsembleOptions, toEnsembleOptions } from './feature-ensemble';
+import { validateOutputLanguage } from './language-detection';
+
+interface AnalysisStartPayload {
+  requestId: string;
+  description: string;
+  domain?: string;
+  ensemble?: boolean | EnsembleOptions;
+  explain?: boolean;
+  outputLanguage?: string;
+  sessionId?: string;
+  userId?: string;
+}
+
+export const registerAnalysisHandlers = (socket: Socket) => {
+  // In-flight analyses for this connection, keyed by the client's request id
+  const running = new Map<string, AbortController>();
+
+  socket.on('analysis:start', async (payload: AnalysisStartPayload) => {
+    const { requestId, description } = payload || ({} as AnalysisStartPayload);
+
+    if (!requestId || !description || typeof description !== 'string') {
+      socket.emit('analysis:error', { requestId, error: 'requestId and description are required' });
+      return;
+    }
+
+    const ensembleError = validateEnsembleOptions(payload.ensemble);
+    if (ensembleError) {
+      socket.emit('analysis:error', { requestId, error: ensembleError });
+      return;
+    }
+
+    const { sessionId, userId } = payload;
+    if ((sessionId !== undefined && typeof sessionId !== 'string') || (userId !== undefined && typeof userId !== 'string')) {
+      socket.emit('analysis:error', { requestId, error: 'sessionId and userId must be strings' });
+      return;
+    }
+
+    const languageError = validateOutputLanguage(payload.outputLanguage);
+    if (languageError) {
+      socket.emit('analysis:error', { requestId, error: languageError });
+      return;
+    }
+
+    if (running.has(requestId)) {
+      socket.emit('analysis:error', { requestId, error: 'An analysis with this requestId is already running' });
+      return;
+    }
+
+    const controller = new AbortController();
+    running.set(requestId, controller);
+
+    try {
+      const { domain, contextDomains, distribution } = resolveAnalysisDomains(description, payload.domain);
+      socket.emit('analysis:started', { requestId, domain, domains: distribution });
+
+      const result = await ragOrchestration.analyzeRequirements(description, domain, {
+        contextDomains,
+        domainDistribution: distribution,
+        ensemble: toEnsembleOptions(payload.ensemble),
+        explain: payload.explain === true,
+        outputLanguage: payload.outputLanguage,
+        assignmentKey: userId || sessionId,
+        signal: controller.signal,
+        onFeature: (feature, index) => socket.emit('analysis:feature', { requestId, index, feature }),
+        onRepair: (attempt, errors) => socket.emit('analysis:repair', { requestId, attempt, errors })
+      });
+
+      if (controller.signal.aborted) {
+        socket.emit('analysis:cancelled', { requestId });
+      } else if (result.success) {
+        socket.emit('analysis:completed', { requestId, result });
+      } else {
+        socket.emit('analysis:error', { requestId, error: result.error || 'Analysis failed' });
+      }
+    } catch (error) {
+      console.error('Streaming analysis failed:', error);
+      socket.emit('analysis:error', { requestId, error: error instanceof Error ? error.message : 'Unknown error' });
+    } finally {
+      running.delete(requestId);
+    }
+  });
+
+  socket.on('analysis:cancel', (payload: { requestId: string }) => {
+    const { requestId } = payload || ({} as { requestId: string });
+    if (requestId) running.get(requestId)?.abort();
+  });
+
+  // Stop generating for clients that went away
+  socket.on('disconnect', () => {
+    running.forEach(controller => controller.abort());
+    running.clear();
+  });
+};
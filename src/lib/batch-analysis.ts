@@ -0,0 +1,408 @@
+// Batch analysis of uploaded ideas
+// Every idea of a batch is submitted to the pipeline job queue, so it gets the
+// queue's retries and stage timings, and both the batch and its jobs survive a
+// restart. Only a few ideas of a batch are queued at a time, so a large upload
+// doesn't hold up interactive requests. Batches are kept for a day after they
+// finish, which is long enough to export the results or save them as apps.
+
+import { detectDomain } from './domain-detection';
+import { BatchExportFormat, BatchFileFormat, BatchIdeaRow, BatchRowError, toCsv, toJsonl } from './batch-files';
+import { BatchItemRecord, BatchStatus, getBatchStore, StoredBatch } from './batch-store';
+import { getPipelineJobStore, PipelineJob } from './pipeline-jobs';
+import { pipelineWorker } from './pipeline-worker';
+import { createZip } from './zip';
+
+export type { BatchStatus } from './batch-store';
+
+export const MAX_BATCH_IDEAS = 500;
+export const MAX_BATCH_CONCURRENCY = 8;
+
+const DEFAULT_PROJECT_TYPE = 'mobile-app';
+
+// How often running batches queue their next ideas and check for completion
+const POLL_INTERVAL_MS = 1000;
+
+// Finished batches are dropped after this long
+const BATCH_RETENTION_MS = 24 * 60 * 60 * 1000;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+export type BatchItemStatus = 'pending' | 'running' | 'completed' | 'error' | 'cancelled';
+
+export interface BatchItem extends BatchItemRecord {
+  status: BatchItemStatus;
+  // Pipeline output: entities, intent, requirements and specifications
+  result?: any;
+  error?: string;
+  durationMs?: number;
+}
+
+export interface BatchAnalysis extends Omit<StoredBatch, 'items'> {
+  items: BatchItem[];
+}
+
+export interface BatchProgress {
+  total: number;
+  pending: number;
+  running: number;
+  completed: number;
+  failed: number;
+  cancelled: number;
+  // Share of ideas that are finished, 0-100
+  percent: number;
+}
+
+export interface BatchExport {
+  body: string | Buffer;
+  contentType: string;
+  fileName: string;
+}
+
+function defaultConcurrency(): number {
+  const configured = parseInt(process.env.BATCH_CONCURRENCY || '', 10);
+  return Number.isInteger(configured) && configured > 0 ? Math.min(configured, MAX_BATCH_CONCURRENCY) : 3;
+}
+
+const isActive = (job: PipelineJob | undefined) => job?.status === 'queued' || job?.status === 'processing';
+
+// An idea's outcome, read from its pipeline job
+function toBatchItem(item: BatchItemRecord, job: PipelineJob | undefined, batchStatus: BatchStatus): BatchItem {
+  if (!item.jobId) {
+    return { ...item, status: batchStatus === 'cancelled' ? 'cancelled' : 'pending' };
+  }
+  if (!job) {
+    return { ...item, status: 'error', error: 'The pipeline job of this idea no longer exists' };
+  }
+
+  const durationMs = job.startedAt && job.completedAt
+    ? new Date(job.completedAt).getTime() - new Date(job.startedAt).getTime()
+    : undefined;
+  const finished = { ...(durationMs !== undefined ? { durationMs } : {}) };
+
+  switch (job.status) {
+    case 'queued':
+      return { ...item, status: 'pending' };
+    case 'processing':
+      return { ...item, status: 'running' };
+    case 'completed':
+      return { ...item, ...finished, status: 'completed', result: job.result?.data ?? job.result };
+    case 'error':
+      return { ...item, ...finished, status: 'error', error: job.error || 'Processing failed' };
+    case 'cancelled':
+      return { ...item, ...finished, status: 'cancelled' };
+  }
+}
+
+async function jobsOf(batch: StoredBatch): Promise<Map<string, PipelineJob>> {
+  const ids = batch.items.flatMap(item => (item.jobId ? [item.jobId] : []));
+  if (ids.length === 0) return new Map();
+
+  const store = await getPipelineJobStore();
+  return new Map((await store.getMany(ids)).map(job => [job.id, job]));
+}
+
+async function hydrate(batch: StoredBatch): Promise<BatchAnalysis> {
+  const jobs = await jobsOf(batch);
+  return {
+    ...batch,
+    items: batch.items.map(item => toBatchItem(item, item.jobId ? jobs.get(item.jobId) : undefined, batch.status))
+  };
+}
+
+export function batchProgress(batch: BatchAnalysis): BatchProgress {
+  const count = (status: BatchItemStatus) => batch.items.filter(item => item.status === status).length;
+  const total = batch.items.length;
+  const progress = {
+    total,
+    pending: count('pending'),
+    running: count('running'),
+    completed: count('completed'),
+    failed: count('error'),
+    cancelled: count('cancelled')
+  };
+  const finished = progress.completed + progress.failed + progress.cancelled;
+  return { ...progress, percent: total > 0 ? Math.round((finished / total) * 100) : 100 };
+}
+
+// The batch without pipeline results, for status and list responses
+export function summarizeBatch(batch: BatchAnalysis) {
+  const { items, ...rest } = batch;
+  return {
+    ...rest,
+    progress: batchProgress(batch),
+    items: items.map(({ result, ...item }) => ({
+      ...item,
+      ...(result ? {
+        intent: result.intent?.intent,
+        featureCount: result.requirements?.features?.length ?? 0,
+        confidence: result.requirements?.confidence
+      } : {})
+    }))
+  };
+}
+
+export class BatchAnalysisRunner {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private started = false;
+  private ticking = false;
+  private lastPurge = 0;
+  // Changes to a batch are applied one after another, so the runner and the
+  // routes never overwrite each other's item updates
+  private changes = new Map<string, Promise<unknown>>();
+
+  // Start feeding running batches to the job queue; safe to call repeatedly
+  start() {
+    if (this.started) return;
+    this.started = true;
+    this.schedule(0);
+  }
+
+  stop() {
+    this.started = false;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  // Record the ideas of an upload and start queueing them
+  async create(fileName: string, format: BatchFileFormat, ideas: BatchIdeaRow[], parseErrors: BatchRowError[], concurrency = defaultConcurrency()): Promise<BatchAnalysis> {
+    const store = await getBatchStore();
+    const batch = await store.create({
+      fileName,
+      format,
+      concurrency: Math.max(1, Math.min(concurrency, MAX_BATCH_CONCURRENCY)),
+      items: ideas.map((idea, index) => ({
+        index,
+        row: idea.row,
+        idea: idea.idea,
+        ...(idea.name ? { name: idea.name } : {}),
+        domain: idea.domain || detectDomain(idea.idea),
+        domainSource: idea.domain ? 'file' : 'detected',
+        projectType: idea.projectType || DEFAULT_PROJECT_TYPE
+      })),
+      parseErrors
+    });
+
+    this.start();
+    return (await this.advance(batch.id)) ?? hydrate(batch);
+  }
+
+  async get(id: string): Promise<BatchAnalysis | null> {
+    const store = await getBatchStore();
+    const batch = await store.get(id);
+    return batch ? hydrate(batch) : null;
+  }
+
+  async list(): Promise<BatchAnalysis[]> {
+    const store = await getBatchStore();
+    return Promise.all((await store.list()).map(hydrate));
+  }
+
+  // Stop a running batch; ideas already analyzed keep their results
+  async cancel(id: string): Promise<BatchAnalysis | null> {
+    const cancelled = await this.change(id, async batch => {
+      if (batch.status !== 'processing') return {};
+
+      const jobs = await jobsOf(batch);
+      await Promise.all(batch.items
+        .filter(item => item.jobId && isActive(jobs.get(item.jobId)))
+        .map(item => pipelineWorker.cancel(item.jobId!)));
+      return { status: 'cancelled', completedAt: new Date().toISOString() };
+    });
+    return cancelled ? hydrate(cancelled) : null;
+  }
+
+  // Save the completed ideas that match and were not saved before as apps.
+  // Picking the ideas and recording their app ids is one change, so concurrent
+  // saves never save an idea twice. Null when the batch doesn't exist.
+  async saveItems<T extends { id: string }>(
+    id: string,
+    select: (item: BatchItem) => boolean,
+    save: (item: BatchItem) => T
+  ): Promise<{ batch: BatchAnalysis; saved: Array<{ item: BatchItem; app: T }> } | null> {
+    let hydrated: BatchAnalysis | undefined;
+    const saved: Array<{ item: BatchItem; app: T }> = [];
+
+    const changed = await this.change(id, async batch => {
+      hydrated = await hydrate(batch);
+      for (const item of hydrated.items) {
+        if (item.status === 'completed' && !item.savedAppId && select(item)) {
+          saved.push({ item, app: save(item) });
+        }
+      }
+      if (saved.length === 0) return {};
+
+      return {
+        items: batch.items.map(item => {
+          const entry = saved.find(({ item: savedItem }) => savedItem.index === item.index);
+          return entry ? { ...item, savedAppId: entry.app.id } : item;
+        })
+      };
+    });
+    return changed && hydrated ? { batch: hydrated, saved } : null;
+  }
+
+  // Apply a change to the latest stored version of the batch
+  private change(id: string, apply: (batch: StoredBatch) => Promise<Partial<StoredBatch>>): Promise<StoredBatch | null> {
+    const previous = this.changes.get(id) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(async () => {
+      const store = await getBatchStore();
+      const batch = await store.get(id);
+      if (!batch) return null;
+
+      const update = await apply(batch);
+      return Object.keys(update).length > 0 ? store.update(id, update) : batch;
+    });
+
+    this.changes.set(id, next);
+    void next.finally(() => {
+      if (this.changes.get(id) === next) this.changes.delete(id);
+    }).catch(() => undefined);
+    return next;
+  }
+
+  // Queue the batch's next ideas up to its concurrency, and finish it once every idea is done
+  private async advance(id: string): Promise<BatchAnalysis | null> {
+    const advanced = await this.change(id, async batch => {
+      if (batch.status !== 'processing') return {};
+
+      const jobs = await jobsOf(batch);
+      const active = batch.items.filter(item => item.jobId && isActive(jobs.get(item.jobId))).length;
+      const waiting = batch.items.filter(item => !item.jobId);
+
+      if (active === 0 && waiting.length === 0) {
+        const finished = await hydrate(batch);
+        const progress = batchProgress(finished);
+        console.log(`Batch ${batch.id} completed: ${progress.completed} completed, ${progress.failed} failed of ${progress.total}`);
+        return { status: 'completed', completedAt: new Date().toISOString() };
+      }
+
+      const submit = waiting.slice(0, Math.max(0, batch.concurrency - active));
+      if (submit.length === 0) return {};
+
+      const submitted = new Map<number, string>();
+      for (const item of submit) {
+        try {
+          const job = await pipelineWorker.submit({
+            input: item.idea,
+            type: 'text',
+            // A detected domain is left for the pipeline to classify (and score) itself
+            options: { projectType: item.projectType, ...(item.domainSource === 'file' ? { domain: item.domain } : {}) }
+          });
+          submitted.set(item.index, job.id);
+        } catch (error) {
+          // Keep the jobs queued so far; the rest are queued on the next poll
+          console.error(`Failed to queue row ${item.row} of batch ${batch.id}:`, error);
+          break;
+        }
+      }
+      if (submitted.size === 0) return {};
+
+      return {
+        items: batch.items.map(item => (submitted.has(item.index) ? { ...item, jobId: submitted.get(item.index) } : item))
+      };
+    });
+    return advanced ? hydrate(advanced) : null;
+  }
+
+  private schedule(delay: number) {
+    if (!this.started) return;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => void this.tick(), delay);
+  }
+
+  private async tick() {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      const store = await getBatchStore();
+      if (Date.now() - this.lastPurge > PURGE_INTERVAL_MS) {
+        this.lastPurge = Date.now();
+        await store.purgeFinished(new Date(Date.now() - BATCH_RETENTION_MS));
+      }
+
+      for (const batch of await store.listProcessing()) {
+        await this.advance(batch.id);
+      }
+    } catch (error) {
+      console.error('Batch runner poll failed:', error);
+    } finally {
+      this.ticking = false;
+      this.schedule(POLL_INTERVAL_MS);
+    }
+  }
+}
+
+const CSV_HEADER = [
+  'row', 'name', 'idea', 'domain', 'projectType', 'status', 'intent', 'complexity',
+  'duration', 'confidence', 'requirements', 'features', 'estimatedHours', 'error', 'savedAppId'
+];
+
+// The parts of a requirements feature the export reads
+interface RequirementFeature {
+  name: string;
+  estimatedHours?: number;
+}
+
+function csvRow(item: BatchItem): unknown[] {
+  const requirements = item.result?.requirements;
+  const features: RequirementFeature[] = requirements?.features ?? [];
+  return [
+    item.row,
+    item.name,
+    item.idea,
+    item.domain,
+    item.projectType,
+    item.status,
+    item.result?.intent?.intent,
+    requirements?.estimatedComplexity,
+    requirements?.estimatedDuration,
+    requirements?.confidence,
+    requirements?.requirements?.length,
+    features.map(feature => feature.name).join('; '),
+    features.reduce((sum, feature) => sum + (feature.estimatedHours || 0), 0) || undefined,
+    item.error,
+    item.savedAppId
+  ];
+}
+
+function jsonlRecord(item: BatchItem) {
+  const { index, ...record } = item;
+  return record;
+}
+
+// Results of a batch as one CSV row or JSON line per idea, or both in a ZIP
+// together with the rows that could not be read
+export function exportBatch(batch: BatchAnalysis, format: BatchExportFormat): BatchExport {
+  const baseName = `${batch.id}-results`;
+  const csv = () => toCsv(CSV_HEADER, batch.items.map(csvRow));
+  const jsonl = () => toJsonl(batch.items.map(jsonlRecord));
+
+  if (format === 'csv') {
+    return { body: csv(), contentType: 'text/csv; charset=utf-8', fileName: `${baseName}.csv` };
+  }
+  if (format === 'jsonl') {
+    return { body: jsonl(), contentType: 'application/x-ndjson; charset=utf-8', fileName: `${baseName}.jsonl` };
+  }
+
+  const { items, ...summary } = batch;
+  return {
+    body: createZip([
+      { name: 'results.csv', content: csv() },
+      { name: 'results.jsonl', content: jsonl() },
+      { name: 'skipped-rows.csv', content: toCsv(['row', 'error'], batch.parseErrors.map(error => [error.row, error.error])) },
+      { name: 'summary.json', content: JSON.stringify({ ...summary, progress: batchProgress(batch) }, null, 2) }
+    ]),
+    contentType: 'application/zip',
+    fileName: `${baseName}.zip`
+  };
+}
+
+declare global {
+  var _batchAnalysisRunner: BatchAnalysisRunner | undefined;
+}
+
+export const batchAnalysisRunner = global._batchAnalysisRunner || new BatchAnalysisRunner();
+
+if (!global._batchAnalysisRunner) {
+  global._batchAnalysisRunner = batchAnalysisRunner;
+}
@@ -0,0 +1,176 @@
+// Reading idea batches from CSV or JSONL and writing their results back out
+// Each row holds an idea (column "idea", "description" or "text") and may name
+// a domain, a project type and an app name. Rows that cannot be read are
+// reported with their row number instead of failing the whole file.
+
+export type BatchFileFormat = 'csv' | 'jsonl';
+
+export type BatchExportFormat = BatchFileFormat | 'zip';
+
+export interface BatchIdeaRow {
+  // 1-based line (JSONL) or record (CSV, after the header) in the upload
+  row: number;
+  idea: string;
+  domain?: string;
+  projectType?: string;
+  name?: string;
+}
+
+export interface BatchRowError {
+  row: number;
+  error: string;
+}
+
+export interface ParsedBatchFile {
+  ideas: BatchIdeaRow[];
+  errors: BatchRowError[];
+}
+
+const IDEA_COLUMNS = ['idea', 'description', 'text'];
+const DOMAIN_COLUMNS = ['domain'];
+const PROJECT_TYPE_COLUMNS = ['projecttype', 'project_type', 'project type', 'type'];
+const NAME_COLUMNS = ['name', 'title'];
+
+export function detectBatchFormat(fileName: string): BatchFileFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'csv') return 'csv';
+  if (extension === 'jsonl' || extension === 'ndjson') return 'jsonl';
+  return null;
+}
+
+// RFC 4180 records: quoted fields may hold commas, quotes ("") and line breaks
+export function parseCsvRecords(content: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const text = content.replace(/^\uFEFF/, '');
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records;
+}
+
+const isBlank = (fields: string[]) => fields.every(value => value.trim() === '');
+
+// Value of the first of the given columns the row has
+function pick(row: Record<string, unknown>, columns: string[]): string | undefined {
+  for (const column of columns) {
+    const value = row[column];
+    if (typeof value === 'string' && value.trim()) {
+      return value.trim();
+    }
+  }
+  return undefined;
+}
+
+function toIdeaRow(row: number, values: Record<string, unknown>): BatchIdeaRow | BatchRowError {
+  const idea = pick(values, IDEA_COLUMNS);
+  if (!idea) {
+    return { row, error: `Missing idea (expected a column named ${IDEA_COLUMNS.join(', ')})` };
+  }
+  return {
+    row,
+    idea,
+    domain: pick(values, DOMAIN_COLUMNS),
+    projectType: pick(values, PROJECT_TYPE_COLUMNS),
+    name: pick(values, NAME_COLUMNS)
+  };
+}
+
+// Keys compared without case, so "Idea" and "projectType" both match
+const lowerKeys = (values: Record<string, unknown>) =>
+  Object.fromEntries(Object.entries(values).map(([key, value]) => [key.trim().toLowerCase(), value]));
+
+export function parseBatchFile(content: string, format: BatchFileFormat): ParsedBatchFile {
+  const ideas: BatchIdeaRow[] = [];
+  const errors: BatchRowError[] = [];
+  const add = (parsed: BatchIdeaRow | BatchRowError) => ('error' in parsed ? errors.push(parsed) : ideas.push(parsed));
+
+  if (format === 'jsonl') {
+    content.split(/\r?\n/).forEach((line, index) => {
+      if (!line.trim()) return;
+      try {
+        const value = JSON.parse(line);
+        if (!value || typeof value !== 'object' || Array.isArray(value)) {
+          errors.push({ row: index + 1, error: 'Line is not a JSON object' });
+          return;
+        }
+        add(toIdeaRow(index + 1, lowerKeys(value)));
+      } catch {
+        errors.push({ row: index + 1, error: 'Line is not valid JSON' });
+      }
+    });
+    return { ideas, errors };
+  }
+
+  const [header, ...records] = parseCsvRecords(content);
+  if (!header || isBlank(header)) {
+    return { ideas, errors: [{ row: 0, error: 'The file is empty' }] };
+  }
+
+  const columns = header.map(column => column.trim().toLowerCase());
+  // A single column without a known header is a plain list of ideas
+  const headerless = columns.length === 1 && !IDEA_COLUMNS.includes(columns[0]);
+  const rows = headerless ? [header, ...records] : records;
+
+  rows.forEach((fields, index) => {
+    if (isBlank(fields)) return;
+    const values = headerless
+      ? { idea: fields[0] }
+      : Object.fromEntries(columns.map((column, position) => [column, fields[position] ?? '']));
+    add(toIdeaRow(index + 1, values));
+  });
+  return { ideas, errors };
+}
+
+// Text starting like a formula is prefixed with a quote, so spreadsheets
+// show it instead of evaluating it
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Quote a CSV field when it needs it
+function csvField(value: unknown): string {
+  let text = value === undefined || value === null ? '' : String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(header: string[], rows: unknown[][]): string {
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+export function toJsonl(values: unknown[]): string {
+  return values.map(value => JSON.stringify(value)).join('\n') + (values.length > 0 ? '\n' : '');
+}
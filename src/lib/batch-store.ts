@@ -0,0 +1,198 @@
+// Persistent batches of uploaded ideas
+// A batch records its ideas and the pipeline job analyzing each one; the
+// outcome of every idea lives with its job. Batches are kept in the
+// PipelineBatch table so they survive restarts; when the database is
+// unavailable they fall back to memory and say so.
+
+import type { PipelineBatch as PipelineBatchRecord, Prisma } from '@prisma/client';
+import { db } from './db';
+import type { BatchFileFormat, BatchRowError } from './batch-files';
+
+export type BatchStatus = 'processing' | 'completed' | 'cancelled';
+
+export interface BatchItemRecord {
+  index: number;
+  row: number;
+  idea: string;
+  name?: string;
+  domain: string;
+  // Whether the domain came from the upload or the classifier
+  domainSource: 'file' | 'detected';
+  projectType: string;
+  // Pipeline job analyzing the idea, once it has been submitted
+  jobId?: string;
+  savedAppId?: string;
+}
+
+export interface StoredBatch {
+  id: string;
+  fileName: string;
+  format: BatchFileFormat;
+  status: BatchStatus;
+  concurrency: number;
+  items: BatchItemRecord[];
+  // Rows of the upload that held no usable idea
+  parseErrors: BatchRowError[];
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+export type NewBatch = Pick<StoredBatch, 'fileName' | 'format' | 'concurrency' | 'items' | 'parseErrors'>;
+
+export type BatchUpdate = Partial<Pick<StoredBatch, 'status' | 'items' | 'completedAt'>>;
+
+export interface BatchStore {
+  create(batch: NewBatch): Promise<StoredBatch>;
+  get(id: string): Promise<StoredBatch | null>;
+  // Newest first
+  list(): Promise<StoredBatch[]>;
+  listProcessing(): Promise<StoredBatch[]>;
+  update(id: string, update: BatchUpdate): Promise<StoredBatch | null>;
+  // Delete finished batches older than this time
+  purgeFinished(finishedBefore: Date): Promise<number>;
+}
+
+function toBatch(record: PipelineBatchRecord): StoredBatch {
+  return {
+    id: record.id,
+    fileName: record.fileName,
+    format: record.format as BatchFileFormat,
+    status: record.status as BatchStatus,
+    concurrency: record.concurrency,
+    items: JSON.parse(record.items),
+    parseErrors: JSON.parse(record.parseErrors),
+    createdAt: record.createdAt.toISOString(),
+    updatedAt: record.updatedAt.toISOString(),
+    ...(record.completedAt ? { completedAt: record.completedAt.toISOString() } : {})
+  };
+}
+
+function toRecordUpdate(update: BatchUpdate): Prisma.PipelineBatchUpdateInput {
+  const data: Prisma.PipelineBatchUpdateInput = {};
+  if (update.status !== undefined) data.status = update.status;
+  if (update.items !== undefined) data.items = JSON.stringify(update.items);
+  if (update.completedAt !== undefined) data.completedAt = new Date(update.completedAt);
+  return data;
+}
+
+class DatabaseBatchStore implements BatchStore {
+  async create(batch: NewBatch) {
+    return toBatch(await db.pipelineBatch.create({
+      data: {
+        fileName: batch.fileName,
+        format: batch.format,
+        concurrency: batch.concurrency,
+        items: JSON.stringify(batch.items),
+        parseErrors: JSON.stringify(batch.parseErrors)
+      }
+    }));
+  }
+
+  async get(id: string) {
+    const record = await db.pipelineBatch.findUnique({ where: { id } });
+    return record ? toBatch(record) : null;
+  }
+
+  async list() {
+    const records = await db.pipelineBatch.findMany({ orderBy: { createdAt: 'desc' } });
+    return records.map(toBatch);
+  }
+
+  async listProcessing() {
+    const records = await db.pipelineBatch.findMany({ where: { status: 'processing' }, orderBy: { createdAt: 'asc' } });
+    return records.map(toBatch);
+  }
+
+  async update(id: string, update: BatchUpdate) {
+    const updated = await db.pipelineBatch.updateMany({ where: { id }, data: toRecordUpdate(update) });
+    return updated.count === 1 ? this.get(id) : null;
+  }
+
+  async purgeFinished(finishedBefore: Date) {
+    const purged = await db.pipelineBatch.deleteMany({
+      where: { status: { not: 'processing' }, completedAt: { lt: finishedBefore } }
+    });
+    return purged.count;
+  }
+}
+
+// Used when the database cannot be reached; batches are lost on restart
+class MemoryBatchStore implements BatchStore {
+  private batches = new Map<string, StoredBatch>();
+
+  async create(batch: NewBatch) {
+    const now = new Date().toISOString();
+    const stored: StoredBatch = {
+      ...batch,
+      id: `batch_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`,
+      status: 'processing',
+      createdAt: now,
+      updatedAt: now
+    };
+    this.batches.set(stored.id, stored);
+    return this.copy(stored);
+  }
+
+  async get(id: string) {
+    const batch = this.batches.get(id);
+    return batch ? this.copy(batch) : null;
+  }
+
+  async list() {
+    return Array.from(this.batches.values())
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map(batch => this.copy(batch));
+  }
+
+  async listProcessing() {
+    return Array.from(this.batches.values())
+      .filter(batch => batch.status === 'processing')
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map(batch => this.copy(batch));
+  }
+
+  async update(id: string, update: BatchUpdate) {
+    const batch = this.batches.get(id);
+    if (!batch) return null;
+    Object.assign(batch, update, { updatedAt: new Date().toISOString() });
+    return this.copy(batch);
+  }
+
+  async purgeFinished(finishedBefore: Date) {
+    let purged = 0;
+    for (const [id, batch] of this.batches.entries()) {
+      if (batch.status !== 'processing' && batch.completedAt && new Date(batch.completedAt) < finishedBefore) {
+        this.batches.delete(id);
+        purged++;
+      }
+    }
+    return purged;
+  }
+
+  private copy(batch: StoredBatch): StoredBatch {
+    return { ...batch, items: batch.items.map(item => ({ ...item })), parseErrors: [...batch.parseErrors] };
+  }
+}
+
+declare global {
+  var _batchStore: Promise<BatchStore> | undefined;
+}
+
+// Prefer the database; decided once per process
+async function selectStore(): Promise<BatchStore> {
+  try {
+    await db.pipelineBatch.count();
+    return new DatabaseBatchStore();
+  } catch (error) {
+    console.warn('Pipeline batch table unavailable, keeping batches in memory; they will not survive a restart:', error);
+    return new MemoryBatchStore();
+  }
+}
+
+export function getBatchStore(): Promise<BatchStore> {
+  if (!global._batchStore) {
+    global._batchStore = selectStore();
+  }
+  return global._batchStore;
+}
@@ -0,0 +1,83 @@
+// BM25 lexical scoring and reciprocal rank fusion for hybrid retrieval
+
+import { tokenize } from './embeddings';
+
+export interface BM25Options {
+  k1: number;
+  b: number;
+}
+
+const DEFAULT_BM25: BM25Options = {
+  k1: 1.2,
+  b: 0.75
+};
+
+// Constant from the original reciprocal rank fusion paper
+export const RRF_K = 60;
+
+// Tokenize and reduce common English suffixes so "deposits" matches "deposit"
+export function lexicalTokens(text: string): string[] {
+  return tokenize(text).map(stem);
+}
+
+// Score every document against the query; documents are pre-tokenized
+export function bm25Scores(
+  queryTokens: string[],
+  documents: string[][],
+  options: BM25Options = DEFAULT_BM25
+): number[] {
+  if (documents.length === 0 || queryTokens.length === 0) {
+    return documents.map(() => 0);
+  }
+
+  const averageLength = documents.reduce((sum, doc) => sum + doc.length, 0) / documents.length || 1;
+  const documentFrequency = new Map<string, number>();
+
+  for (const doc of documents) {
+    for (const token of new Set(doc)) {
+      documentFrequency.set(token, (documentFrequency.get(token) || 0) + 1);
+    }
+  }
+
+  const uniqueQueryTokens = Array.from(new Set(queryTokens));
+
+  return documents.map(doc => {
+    const termFrequency = new Map<string, number>();
+    for (const token of doc) {
+      termFrequency.set(token, (termFrequency.get(token) || 0) + 1);
+    }
+
+    return uniqueQueryTokens.reduce((score, token) => {
+      const tf = termFrequency.get(token) || 0;
+      if (tf === 0) return score;
+
+      const df = documentFrequency.get(token) || 0;
+      const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+      const norm = tf + options.k1 * (1 - options.b + options.b * (doc.length / averageLength));
+      return score + idf * ((tf * (options.k1 + 1)) / norm);
+    }, 0);
+  });
+}
+
+// Fuse several rankings of item ids into one score per id
+export function reciprocalRankFusion(rankings: string[][], k: number = RRF_K): Map<string, number> {
+  const fused = new Map<string, number>();
+
+  for (const ranking of rankings) {
+    ranking.forEach((id, index) => {
+      fused.set(id, (fused.get(id) || 0) + 1 / (k + index + 1));
+    });
+  }
+
+  return fused;
+}
+
+function stem(token: string): string {
+  if (token.length <= 4) return token;
+  if (token.endsWith('ies')) return token.slice(0, -3) + 'y';
+  if (token.endsWith('ing') && token.length > 6) return token.slice(0, -3);
+  if (token.endsWith('ed') && token.length > 5) return token.slice(0, -2);
+  if (token.endsWith('es') && /(ss|x|ch|sh)es$/.test(token)) return token.slice(0, -2);
+  if (token.endsWith('s') && !token.endsWith('ss')) return token.slice(0, -1);
+  return token;
+}
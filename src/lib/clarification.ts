@@ -0,0 +1,304 @@
+// Clarifying questions for vague app ideas
+// An idea is checked for the details a useful specification needs (platform,
+// audience, monetization and core flows). When too few are present the caller
+// gets structured questions with suggested answers instead of an analysis, and
+// the answers are folded back into the idea before it is analyzed.
+
+import { randomUUID } from 'crypto';
+import { lexicalTokens } from './bm25';
+import { pivotToEnglish } from './language-detection';
+import { generateEmbedding, cosineSimilarity } from './embeddings';
+import { getDomainPack, GENERAL_DOMAIN } from './domain-packs';
+import type { RAGAnalysisResult } from './rag-orchestration';
+
+export type CoverageDimension = 'platform' | 'audience' | 'monetization' | 'coreFlows';
+
+export const COVERAGE_DIMENSIONS: CoverageDimension[] = ['platform', 'audience', 'monetization', 'coreFlows'];
+
+// Ideas covering less than this share of the dimensions get clarifying questions
+export const DEFAULT_MIN_COVERAGE = 0.5;
+
+// Distinct actions or domain features an idea needs to name to describe its core flows
+const MIN_FLOW_SIGNALS = 2;
+
+// Sessions that are not answered within this time are discarded
+const SESSION_TTL_MS = 60 * 60 * 1000;
+
+export interface InputCoverage {
+  score: number;
+  covered: CoverageDimension[];
+  missing: CoverageDimension[];
+}
+
+export interface ClarifyingQuestion {
+  id: string;
+  dimension: CoverageDimension;
+  question: string;
+  suggestedAnswers: string[];
+  allowMultiple: boolean;
+}
+
+export type ClarificationAnswers = Record<string, string | string[]>;
+
+export type ClarificationStatus = 'awaiting_answers' | 'analyzing' | 'completed' | 'failed';
+
+export interface ClarificationSession {
+  id: string;
+  description: string;
+  // Set when the caller fixed the domain; otherwise the enriched idea is classified again
+  domain?: string;
+  coverage: InputCoverage;
+  questions: ClarifyingQuestion[];
+  answers?: ClarificationAnswers;
+  enrichedDescription?: string;
+  status: ClarificationStatus;
+  result?: RAGAnalysisResult;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Stemmed single words and phrases that signal each dimension
+const DIMENSION_SIGNALS: Record<Exclude<CoverageDimension, 'coreFlows'>, string[]> = {
+  platform: [
+    'mobile', 'ios', 'iphone', 'ipad', 'android', 'web', 'website', 'browser', 'desktop', 'tablet',
+    'cross-platform', 'pwa', 'smartwatch', 'watch', 'kiosk', 'windows', 'macos', 'app store', 'play store', 'portal'
+  ],
+  audience: [
+    'customer', 'client', 'patient', 'doctor', 'nurse', 'clinician', 'shopper', 'buyer', 'seller', 'merchant',
+    'staff', 'employee', 'team', 'student', 'teacher', 'parent', 'business', 'consumer', 'member', 'admin',
+    'officer', 'analyst', 'investor', 'trader', 'advisor', 'driver', 'agent', 'family', 'freelancer', 'manager'
+  ],
+  monetization: [
+    'subscription', 'freemium', 'free', 'paid', 'pricing', 'price', 'fee', 'commission', 'ad', 'advertising',
+    'in-app purchase', 'premium', 'license', 'licensing', 'revenue', 'monetize', 'monetization', 'charge', 'plan', 'tier'
+  ]
+};
+
+// Actions that describe what users do in the app
+const FLOW_VERBS = [
+  'book', 'upload', 'pay', 'transfer', 'search', 'track', 'order', 'schedule', 'share', 'message', 'chat',
+  'verify', 'deposit', 'withdraw', 'view', 'manage', 'create', 'browse', 'review', 'rate', 'notify', 'alert',
+  'sign', 'login', 'register', 'buy', 'sell', 'checkout', 'scan', 'apply', 'approve', 'report', 'invest',
+  'trade', 'compare', 'request', 'submit', 'screen', 'monitor', 'refill', 'join', 'subscribe', 'export', 'lock'
+];
+
+const GENERIC_FLOWS = [
+  'Sign up and manage a profile',
+  'Search and browse content',
+  'Receive notifications and reminders',
+  'Make payments in the app',
+  'Message other users'
+];
+
+const stemmed = (phrases: string[]) => new Set(phrases.map(phrase => lexicalTokens(phrase).join(' ')).filter(Boolean));
+
+const SIGNAL_STEMS = {
+  platform: stemmed(DIMENSION_SIGNALS.platform),
+  audience: stemmed(DIMENSION_SIGNALS.audience),
+  monetization: stemmed(DIMENSION_SIGNALS.monetization)
+};
+
+const FLOW_VERB_STEMS = stemmed(FLOW_VERBS);
+
+// Unigrams and bigrams of the idea, stemmed like the signal lists
+function ideaTerms(text: string): Set<string> {
+  const tokens = lexicalTokens(text);
+  const terms = new Set(tokens);
+  for (let i = 0; i < tokens.length - 1; i++) {
+    terms.add(`${tokens[i]} ${tokens[i + 1]}`);
+  }
+  return terms;
+}
+
+// Stemmed words of the domain's feature templates, minus very common ones
+function domainFlowStems(domain: string): Set<string> {
+  const pack = getDomainPack(domain);
+  if (!pack) return new Set();
+
+  const phrases = [
+    ...pack.features.map(feature => feature.name),
+    ...(pack.requirementsPrompt?.keyFeatures || [])
+  ];
+  return new Set(phrases.flatMap(phrase => lexicalTokens(phrase)).filter(token => token.length > 3));
+}
+
+// Check which details an idea already provides
+export function assessCoverage(description: string, domain: string): InputCoverage {
+  const terms = ideaTerms(pivotToEnglish(description));
+  // The head noun of the pack's user type ("customer" of "bank customer")
+  const userType = lexicalTokens(getDomainPack(domain)?.userType || '');
+  const audienceStems = new Set([...SIGNAL_STEMS.audience, ...userType.slice(-1)]);
+
+  const mentions = (signals: Set<string>) => Array.from(signals).some(signal => terms.has(signal));
+
+  const flowStems = domainFlowStems(domain);
+  const flowSignals = Array.from(terms).filter(term => FLOW_VERB_STEMS.has(term) || flowStems.has(term));
+
+  const coveredByDimension: Record<CoverageDimension, boolean> = {
+    platform: mentions(SIGNAL_STEMS.platform),
+    audience: mentions(audienceStems),
+    monetization: mentions(SIGNAL_STEMS.monetization),
+    coreFlows: flowSignals.length >= MIN_FLOW_SIGNALS
+  };
+
+  const covered = COVERAGE_DIMENSIONS.filter(dimension => coveredByDimension[dimension]);
+  return {
+    score: covered.length / COVERAGE_DIMENSIONS.length,
+    covered,
+    missing: COVERAGE_DIMENSIONS.filter(dimension => !coveredByDimension[dimension])
+  };
+}
+
+// Domain features closest to the idea, as suggested core flows
+function suggestFlows(description: string, domain: string): string[] {
+  const pack = getDomainPack(domain);
+  const candidates = pack && pack.features.length > 0 ? pack.features.map(feature => feature.name) : GENERIC_FLOWS;
+  const ideaEmbedding = generateEmbedding(description);
+
+  return candidates
+    .map(name => ({ name, score: cosineSimilarity(ideaEmbedding, generateEmbedding(name)) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, 5)
+    .map(candidate => candidate.name);
+}
+
+// One question per missing dimension, with answers suited to the domain
+export function generateClarifyingQuestions(description: string, domain: string, missing: CoverageDimension[]): ClarifyingQuestion[] {
+  const pack = getDomainPack(domain) ?? getDomainPack(GENERAL_DOMAIN);
+
+  const questions: Record<CoverageDimension, Omit<ClarifyingQuestion, 'id' | 'dimension'>> = {
+    platform: {
+      question: 'Which platforms should the app run on?',
+      suggestedAnswers: ['iOS and Android mobile apps', 'Web application', 'Mobile apps and a web application', 'Desktop application'],
+      allowMultiple: false
+    },
+    audience: {
+      question: 'Who are the primary users of the app?',
+      suggestedAnswers: pack && pack.audiences.length > 0 ? pack.audiences : ['Consumers', 'Internal staff', 'Businesses'],
+      allowMultiple: true
+    },
+    monetization: {
+      question: 'How will the app make money, if at all?',
+      suggestedAnswers: ['Free to use', 'Subscription', 'Freemium with paid upgrades', 'Transaction or service fees', 'Advertising'],
+      allowMultiple: false
+    },
+    coreFlows: {
+      question: 'What are the main things users should be able to do?',
+      suggestedAnswers: suggestFlows(description, domain),
+      allowMultiple: true
+    }
+  };
+
+  return missing.map(dimension => ({
+    id: dimension,
+    dimension,
+    ...questions[dimension]
+  }));
+}
+
+// Labels used when answers are appended to the idea
+const ANSWER_LABELS: Record<CoverageDimension, string> = {
+  platform: 'Platforms',
+  audience: 'Primary users',
+  monetization: 'Business model',
+  coreFlows: 'Core features'
+};
+
+// Check answers against the session's questions; returns an error message or null
+export function validateAnswers(questions: ClarifyingQuestion[], answers: unknown): string | null {
+  if (!answers || typeof answers !== 'object' || Array.isArray(answers)) {
+    return 'answers must be an object keyed by question id';
+  }
+
+  for (const [id, answer] of Object.entries(answers)) {
+    const question = questions.find(candidate => candidate.id === id);
+    if (!question) {
+      return `Unknown question: ${id}`;
+    }
+    const values = Array.isArray(answer) ? answer : [answer];
+    if (values.some(value => typeof value !== 'string')) {
+      return `Answer to ${id} must be a string or an array of strings`;
+    }
+    if (Array.isArray(answer) && !question.allowMultiple) {
+      return `Question ${id} takes a single answer`;
+    }
+  }
+
+  return null;
+}
+
+// Append the answered details to the original idea
+export function enrichDescription(description: string, questions: ClarifyingQuestion[], answers: ClarificationAnswers): string {
+  const details = questions
+    .map(question => {
+      const answer = answers[question.id];
+      const values = (Array.isArray(answer) ? answer : [answer])
+        .filter((value): value is string => typeof value === 'string')
+        .map(value => value.trim())
+        .filter(Boolean);
+      return values.length > 0 ? `- ${ANSWER_LABELS[question.dimension]}: ${values.join(', ')}` : null;
+    })
+    .filter((line): line is string => line !== null);
+
+  return details.length > 0 ? `${description.trim()}\n\nAdditional details:\n${details.join('\n')}` : description;
+}
+
+// Global singleton so sessions survive module reloads and are shared between routes
+declare global {
+  var _clarificationSessions: Map<string, ClarificationSession> | undefined;
+}
+
+const sessions = global._clarificationSessions || new Map<string, ClarificationSession>();
+
+if (!global._clarificationSessions) {
+  global._clarificationSessions = sessions;
+}
+
+function removeExpiredSessions() {
+  const cutoff = Date.now() - SESSION_TTL_MS;
+  for (const [id, session] of sessions) {
+    if (new Date(session.updatedAt).getTime() < cutoff) {
+      sessions.delete(id);
+    }
+  }
+}
+
+export function createClarificationSession(
+  description: string,
+  domain: string,
+  coverage: InputCoverage,
+  options: { fixedDomain?: boolean } = {}
+): ClarificationSession {
+  removeExpiredSessions();
+
+  const now = new Date().toISOString();
+  const session: ClarificationSession = {
+    id: randomUUID(),
+    description,
+    ...(options.fixedDomain ? { domain } : {}),
+    coverage,
+    questions: generateClarifyingQuestions(description, domain, coverage.missing),
+    status: 'awaiting_answers',
+    createdAt: now,
+    updatedAt: now
+  };
+
+  sessions.set(session.id, session);
+  return session;
+}
+
+export function getClarificationSession(id: string): ClarificationSession | undefined {
+  removeExpiredSessions();
+  return sessions.get(id);
+}
+
+export function updateClarificationSession(id: string, changes: Partial<Omit<ClarificationSession, 'id' | 'createdAt'>>): ClarificationSession | undefined {
+  const session = sessions.get(id);
+  if (!session) {
+    return undefined;
+  }
+
+  const updated = { ...session, ...changes, updatedAt: new Date().toISOString() };
+  sessions.set(id, updated);
+  return updated;
+}
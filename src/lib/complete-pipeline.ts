@@ -0,0 +1,350 @@
+// The complete NLP pipeline: text extraction, entities, intent and requirements
+// An external NLP service (NLP_SERVICE_URL) handles the whole pipeline when it
+// is reachable; otherwise each stage runs locally on keyword rules, under the
+// domain and project type given in the request options when there are any.
+// Stages report their timings so queued jobs can show progress.
+
+import { resolveAnalysisDomains } from './domain-detection';
+import { assessCoverage } from './clarification';
+import { scoreConfidence, measureDomainSignal, measureRepairSignal, measureCoverageSignal } from './confidence';
+
+export type PipelineStage = 'nlp-service' | 'extraction' | 'entities' | 'intent' | 'requirements';
+
+export interface PipelineRequest {
+  input: string;
+  type: string;
+  options: Record<string, unknown>;
+}
+
+// Request options the local stages act on; other options are passed through
+// to the intent parameters and the external service
+export interface PipelineAnalysisOptions {
+  // Analyze under this domain instead of the classified one
+  domain?: string;
+  projectType?: string;
+}
+
+const DEFAULT_PROJECT_TYPE = 'mobile-app';
+
+function analysisOptions(options: Record<string, unknown> = {}): PipelineAnalysisOptions {
+  const text = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+  return { domain: text(options.domain)?.toLowerCase(), projectType: text(options.projectType) };
+}
+
+export interface StageTiming {
+  stage: PipelineStage;
+  // Job attempt the stage ran in
+  attempt: number;
+  startedAt: string;
+  durationMs: number;
+}
+
+export interface PipelineRunOptions {
+  attempt?: number;
+  signal?: AbortSignal;
+  onStageStarted?: (stage: PipelineStage) => void;
+  onStageCompleted?: (timing: StageTiming) => void;
+}
+
+export class PipelineCancelledError extends Error {
+  constructor() {
+    super('Pipeline cancelled');
+    this.name = 'PipelineCancelledError';
+  }
+}
+
+// Mock pipeline result for testing
+const mockPipelineResult = {
+  success: true,
+  data: {
+    originalInput: '',
+    type: 'text',
+    extractedText: '',
+    entities: [
+      { id: 'entity_1', type: 'app_features', text: 'fitness tracking', confidence: 0.8, category: 'mobile-app' },
+      { id: 'entity_2', type: 'platforms', text: 'iOS', confidence: 0.7, category: 'mobile-app' }
+    ],
+    intent: {
+      text: '',
+      intent: 'create_app',
+      confidence: 0.8,
+      entities: [],
+      action: 'initialize_app_creation',
+      parameters: { appType: 'mobile' }
+    },
+    requirements: {
+      projectType: 'mobile-app',
+      requirements: [
+        {
+          id: 'REQ_001',
+          title: 'User Management',
+          description: 'System should support user registration and authentication',
+          priority: 'high',
+          category: 'security'
+        },
+        {
+          id: 'REQ_002',
+          title: 'Data Management',
+          description: 'System should provide data storage and retrieval capabilities',
+          priority: 'medium',
+          category: 'data'
+        }
+      ],
+      features: [
+        {
+          id: 'FEAT_001',
+          name: 'User Authentication',
+          description: 'Login and registration functionality',
+          complexity: 'medium',
+          estimatedHours: 20
+        },
+        {
+          id: 'FEAT_002',
+          name: 'Data Storage',
+          description: 'Local and cloud data synchronization',
+          complexity: 'high',
+          estimatedHours: 40
+        }
+      ],
+      estimatedComplexity: 'medium',
+      estimatedDuration: 'weeks',
+      confidence: 0.7
+    },
+    specifications: {
+      projectInfo: {
+        name: 'Mobile App Project',
+        description: 'Generated from requirements analysis',
+        version: '1.0.0',
+        type: 'mobile-application'
+      },
+      architecture: {
+        type: 'layered',
+        components: ['frontend', 'backend', 'database'],
+        patterns: ['mvc', 'repository']
+      },
+      technicalSpecs: {
+        platforms: ['iOS', 'Android'],
+        languages: ['Swift', 'Kotlin', 'JavaScript'],
+        frameworks: ['React Native', 'Node.js'],
+        databases: ['PostgreSQL', 'Redis']
+      }
+    }
+  },
+  timestamp: new Date().toISOString()
+};
+
+// Helper function to extract entities from text
+function extractEntitiesFromText(text: string) {
+  const lowerText = text.toLowerCase();
+  const entities = [];
+  
+  const platforms = ['ios', 'android', 'web', 'cross-platform'];
+  platforms.forEach(platform => {
+    if (lowerText.includes(platform)) {
+      entities.push({
+        id: `platform_${platform}`,
+        type: 'platforms',
+        text: platform,
+        confidence: 0.7,
+        category: 'mobile-app'
+      });
+    }
+  });
+  
+  const features = ['fitness', 'tracking', 'shopping', 'payment', 'social', 'messaging'];
+  features.forEach(feature => {
+    if (lowerText.includes(feature)) {
+      entities.push({
+        id: `feature_${feature}`,
+        type: 'app_features',
+        text: feature,
+        confidence: 0.6,
+        category: 'mobile-app'
+      });
+    }
+  });
+  
+  return entities;
+}
+
+// Helper function to determine intent from text
+function getIntentFromText(text: string, projectType: string) {
+  const lowerText = text.toLowerCase();
+  
+  if (lowerText.includes('create') || lowerText.includes('build') || lowerText.includes('make') || lowerText.includes('develop')) {
+    return {
+      intent: 'create_app',
+      confidence: 0.8,
+      action: 'initialize_app_creation',
+      parameters: { appType: projectType }
+    };
+  }
+  
+  if (lowerText.includes('add') || lowerText.includes('include') || lowerText.includes('want')) {
+    return {
+      intent: 'add_feature',
+      confidence: 0.7,
+      action: 'add_feature_to_app',
+      parameters: { featureType: 'general' }
+    };
+  }
+  
+  return {
+    intent: 'request_info',
+    confidence: 0.5,
+    action: 'provide_information',
+    parameters: {}
+  };
+}
+
+// Helper function to generate requirements from text
+function generateRequirementsFromText(text: string, { domain, projectType = DEFAULT_PROJECT_TYPE }: PipelineAnalysisOptions) {
+  const lowerText = text.toLowerCase();
+  const requirements = [];
+  const features = [];
+  
+  if (lowerText.includes('user') || lowerText.includes('login') || lowerText.includes('auth')) {
+    requirements.push({
+      id: 'REQ_001',
+      title: 'User Management',
+      description: 'System should support user registration and authentication',
+      priority: 'high',
+      category: 'security'
+    });
+  }
+  
+  if (lowerText.includes('data') || lowerText.includes('storage') || lowerText.includes('database')) {
+    requirements.push({
+      id: 'REQ_002',
+      title: 'Data Management',
+      description: 'System should provide data storage and retrieval capabilities',
+      priority: 'medium',
+      category: 'data'
+    });
+  }
+  
+  const featureMap = [
+    { keyword: 'fitness', name: 'Fitness Tracking', complexity: 'medium', hours: 25 },
+    { keyword: 'payment', name: 'Payment Processing', complexity: 'high', hours: 45 },
+    { keyword: 'social', name: 'Social Integration', complexity: 'medium', hours: 30 },
+    { keyword: 'notification', name: 'Push Notifications', complexity: 'medium', hours: 20 },
+    { keyword: 'camera', name: 'Camera Integration', complexity: 'high', hours: 35 }
+  ];
+  
+  featureMap.forEach(({ keyword, name, complexity, hours }) => {
+    if (lowerText.includes(keyword)) {
+      features.push({
+        id: `FEAT_${features.length + 1}`,
+        name,
+        description: `Include ${name.toLowerCase()} functionality`,
+        complexity,
+        estimatedHours: hours
+      });
+    }
+  });
+  
+  const totalHours = features.reduce((sum, f) => sum + f.estimatedHours, 0);
+  let complexity = 'low';
+  if (totalHours > 80) complexity = 'high';
+  else if (totalHours > 40) complexity = 'medium';
+
+  // Keyword matching involves no model, so only the idea itself is scored.
+  // A domain chosen by the caller is used as is and not scored.
+  const analysisDomains = resolveAnalysisDomains(text, domain);
+  const confidenceBreakdown = scoreConfidence({
+    domain: measureDomainSignal(analysisDomains.distribution),
+    repairs: measureRepairSignal(0),
+    coverage: measureCoverageSignal(assessCoverage(text, analysisDomains.domain))
+  });
+  
+  return {
+    projectType,
+    domain: analysisDomains.domain,
+    requirements: requirements.length > 0 ? requirements : mockPipelineResult.data.requirements.requirements,
+    features: features.length > 0 ? features : mockPipelineResult.data.requirements.features,
+    estimatedComplexity: complexity,
+    estimatedDuration: totalHours > 60 ? 'months' : 'weeks',
+    confidence: confidenceBreakdown.score,
+    confidenceBreakdown
+  };
+}
+
+// Run one stage, reporting its timing; stops before starting when cancelled
+async function runStage<T>(stage: PipelineStage, options: PipelineRunOptions, run: () => T | Promise<T>): Promise<T> {
+  if (options.signal?.aborted) {
+    throw new PipelineCancelledError();
+  }
+
+  const startedAt = new Date();
+  options.onStageStarted?.(stage);
+  const value = await run();
+  options.onStageCompleted?.({
+    stage,
+    attempt: options.attempt ?? 1,
+    startedAt: startedAt.toISOString(),
+    durationMs: Date.now() - startedAt.getTime()
+  });
+  return value;
+}
+
+// A service that does not answer in time is treated as unavailable
+const NLP_SERVICE_TIMEOUT_MS = 30 * 1000;
+
+// Forward the request to the external NLP service; null when it is unavailable
+async function callNlpService(request: PipelineRequest, signal?: AbortSignal): Promise<any | null> {
+  const nlpServiceUrl = process.env.NLP_SERVICE_URL || 'http://localhost:3002';
+  const timeout = AbortSignal.timeout(NLP_SERVICE_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(`${nlpServiceUrl}/api/nlp/complete-pipeline`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(request),
+      signal: signal ? AbortSignal.any([signal, timeout]) : timeout
+    });
+
+    if (response.ok) {
+      return await response.json();
+    }
+  } catch (error) {
+    if (signal?.aborted) throw new PipelineCancelledError();
+    console.log('NLP service not available, using mock data');
+  }
+  return null;
+}
+
+export async function runCompletePipeline(request: PipelineRequest, options: PipelineRunOptions = {}) {
+  const { input, type, options: requestOptions } = request;
+  const analysis = analysisOptions(requestOptions);
+
+  const serviceResult = await runStage('nlp-service', options, () => callNlpService(request, options.signal));
+  if (serviceResult) {
+    return serviceResult;
+  }
+
+  // Fallback to mock data
+  const mockResult = JSON.parse(JSON.stringify(mockPipelineResult));
+  mockResult.data.originalInput = input;
+  mockResult.data.type = type;
+  mockResult.data.extractedText = await runStage('extraction', options, () =>
+    type === 'text' ? input : 'Transcribed text from speech'
+  );
+  mockResult.data.entities = await runStage('entities', options, () => extractEntitiesFromText(input));
+
+  const intentData = await runStage('intent', options, () => getIntentFromText(input, analysis.projectType ?? DEFAULT_PROJECT_TYPE));
+  mockResult.data.intent = {
+    text: input,
+    intent: intentData.intent,
+    confidence: intentData.confidence,
+    entities: [],
+    action: intentData.action,
+    parameters: { ...intentData.parameters, ...requestOptions }
+  };
+
+  mockResult.data.requirements = await runStage('requirements', options, () => generateRequirementsFromText(input, analysis));
+  mockResult.timestamp = new Date().toISOString();
+
+  return mockResult;
+}
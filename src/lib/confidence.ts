@@ -0,0 +1,251 @@
+// Confidence scores for analyses, derived from measurable signals
+// Each signal is scaled to 0-1 and combined in a weighted mean over the signals
+// that were measured. The mean can then be calibrated against the evaluation
+// dataset (Platt scaling) so that a confidence of 0.7 means roughly 70% of the
+// expected features were found on comparable inputs. The committed calibration
+// is the identity until it has been fitted on runs against a real model.
+
+import calibrationFile from './confidence-calibration.json';
+import type { DomainScore } from './domain-detection';
+import type { ScoredDocument } from './vector-db';
+import type { InputCoverage } from './clarification';
+
+export type ConfidenceSignal = 'domain' | 'retrieval' | 'repairs' | 'agreement' | 'coverage';
+
+export const CONFIDENCE_SIGNALS: ConfidenceSignal[] = ['domain', 'retrieval', 'repairs', 'agreement', 'coverage'];
+
+// Relative importance of each signal; unmeasured signals are left out of the mean
+const SIGNAL_WEIGHTS: Record<ConfidenceSignal, number> = {
+  domain: 0.2,
+  retrieval: 0.3,
+  repairs: 0.15,
+  agreement: 0.2,
+  coverage: 0.15
+};
+
+// Classifier decision threshold; domain probabilities near it are ambiguous
+const DOMAIN_THRESHOLD = 0.5;
+
+// Vector similarity at which the best retrieved document counts as a full match
+const RETRIEVAL_FULL_MATCH = 0.5;
+
+// Signals below this value are reported as reasons for low confidence
+const LOW_SIGNAL = 0.5;
+
+export interface ConfidenceFactor {
+  signal: ConfidenceSignal;
+  // Signal strength from 0 to 1, or null when it was not measured
+  value: number | null;
+  // Share of the uncalibrated score this signal accounts for
+  weight: number;
+  detail: string;
+}
+
+export interface ConfidenceBreakdown {
+  score: number;
+  // Weighted mean of the measured signals before calibration
+  uncalibrated: number;
+  calibrated: boolean;
+  factors: ConfidenceFactor[];
+  // Human-readable explanations for the weak signals, weakest first
+  reasons: string[];
+}
+
+export interface ConfidenceCalibration {
+  // calibrated = sigmoid(slope * logit(uncalibrated) + intercept)
+  slope: number;
+  intercept: number;
+  datasetVersion: number;
+  cases: number;
+  fittedAt: string;
+  // Mean squared error against the evaluation outcomes before and after fitting
+  brierBefore: number;
+  brierAfter: number;
+}
+
+export type SignalMeasurement = Pick<ConfidenceFactor, 'value' | 'detail'>;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+// How far the least certain domain is from the classifier's decision threshold
+export function measureDomainSignal(distribution?: DomainScore[]): SignalMeasurement {
+  if (!distribution || distribution.length === 0) {
+    return { value: null, detail: 'Domain was chosen by the caller' };
+  }
+
+  const leastCertain = distribution.reduce((closest, score) =>
+    Math.abs(score.confidence - DOMAIN_THRESHOLD) < Math.abs(closest.confidence - DOMAIN_THRESHOLD) ? score : closest
+  );
+  const value = clamp(Math.abs(leastCertain.confidence - DOMAIN_THRESHOLD) / DOMAIN_THRESHOLD);
+
+  return {
+    value,
+    detail: value < LOW_SIGNAL
+      ? `Unclear whether the idea belongs to the ${leastCertain.domain} domain (${percent(leastCertain.confidence)})`
+      : 'The domain classifier is decisive about every domain'
+  };
+}
+
+// Similarity of the best retrieved knowledge document to the idea
+export function measureRetrievalSignal(documents: ScoredDocument[], contextRetrieved: boolean): SignalMeasurement {
+  if (!contextRetrieved) {
+    return { value: 0, detail: 'The knowledge base was unavailable, so no context was retrieved' };
+  }
+  if (documents.length === 0) {
+    return { value: 0, detail: 'No knowledge base documents matched the idea' };
+  }
+
+  const best = Math.max(...documents.map(item => item.vectorScore ?? 0));
+  const value = clamp(best / RETRIEVAL_FULL_MATCH);
+
+  return {
+    value,
+    detail: value < LOW_SIGNAL
+      ? `Retrieved context matches the idea weakly (best similarity ${best.toFixed(2)})`
+      : `Retrieved context matches the idea well (best similarity ${best.toFixed(2)})`
+  };
+}
+
+// Model output that needed schema repairs is less trustworthy; an ensemble
+// makes one first attempt per sample
+export function measureRepairSignal(llmAttempts: number, samples = 1): SignalMeasurement {
+  if (llmAttempts <= 0) {
+    return { value: 0, detail: 'No valid model output; the result comes from rule-based templates' };
+  }
+
+  const repairs = Math.max(0, llmAttempts - samples);
+  return {
+    value: clamp(samples / llmAttempts),
+    detail: repairs === 0
+      ? 'Model output was valid on the first attempt'
+      : `Model output needed ${repairs} schema repair${repairs === 1 ? '' : 's'}`
+  };
+}
+
+// Share of features that independent samples agreed on
+export function measureAgreementSignal(agreement?: number): SignalMeasurement {
+  if (agreement === undefined) {
+    return { value: null, detail: 'Only one sample was generated' };
+  }
+
+  return {
+    value: clamp(agreement),
+    detail: agreement < LOW_SIGNAL
+      ? `Samples agreed on only ${percent(agreement)} of the features`
+      : `Samples agreed on ${percent(agreement)} of the features`
+  };
+}
+
+// Share of the details a specification needs that the idea provides
+export function measureCoverageSignal(coverage: InputCoverage): SignalMeasurement {
+  return {
+    value: coverage.score,
+    detail: coverage.missing.length > 0
+      ? `The idea does not mention: ${coverage.missing.map(dimension => dimension === 'coreFlows' ? 'core flows' : dimension).join(', ')}`
+      : 'The idea covers platform, audience, monetization and core flows'
+  };
+}
+
+function logit(probability: number): number {
+  const p = Math.min(1 - 1e-6, Math.max(1e-6, probability));
+  return Math.log(p / (1 - p));
+}
+
+function sigmoid(value: number): number {
+  return 1 / (1 + Math.exp(-value));
+}
+
+export function applyCalibration(uncalibrated: number, calibration: Pick<ConfidenceCalibration, 'slope' | 'intercept'>): number {
+  return sigmoid(calibration.slope * logit(uncalibrated) + calibration.intercept);
+}
+
+// Committed calibration, refreshed with `npm run eval:rag -- --provider name --calibrate`;
+// the identity file (no cases) counts as uncalibrated
+function currentCalibration(): ConfidenceCalibration | null {
+  const calibration = calibrationFile as Partial<ConfidenceCalibration>;
+  return typeof calibration.slope === 'number' && typeof calibration.intercept === 'number' && (calibration.cases ?? 0) > 0
+    ? calibration as ConfidenceCalibration
+    : null;
+}
+
+// Combine measured signals into a calibrated score with its breakdown
+export function scoreConfidence(measurements: Partial<Record<ConfidenceSignal, SignalMeasurement>>): ConfidenceBreakdown {
+  const measured = CONFIDENCE_SIGNALS.filter(signal => measurements[signal]?.value !== null && measurements[signal]?.value !== undefined);
+  const totalWeight = measured.reduce((sum, signal) => sum + SIGNAL_WEIGHTS[signal], 0);
+
+  const factors: ConfidenceFactor[] = CONFIDENCE_SIGNALS.map(signal => {
+    const measurement = measurements[signal];
+    const isMeasured = measured.includes(signal);
+    return {
+      signal,
+      value: isMeasured ? Number(measurement!.value!.toFixed(3)) : null,
+      weight: isMeasured ? Number((SIGNAL_WEIGHTS[signal] / totalWeight).toFixed(3)) : 0,
+      detail: measurement?.detail || 'Not measured'
+    };
+  });
+
+  const uncalibrated = totalWeight > 0
+    ? measured.reduce((sum, signal) => sum + SIGNAL_WEIGHTS[signal] * measurements[signal]!.value!, 0) / totalWeight
+    : 0;
+
+  const calibration = currentCalibration();
+  const score = calibration && totalWeight > 0 ? applyCalibration(uncalibrated, calibration) : uncalibrated;
+
+  const reasons = factors
+    .filter(factor => factor.value !== null && factor.value < LOW_SIGNAL)
+    .sort((a, b) => a.value! - b.value!)
+    .map(factor => factor.detail);
+
+  return {
+    score: Number(score.toFixed(3)),
+    uncalibrated: Number(uncalibrated.toFixed(3)),
+    calibrated: calibration !== null,
+    factors,
+    reasons
+  };
+}
+
+export interface CalibrationSample {
+  uncalibrated: number;
+  // Observed quality of the result from 0 to 1 (e.g. expected-feature recall)
+  outcome: number;
+}
+
+// Fit the Platt scaling parameters by gradient descent on the log loss. A prior
+// pulls them toward the identity mapping so small datasets cannot push every
+// score to the extremes.
+export function fitCalibration(
+  samples: CalibrationSample[],
+  options: { epochs?: number; learningRate?: number; prior?: number } = {}
+): Pick<ConfidenceCalibration, 'slope' | 'intercept' | 'brierBefore' | 'brierAfter'> {
+  const { epochs = 2000, learningRate = 0.1, prior = 0.5 } = options;
+  let slope = 1;
+  let intercept = 0;
+
+  for (let epoch = 0; epoch < epochs && samples.length > 0; epoch++) {
+    let slopeGradient = prior * (slope - 1);
+    let interceptGradient = prior * intercept;
+
+    for (const sample of samples) {
+      const x = logit(sample.uncalibrated);
+      const error = sigmoid(slope * x + intercept) - sample.outcome;
+      slopeGradient += (error * x) / samples.length;
+      interceptGradient += error / samples.length;
+    }
+
+    slope -= learningRate * slopeGradient;
+    intercept -= learningRate * interceptGradient;
+  }
+
+  const brier = (predict: (value: number) => number) => samples.length > 0
+    ? samples.reduce((sum, sample) => sum + (predict(sample.uncalibrated) - sample.outcome) ** 2, 0) / samples.length
+    : 0;
+
+  return {
+    slope: Number(slope.toFixed(4)),
+    intercept: Number(intercept.toFixed(4)),
+    brierBefore: Number(brier(value => value).toFixed(4)),
+    brierAfter: Number(brier(value => applyCalibration(value, { slope, intercept })).toFixed(4))
+  };
+}
@@ -0,0 +1,298 @@
+// Ingestion pipeline for Markdown, plain-text and HTML playbooks
+// Files are split into overlapping chunks by heading and paragraph, then
+// stored as knowledge documents with their source provenance. Ingesting a file
+// into a domain again replaces the chunks of the earlier ingest there.
+
+import { tokenize } from './embeddings';
+import {
+  replaceIngestedDocuments,
+  KnowledgeDocumentInput,
+  KnowledgeDocumentType
+} from './knowledge-store';
+import { KnowledgeDocument } from './vector-db';
+
+export const SUPPORTED_EXTENSIONS = ['.md', '.markdown', '.txt', '.html', '.htm'];
+
+export interface ChunkingOptions {
+  maxChunkSize: number;
+  overlap: number;
+}
+
+export interface DocumentChunk {
+  content: string;
+  body: string;
+  section?: string;
+  chunkIndex: number;
+}
+
+export interface IngestionRequest {
+  fileName: string;
+  content: string;
+  domain: string;
+  type?: KnowledgeDocumentType;
+  tags?: string[];
+}
+
+export interface IngestionResult {
+  fileName: string;
+  chunkCount: number;
+  documents: KnowledgeDocument[];
+}
+
+interface Section {
+  heading?: string;
+  paragraphs: string[];
+}
+
+const DEFAULT_CHUNKING: ChunkingOptions = {
+  maxChunkSize: 1200,
+  overlap: 200
+};
+
+// Keywords used to infer the document type of a chunk, checked in order
+const typeSignals: Array<{ type: KnowledgeDocumentType; patterns: RegExp[] }> = [
+  {
+    type: 'user_story',
+    patterns: [/\bas an? [\w\s-]+?,?\s+i want\b/i]
+  },
+  {
+    type: 'best_practice',
+    patterns: [/\bbest practices?\b/i, /\bguidelines?\b/i, /\bchecklist\b/i, /\brecommend(ed|ation)?s?\b/i, /\bshould\b/i]
+  },
+  {
+    type: 'requirement',
+    patterns: [/\bshall\b/i, /\brequirements?\b/i, /\bmust\b/i, /\bcompl(y|iance)\b/i]
+  }
+];
+
+export function isSupportedFile(fileName: string): boolean {
+  const lowerName = fileName.toLowerCase();
+  return SUPPORTED_EXTENSIONS.some(ext => lowerName.endsWith(ext));
+}
+
+// Split a file into overlapping chunks that respect headings and paragraphs
+export function chunkDocument(
+  fileName: string,
+  content: string,
+  options: ChunkingOptions = DEFAULT_CHUNKING
+): DocumentChunk[] {
+  const lowerName = fileName.toLowerCase();
+  const markdown = lowerName.endsWith('.html') || lowerName.endsWith('.htm')
+    ? htmlToMarkdown(content)
+    : content;
+
+  const sections = lowerName.endsWith('.txt')
+    ? parsePlainTextSections(markdown)
+    : parseMarkdownSections(markdown);
+
+  const chunks: DocumentChunk[] = [];
+
+  for (const section of sections) {
+    for (const body of packParagraphs(section.paragraphs, options)) {
+      chunks.push({
+        content: section.heading ? `${section.heading}: ${body}` : body,
+        body,
+        section: section.heading,
+        chunkIndex: chunks.length
+      });
+    }
+  }
+
+  return chunks;
+}
+
+// Infer the knowledge document type from the chunk text, then its heading
+export function inferDocumentType(text: string, section?: string): KnowledgeDocumentType {
+  for (const candidate of [text, section || '']) {
+    for (const signal of typeSignals) {
+      if (signal.patterns.some(pattern => pattern.test(candidate))) {
+        return signal.type;
+      }
+    }
+  }
+  return 'feature';
+}
+
+// Infer tags from the most frequent meaningful terms in the chunk
+export function inferTags(text: string, section?: string, limit: number = 5): string[] {
+  const frequencies = new Map<string, number>();
+
+  for (const token of tokenize(text)) {
+    if (token.length < 4 || /^\d+$/.test(token)) continue;
+    frequencies.set(token, (frequencies.get(token) || 0) + 1);
+  }
+
+  // Terms from the section heading are strong topic signals
+  for (const token of tokenize(section || '')) {
+    if (token.length < 4) continue;
+    frequencies.set(token, (frequencies.get(token) || 0) + 3);
+  }
+
+  return Array.from(frequencies.entries())
+    .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+    .slice(0, limit)
+    .map(([token]) => token);
+}
+
+// Chunk a file and store each chunk as a knowledge document
+export async function ingestDocument(request: IngestionRequest): Promise<IngestionResult> {
+  const chunks = chunkDocument(request.fileName, request.content);
+  const ingestedAt = new Date().toISOString();
+
+  const inputs: KnowledgeDocumentInput[] = chunks.map(chunk => ({
+    domain: request.domain,
+    content: chunk.content,
+    source: chunk.section ? `${request.fileName} > ${chunk.section}` : request.fileName,
+    type: request.type || inferDocumentType(chunk.body, chunk.section),
+    tags: Array.from(new Set([...(request.tags || []), ...inferTags(chunk.content, chunk.section)])),
+    provenance: {
+      fileName: request.fileName,
+      section: chunk.section,
+      chunkIndex: chunk.chunkIndex,
+      totalChunks: chunks.length,
+      ingestedAt
+    }
+  }));
+  const documents = await replaceIngestedDocuments(request.fileName, request.domain, inputs);
+
+  console.log(`Ingested ${request.fileName} into ${documents.length} knowledge documents`);
+
+  return {
+    fileName: request.fileName,
+    chunkCount: chunks.length,
+    documents
+  };
+}
+
+function parseMarkdownSections(markdown: string): Section[] {
+  const sections: Section[] = [];
+  const headingStack: string[] = [];
+  let current: Section = { paragraphs: [] };
+  let buffer: string[] = [];
+
+  const flushParagraph = () => {
+    const paragraph = buffer.join(' ').replace(/\s+/g, ' ').trim();
+    if (paragraph) current.paragraphs.push(stripInlineMarkdown(paragraph));
+    buffer = [];
+  };
+
+  for (const line of markdown.split(/\r?\n/)) {
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      flushParagraph();
+      if (current.paragraphs.length > 0) sections.push(current);
+
+      // Keep the heading trail so nested sections carry their parent context
+      const level = heading[1].length;
+      headingStack.length = level - 1;
+      headingStack[level - 1] = stripInlineMarkdown(heading[2].trim());
+      current = { heading: headingStack.filter(Boolean).join(' > '), paragraphs: [] };
+    } else if (line.trim() === '') {
+      flushParagraph();
+    } else if (/^\s*([-*+]|\d+\.)\s+/.test(line)) {
+      // Each list item becomes its own paragraph
+      flushParagraph();
+      buffer.push(line.trim());
+    } else {
+      buffer.push(line.trim());
+    }
+  }
+
+  flushParagraph();
+  if (current.paragraphs.length > 0) sections.push(current);
+
+  return sections;
+}
+
+// Plain text uses short lines in capitals or ending with a colon as headings
+function parsePlainTextSections(text: string): Section[] {
+  const converted = text
+    .split(/\r?\n/)
+    .map(line => {
+      const trimmed = line.trim();
+      const looksLikeHeading = trimmed.length > 0 && trimmed.length <= 80 &&
+        ((/[A-Z]/.test(trimmed) && trimmed === trimmed.toUpperCase()) || /^[^.!?]+:$/.test(trimmed));
+      return looksLikeHeading ? `# ${trimmed.replace(/:$/, '')}` : line;
+    })
+    .join('\n');
+
+  return parseMarkdownSections(converted);
+}
+
+// Reduce HTML to Markdown headings and paragraphs
+function htmlToMarkdown(html: string): string {
+  return html
+    .replace(/<(script|style|head)[\s\S]*?<\/\1>/gi, '')
+    .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level, text) => `\n\n${'#'.repeat(Number(level))} ${text.replace(/<[^>]+>/g, '').trim()}\n\n`)
+    .replace(/<li[^>]*>/gi, '\n\n- ')
+    .replace(/<\/(p|div|section|article|li|ul|ol|table|tr)>/gi, '\n\n')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    // Last, so an escaped entity such as "&amp;lt;" stays "&lt;"
+    .replace(/&amp;/g, '&');
+}
+
+function stripInlineMarkdown(text: string): string {
+  return text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/[*_`]{1,3}([^*_`]+)[*_`]{1,3}/g, '$1')
+    .replace(/^([-*+]|\d+\.)\s+/, '')
+    .trim();
+}
+
+// Pack paragraphs into chunks, carrying the tail of each chunk into the next
+function packParagraphs(paragraphs: string[], options: ChunkingOptions): string[] {
+  const pieces = paragraphs.flatMap(paragraph => splitLongParagraph(paragraph, options.maxChunkSize));
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const piece of pieces) {
+    if (current && current.length + piece.length + 1 > options.maxChunkSize) {
+      chunks.push(current);
+      current = overlapTail(current, options.overlap);
+    }
+    current = current ? `${current} ${piece}` : piece;
+  }
+
+  if (current) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
+
+// Split paragraphs longer than a chunk on sentence boundaries
+function splitLongParagraph(paragraph: string, maxChunkSize: number): string[] {
+  if (paragraph.length <= maxChunkSize) {
+    return [paragraph];
+  }
+
+  const sentences = paragraph.match(/[^.!?]+[.!?]+(\s+|$)|[^.!?]+$/g) || [paragraph];
+  const pieces: string[] = [];
+  let current = '';
+
+  for (const sentence of sentences.map(s => s.trim())) {
+    if (current && current.length + sentence.length + 1 > maxChunkSize) {
+      pieces.push(current);
+      current = '';
+    }
+    current = current ? `${current} ${sentence}` : sentence;
+  }
+
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+// Take the last whole words of a chunk, up to the overlap size
+function overlapTail(text: string, overlap: number): string {
+  if (overlap <= 0) return '';
+  const tail = text.slice(-overlap);
+  const firstSpace = tail.indexOf(' ');
+  return firstSpace === -1 ? tail : tail.slice(firstSpace + 1);
+}
@@ -0,0 +1,222 @@
+// Statistical domain classification for app ideas
+// One-vs-rest logistic regression over word unigrams and bigrams, trained on
+// the labeled idea texts of the domain packs. An idea can belong to several
+// domains (a banking app with an e-commerce checkout); an idea that matches
+// none is "general".
+
+import { lexicalTokens } from './bm25';
+import { GENERAL_DOMAIN, classifiableDomains, domainTrainingExamples } from './domain-packs';
+import { pivotToEnglish } from './language-detection';
+
+export interface LabeledIdea {
+  text: string;
+  labels: string[];
+  // Relative influence on training (default 1)
+  weight?: number;
+}
+
+export interface DomainScore {
+  domain: string;
+  confidence: number;
+}
+
+export interface TermWeight {
+  term: string;
+  weight: number;
+}
+
+export interface DomainClassification {
+  // Most likely domain, or "general" when no domain is confident enough
+  domain: string;
+  // Every domain the idea belongs to, most likely first
+  domains: string[];
+  // Confidence for each known domain, highest first
+  distribution: DomainScore[];
+}
+
+export interface DomainClassifierOptions {
+  epochs: number;
+  learningRate: number;
+  l2: number;
+  // Minimum confidence for a domain to be assigned
+  threshold: number;
+  maxDomains: number;
+}
+
+const DEFAULT_OPTIONS: DomainClassifierOptions = {
+  epochs: 150,
+  learningRate: 0.5,
+  l2: 0.0005,
+  threshold: 0.5,
+  maxDomains: 3
+};
+
+// Stemmed unigrams and bigrams of a text
+function extractNgrams(text: string): string[] {
+  const tokens = lexicalTokens(text);
+  const ngrams = new Set(tokens);
+  for (let i = 0; i < tokens.length - 1; i++) {
+    ngrams.add(`${tokens[i]} ${tokens[i + 1]}`);
+  }
+  return Array.from(ngrams);
+}
+
+function sigmoid(value: number): number {
+  return 1 / (1 + Math.exp(-value));
+}
+
+export class DomainClassifier {
+  private vocabulary = new Map<string, number>();
+  private weights = new Map<string, Float64Array>();
+  private biases = new Map<string, number>();
+  private options: DomainClassifierOptions;
+
+  constructor(private readonly labels: string[], options: Partial<DomainClassifierOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  // Binary n-gram features, scaled so long and short ideas weigh the same
+  private vectorize(text: string): { indices: number[]; value: number } {
+    const indices = extractNgrams(text)
+      .map(ngram => this.vocabulary.get(ngram))
+      .filter((index): index is number => index !== undefined);
+    return { indices, value: indices.length > 0 ? 1 / Math.sqrt(indices.length) : 0 };
+  }
+
+  // Fit one logistic regression per domain with stochastic gradient descent
+  train(examples: LabeledIdea[]) {
+    this.vocabulary.clear();
+    for (const example of examples) {
+      for (const ngram of extractNgrams(example.text)) {
+        if (!this.vocabulary.has(ngram)) this.vocabulary.set(ngram, this.vocabulary.size);
+      }
+    }
+
+    const vectors = examples.map(example => this.vectorize(example.text));
+    const { epochs, learningRate, l2 } = this.options;
+
+    for (const label of this.labels) {
+      const weights = new Float64Array(this.vocabulary.size);
+      let bias = 0;
+
+      for (let epoch = 0; epoch < epochs; epoch++) {
+        // Decay the step size so the weights settle
+        const rate = learningRate / (1 + epoch * 0.01);
+
+        examples.forEach((example, i) => {
+          const { indices, value } = vectors[i];
+          const target = example.labels.includes(label) ? 1 : 0;
+          const score = indices.reduce((sum, index) => sum + weights[index] * value, bias);
+          const error = (sigmoid(score) - target) * (example.weight ?? 1);
+
+          for (const index of indices) {
+            weights[index] -= rate * (error * value + l2 * weights[index]);
+          }
+          bias -= rate * error;
+        });
+      }
+
+      this.weights.set(label, weights);
+      this.biases.set(label, bias);
+    }
+  }
+
+  // Confidence for every domain, highest first
+  predict(text: string): DomainScore[] {
+    const { indices, value } = this.vectorize(text);
+
+    return this.labels
+      .map(domain => {
+        const weights = this.weights.get(domain);
+        const score = weights
+          ? indices.reduce((sum, index) => sum + weights[index] * value, this.biases.get(domain) || 0)
+          : -Infinity;
+        return { domain, confidence: sigmoid(score) };
+      })
+      .sort((a, b) => b.confidence - a.confidence);
+  }
+
+  // Unigrams and bigrams of the text that pushed it hardest toward a domain
+  explain(text: string, domain: string, limit = 8): TermWeight[] {
+    const weights = this.weights.get(domain);
+    if (!weights) return [];
+
+    return extractNgrams(text)
+      .map(term => ({ term, index: this.vocabulary.get(term) }))
+      .filter((item): item is { term: string; index: number } => item.index !== undefined && weights[item.index] > 0)
+      .map(({ term, index }) => ({ term, weight: Number(weights[index].toFixed(3)) }))
+      .sort((a, b) => b.weight - a.weight)
+      .slice(0, limit);
+  }
+
+  classify(text: string): DomainClassification {
+    const distribution = this.predict(text);
+    const domains = distribution
+      .filter(score => score.confidence >= this.options.threshold)
+      .slice(0, this.options.maxDomains)
+      .map(score => score.domain);
+
+    return {
+      domain: domains[0] || GENERAL_DOMAIN,
+      domains,
+      distribution
+    };
+  }
+}
+
+let defaultClassifier: DomainClassifier | null = null;
+
+// Classifier trained on the domain pack examples, built on first use
+export function getDomainClassifier(): DomainClassifier {
+  if (!defaultClassifier) {
+    defaultClassifier = new DomainClassifier(classifiableDomains());
+    defaultClassifier.train(domainTrainingExamples());
+  }
+  return defaultClassifier;
+}
+
+// Ranked domain distribution for a description
+export function classifyDomains(description: string): DomainClassification {
+  // The classifier is trained on English examples
+  return getDomainClassifier().classify(pivotToEnglish(description));
+}
+
+// Terms of a description that indicate each of the given domains
+export function explainDomains(description: string, domains: string[]): Record<string, TermWeight[]> {
+  const classifier = getDomainClassifier();
+  const text = pivotToEnglish(description);
+  return Object.fromEntries(domains.map(domain => [domain, classifier.explain(text, domain)]));
+}
+
+// Assigned domains with their confidences, for blending retrieval context
+export function contextDomains(classification: DomainClassification): DomainScore[] {
+  const assigned = classification.distribution.filter(score => classification.domains.includes(score.domain));
+  return assigned.length > 0 ? assigned : [{ domain: GENERAL_DOMAIN, confidence: 1 }];
+}
+
+export interface AnalysisDomains {
+  domain: string;
+  // Blend for retrieval; absent when the caller fixed the domain
+  contextDomains?: DomainScore[];
+  distribution?: DomainScore[];
+}
+
+// Domain to analyze an idea under: the caller's choice, or the classifier's
+// primary domain with the blend of every assigned domain
+export function resolveAnalysisDomains(description: string, explicitDomain?: string): AnalysisDomains {
+  if (explicitDomain) {
+    return { domain: explicitDomain };
+  }
+
+  const classification = classifyDomains(description);
+  return {
+    domain: classification.domain,
+    contextDomains: contextDomains(classification),
+    distribution: classification.distribution
+  };
+}
+
+// Detect the primary domain of a description
+export function detectDomain(description: string): string {
+  return classifyDomains(description).domain;
+}
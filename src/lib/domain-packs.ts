@@ -0,0 +1,240 @@
+// Domain packs: one JSON file per domain in domain-packs/ (or DOMAIN_PACKS_DIR)
+// defining everything the app knows about that domain - classifier training
+// examples, prompt guidance, requirement templates, rule-based fallbacks,
+// the user type for generated stories and seed knowledge documents.
+// Adding a domain means adding a file; packs are validated when first loaded.
+
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { z } from 'zod';
+import { KnowledgeDocument } from './vector-db';
+
+// Domain of ideas that match no specific pack; its examples train every
+// classifier label as a negative
+export const GENERAL_DOMAIN = 'general';
+
+const levelSchema = z.enum(['low', 'medium', 'high']);
+
+const featureTemplateSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  description: z.string().min(1),
+  complexity: levelSchema,
+  estimatedHours: z.number().positive(),
+  category: z.string().min(1)
+});
+
+const requirementTemplateSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  description: z.string().min(1),
+  priority: z.enum(['critical', 'high', 'medium', 'low']),
+  category: z.string().min(1)
+});
+
+const riskSchema = z.object({
+  description: z.string().min(1),
+  impact: levelSchema,
+  probability: levelSchema
+});
+
+// A plain string is an idea of this pack's domain only
+const exampleSchema = z.union([
+  z.string().min(1),
+  z.object({
+    text: z.string().min(1),
+    domains: z.array(z.string()).min(1)
+  })
+]);
+
+const knowledgeSchema = z.object({
+  id: z.string().min(1),
+  content: z.string().min(1),
+  source: z.string().min(1),
+  type: z.enum(['feature', 'requirement', 'user_story', 'best_practice']),
+  tags: z.array(z.string()).default([])
+});
+
+// Parts of the requirements-analysis system prompt
+const requirementsPromptSchema = z.object({
+  // "You are an expert ... specializing in <specialization>."
+  specialization: z.string().min(1),
+  // Short name used in "Key features for <label> systems include:"
+  label: z.string().min(1),
+  focus: z.string().min(1),
+  keyFeatures: z.array(z.string()).min(1),
+  regulations: z.array(z.string()).default([])
+});
+
+const domainPackSchema = z.object({
+  domain: z.string().regex(/^[a-z][a-z0-9-]*$/, 'Domain must be lowercase letters, digits and dashes'),
+  name: z.string().min(1),
+  // Bump when the knowledge documents change, so they are seeded again
+  version: z.number().int().positive().default(1),
+  userType: z.string().default('user'),
+  // Typical primary users, offered as answers to clarifying questions
+  audiences: z.array(z.string()).default([]),
+  // Phrases that on their own indicate the domain; used as short training examples
+  keywords: z.array(z.string()).default([]),
+  examples: z.array(exampleSchema).default([]),
+  // Guidance for RAG prompts; prompt templates may override it per domain
+  guidance: z.string().optional(),
+  requirementsPrompt: requirementsPromptSchema.optional(),
+  features: z.array(featureTemplateSchema).default([]),
+  requirements: z.array(requirementTemplateSchema).default([]),
+  // Rule-based analysis fallbacks; generic ones are used when a pack has none
+  constraints: z.array(z.string()).optional(),
+  assumptions: z.array(z.string()).optional(),
+  risks: z.array(riskSchema).optional(),
+  knowledge: z.array(knowledgeSchema).default([])
+});
+
+export type DomainPack = z.infer<typeof domainPackSchema>;
+export type DomainFeatureTemplate = z.infer<typeof featureTemplateSchema>;
+export type DomainRequirementTemplate = z.infer<typeof requirementTemplateSchema>;
+
+// Keywords are single phrases, so they count for less than a full idea
+const KEYWORD_WEIGHT = 0.3;
+
+// Seed knowledge of one pack version
+export interface DomainPackKnowledge {
+  domain: string;
+  version: number;
+  documents: KnowledgeDocument[];
+}
+
+export interface DomainTrainingExample {
+  text: string;
+  labels: string[];
+  weight?: number;
+}
+
+let cachedPacks: Map<string, DomainPack> | null = null;
+
+// The packs shipped with the app, found from this module rather than the
+// working directory the server happens to be started from
+const BUNDLED_PACKS_DIR = fileURLToPath(new URL('../../domain-packs', import.meta.url));
+
+function packsDirectory(): string {
+  return process.env.DOMAIN_PACKS_DIR ? path.resolve(process.env.DOMAIN_PACKS_DIR) : BUNDLED_PACKS_DIR;
+}
+
+function parsePackFile(filePath: string): DomainPack {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Invalid domain pack ${filePath}: ${error instanceof Error ? error.message : 'unreadable file'}`);
+  }
+
+  const parsed = domainPackSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new Error(`Invalid domain pack ${filePath}: ${issues.join('; ')}`);
+  }
+  return parsed.data;
+}
+
+// Checks that span packs: unique domains, known example domains, unique document ids
+function validatePacks(packs: Map<string, DomainPack>, files: Map<string, string>) {
+  const documentIds = new Map<string, string>();
+
+  for (const pack of packs.values()) {
+    const file = files.get(pack.domain);
+
+    for (const example of pack.examples) {
+      if (typeof example === 'string') continue;
+      const unknown = example.domains.filter(domain => !packs.has(domain));
+      if (unknown.length > 0) {
+        throw new Error(`Invalid domain pack ${file}: example "${example.text}" uses unknown domains ${unknown.join(', ')}`);
+      }
+    }
+
+    for (const document of pack.knowledge) {
+      const owner = documentIds.get(document.id);
+      if (owner) {
+        throw new Error(`Invalid domain pack ${file}: knowledge document id "${document.id}" is already defined in ${owner}`);
+      }
+      documentIds.set(document.id, file!);
+    }
+  }
+}
+
+// Load and validate every pack once; a missing directory means no domain packs
+export function loadDomainPacks(): Map<string, DomainPack> {
+  if (cachedPacks) {
+    return cachedPacks;
+  }
+
+  const directory = packsDirectory();
+  const packs = new Map<string, DomainPack>();
+  const files = new Map<string, string>();
+
+  if (!existsSync(directory)) {
+    console.warn(`Domain pack directory ${directory} not found; every idea will be treated as general`);
+  } else {
+    const fileNames = readdirSync(directory).filter(name => name.endsWith('.json')).sort();
+
+    for (const fileName of fileNames) {
+      const filePath = path.join(directory, fileName);
+      const pack = parsePackFile(filePath);
+
+      if (packs.has(pack.domain)) {
+        throw new Error(`Invalid domain pack ${filePath}: domain "${pack.domain}" is already defined in ${files.get(pack.domain)}`);
+      }
+      packs.set(pack.domain, pack);
+      files.set(pack.domain, filePath);
+    }
+
+    validatePacks(packs, files);
+    console.log(`Loaded ${packs.size} domain packs: ${Array.from(packs.keys()).join(', ')}`);
+  }
+
+  cachedPacks = packs;
+  return cachedPacks;
+}
+
+export function getDomainPack(domain: string): DomainPack | undefined {
+  return loadDomainPacks().get(domain);
+}
+
+export function listDomainPacks(): DomainPack[] {
+  return Array.from(loadDomainPacks().values());
+}
+
+// Domains the classifier can assign; general is what remains when none applies
+export function classifiableDomains(): string[] {
+  return listDomainPacks().map(pack => pack.domain).filter(domain => domain !== GENERAL_DOMAIN);
+}
+
+// Labeled examples from every pack, including keywords as short examples
+export function domainTrainingExamples(): DomainTrainingExample[] {
+  const labelsFor = (domains: string[]) => domains.filter(domain => domain !== GENERAL_DOMAIN);
+
+  return listDomainPacks().flatMap(pack => [
+    ...pack.keywords.map(keyword => ({ text: keyword, labels: labelsFor([pack.domain]), weight: KEYWORD_WEIGHT })),
+    ...pack.examples.map(example => typeof example === 'string'
+      ? { text: example, labels: labelsFor([pack.domain]) }
+      : { text: example.text, labels: labelsFor(example.domains) })
+  ]);
+}
+
+// Seed knowledge documents of every pack
+export function domainPackKnowledge(): DomainPackKnowledge[] {
+  return listDomainPacks().map(pack => ({
+    domain: pack.domain,
+    version: pack.version,
+    documents: pack.knowledge.map(document => ({
+      id: document.id,
+      domain: pack.domain,
+      content: document.content,
+      metadata: {
+        source: document.source,
+        type: document.type,
+        tags: document.tags
+      },
+      embedding: []
+    }))
+  }));
+}
@@ -0,0 +1,102 @@
+// Local embedding pipeline used by the knowledge base and similarity lookups.
+// Texts are embedded as hashed character n-gram vectors so that morphological
+// variants ("deposit" / "deposits") land close together without calling an
+// external embedding service.
+
+export const EMBEDDING_DIMENSIONS = 1024;
+
+const NGRAM_SIZES = [3, 4];
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'for', 'from',
+  'has', 'have', 'i', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'of', 'on',
+  'or', 'our', 'so', 'that', 'the', 'their', 'them', 'then', 'there', 'these',
+  'they', 'this', 'to', 'was', 'we', 'were', 'will', 'with', 'would', 'you',
+  'your', 'want', 'need', 'like', 'should', 'must', 'also', 'all', 'any', 'app',
+  'application', 'users', 'user'
+]);
+
+// Split text into lowercase word tokens, dropping stop words and noise
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token));
+}
+
+// Generate a normalized embedding vector for the given text
+export function generateEmbedding(text: string): number[] {
+  const counts = new Map<number, number>();
+
+  for (const token of tokenize(text)) {
+    for (const feature of extractFeatures(token)) {
+      const hash = fnv1a(feature);
+      // The top bit picks the sign so colliding features tend to cancel out
+      const index = hash % EMBEDDING_DIMENSIONS;
+      const sign = hash & 0x80000000 ? -1 : 1;
+      counts.set(index, (counts.get(index) || 0) + sign);
+    }
+  }
+
+  const embedding = new Array(EMBEDDING_DIMENSIONS).fill(0);
+  for (const [index, count] of counts.entries()) {
+    // Sublinear term frequency keeps repeated words from dominating
+    embedding[index] = Math.sign(count) * (1 + Math.log(Math.abs(count) || 1));
+  }
+
+  return normalize(embedding);
+}
+
+// Cosine similarity between two vectors (0 when either vector is empty)
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || b.length === 0 || a.length !== b.length) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+// Whole-word feature plus boundary-padded character n-grams
+function extractFeatures(token: string): string[] {
+  const features = [`w:${token}`];
+  const padded = `<${token}>`;
+
+  for (const size of NGRAM_SIZES) {
+    for (let i = 0; i + size <= padded.length; i++) {
+      features.push(padded.slice(i, i + size));
+    }
+  }
+
+  return features;
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  if (norm === 0) {
+    return vector;
+  }
+  return vector.map(value => value / norm);
+}
+
+// 32-bit FNV-1a hash
+function fnv1a(str: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < str.length; i++) {
+    hash ^= str.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,79 @@
+// Retrieval and generation metrics for the RAG evaluation harness
+
+import { lexicalTokens } from '../bm25';
+
+// Token overlap above which two feature names are considered the same feature
+export const FEATURE_MATCH_THRESHOLD = 0.5;
+
+// Share of relevant ids found in the first k retrieved ids
+export function recallAtK(retrievedIds: string[], relevantIds: string[], k: number): number {
+  if (relevantIds.length === 0) return 1;
+  const topK = new Set(retrievedIds.slice(0, k));
+  return relevantIds.filter(id => topK.has(id)).length / relevantIds.length;
+}
+
+// Reciprocal of the rank of the first relevant id (0 when none is retrieved)
+export function reciprocalRank(retrievedIds: string[], relevantIds: string[]): number {
+  const relevant = new Set(relevantIds);
+  const index = retrievedIds.findIndex(id => relevant.has(id));
+  return index === -1 ? 0 : 1 / (index + 1);
+}
+
+// Jaccard similarity of the stemmed tokens of two feature names
+export function featureNameSimilarity(a: string, b: string): number {
+  const tokensA = new Set(lexicalTokens(a));
+  const tokensB = new Set(lexicalTokens(b));
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+
+  const intersection = Array.from(tokensA).filter(token => tokensB.has(token)).length;
+  return intersection / (tokensA.size + tokensB.size - intersection);
+}
+
+// Precision and recall of generated feature names against the expected names
+export function featureOverlap(generated: string[], expected: string[]) {
+  const matches = (name: string, candidates: string[]) =>
+    candidates.some(candidate => featureNameSimilarity(name, candidate) >= FEATURE_MATCH_THRESHOLD);
+
+  const matchedExpected = expected.filter(name => matches(name, generated));
+  const matchedGenerated = generated.filter(name => matches(name, expected));
+
+  return {
+    recall: expected.length === 0 ? 1 : matchedExpected.length / expected.length,
+    precision: generated.length === 0 ? 0 : matchedGenerated.length / generated.length,
+    matched: matchedExpected,
+    missing: expected.filter(name => !matchedExpected.includes(name))
+  };
+}
+
+// Check a RAG analysis payload against the documented output schema
+export function validateAnalysisSchema(data: any): string[] {
+  const errors: string[] = [];
+
+  if (!data || typeof data !== 'object') {
+    return ['Analysis data is missing'];
+  }
+  if (typeof data.project_name !== 'string' || !data.project_name) errors.push('project_name must be a non-empty string');
+  if (typeof data.core_domain !== 'string' || !data.core_domain) errors.push('core_domain must be a non-empty string');
+  if (!Array.isArray(data.features) || data.features.length === 0) {
+    errors.push('features must be a non-empty array');
+    return errors;
+  }
+
+  data.features.forEach((feature: any, index: number) => {
+    for (const field of ['name', 'description', 'user_story']) {
+      if (typeof feature[field] !== 'string' || !feature[field]) errors.push(`features[${index}].${field} must be a non-empty string`);
+    }
+    if (!['HIGH', 'MEDIUM', 'LOW'].includes(feature.priority)) errors.push(`features[${index}].priority must be HIGH, MEDIUM or LOW`);
+    for (const field of ['functional_requirements', 'non_functional_requirements']) {
+      if (!Array.isArray(feature[field]) || feature[field].some((req: any) => typeof req !== 'string')) {
+        errors.push(`features[${index}].${field} must be an array of strings`);
+      }
+    }
+  });
+
+  return errors;
+}
+
+export function mean(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
@@ -0,0 +1,65 @@
+// Deterministic stand-in for the LLM used by the evaluation harness
+// It turns the numbered knowledge documents in a RAG prompt into features,
+// so analysis scores move only when retrieval, prompts or parsing change
+
+import { LLMProvider } from '../llm';
+
+const CONTEXT_SECTION = /### CONTEXT FROM KNOWLEDGE BASE:\n([\s\S]*?)\n### /;
+const REQUEST_SECTION = /### USER'S ORIGINAL REQUEST:\n([\s\S]*?)\n### /;
+const DOCUMENT_ENTRY = /\[(\d+)\] \(Source: [^)]*\)\n([^\n]+)/g;
+
+export async function mockLLMCompletion(prompt: string): Promise<string> {
+  const context = prompt.match(CONTEXT_SECTION)?.[1] || '';
+  const request = (prompt.match(REQUEST_SECTION)?.[1] || '').trim();
+
+  const features = Array.from(context.matchAll(DOCUMENT_ENTRY)).map(([, index, content], position) => {
+    const separator = content.indexOf(':');
+    const name = separator > 0 ? content.slice(0, separator).trim() : `Feature ${index}`;
+    const sentences = (separator > 0 ? content.slice(separator + 1) : content)
+      .split(/(?<=\.)\s+/)
+      .map(sentence => sentence.trim())
+      .filter(Boolean);
+
+    return {
+      name,
+      description: sentences[0] || name,
+      user_story: `As a user, I want ${name.toLowerCase()} so that I can accomplish my goals.`,
+      priority: position < 2 ? 'HIGH' : 'MEDIUM',
+      functional_requirements: sentences.slice(1, 3).map(sentence => `The system shall support this behaviour. ${sentence}`),
+      non_functional_requirements: ['The feature shall respond within 2 seconds under normal load.'],
+      citations: [Number(index)]
+    };
+  });
+
+  // Without retrieved context, describe the request itself as one feature
+  if (features.length === 0) {
+    features.push({
+      name: 'Core Experience',
+      description: request.slice(0, 120) || 'Core application functionality',
+      user_story: 'As a user, I want the core experience so that I can accomplish my goals.',
+      priority: 'HIGH',
+      functional_requirements: ['The system shall provide the core workflow described in the request.'],
+      non_functional_requirements: ['The feature shall respond within 2 seconds under normal load.'],
+      citations: []
+    });
+  }
+
+  return JSON.stringify({
+    project_name: 'Evaluation App',
+    core_domain: 'Evaluation',
+    features
+  }, null, 2);
+}
+
+// Provider wrapper so the mock can replace the configured rag-analysis provider
+export const mockLLMProvider: LLMProvider = {
+  name: 'evaluation-mock',
+  async complete(request) {
+    const prompt = request.messages.filter(message => message.role === 'user').map(message => message.content).join('\n');
+    return {
+      content: await mockLLMCompletion(prompt),
+      provider: 'evaluation-mock',
+      model: request.model
+    };
+  }
+};
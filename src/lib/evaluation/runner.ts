@@ -0,0 +1,241 @@
+// Runs the golden dataset through domain detection, retrieval and analysis
+// and produces a report that can be compared across commits
+
+import goldenDataset from './golden-dataset.json';
+import { mockLLMProvider } from './mock-llm';
+import {
+  recallAtK,
+  reciprocalRank,
+  featureOverlap,
+  validateAnalysisSchema,
+  mean
+} from './metrics';
+import { classifyDomains } from '../domain-detection';
+import { retrieveRelevantDocuments } from '../knowledge-base';
+import { RAGOrchestration } from '../rag-orchestration';
+import { LLMProvider } from '../llm';
+import { fitCalibration, ConfidenceCalibration } from '../confidence';
+import { EnsembleOptions } from '../feature-ensemble';
+
+export interface GoldenCase {
+  id: string;
+  input: string;
+  expectedDomain: string;
+  expectedDocIds: string[];
+  expectedFeatures: string[];
+}
+
+export interface GoldenDataset {
+  version: number;
+  description?: string;
+  cases: GoldenCase[];
+}
+
+export interface EvaluationOptions {
+  k?: number;
+  dataset?: GoldenDataset;
+  provider?: LLMProvider;
+  // Evaluate a specific prompt template version instead of the registry's selection
+  templateId?: string;
+  label?: string;
+  // Fit confidence calibration parameters to this run's outcomes
+  calibrate?: boolean;
+  // Analyze every case with a self-consistency ensemble
+  ensemble?: EnsembleOptions;
+}
+
+export interface CaseResult {
+  id: string;
+  promptTemplate?: string;
+  domain: {
+    expected: string;
+    detected: string;
+    correct: boolean;
+  };
+  retrieval: {
+    retrievedIds: string[];
+    recallAtK: number;
+    reciprocalRank: number;
+  };
+  analysis: {
+    success: boolean;
+    schemaValid: boolean;
+    schemaErrors: string[];
+    featureRecall: number;
+    featurePrecision: number;
+    missingFeatures: string[];
+    // Reported confidence, before and after calibration
+    confidence: number;
+    uncalibratedConfidence: number;
+    // Quality the confidence should predict: feature recall of a schema-valid result
+    outcome: number;
+    error?: string;
+  };
+}
+
+export interface EvaluationReport {
+  label?: string;
+  generatedAt: string;
+  datasetVersion: number;
+  k: number;
+  // Template versions used across the run, as name@version
+  promptTemplates: string[];
+  summary: {
+    cases: number;
+    domainAccuracy: number;
+    recallAtK: number;
+    mrr: number;
+    featureRecall: number;
+    featurePrecision: number;
+    schemaValidRate: number;
+    meanConfidence: number;
+    // Mean squared error of the confidence against the case outcomes
+    confidenceBrier: number;
+  };
+  calibration?: ConfidenceCalibration;
+  cases: CaseResult[];
+}
+
+export async function runEvaluation(options: EvaluationOptions = {}): Promise<EvaluationReport> {
+  const k = options.k ?? 5;
+  const dataset = options.dataset ?? (goldenDataset as GoldenDataset);
+  const orchestration = new RAGOrchestration({ provider: options.provider ?? mockLLMProvider });
+  await orchestration.ready();
+
+  const cases: CaseResult[] = [];
+
+  for (const goldenCase of dataset.cases) {
+    const classification = classifyDomains(goldenCase.input);
+    const detected = classification.domain;
+
+    // Retrieval is scored against the expected domain so it is isolated from detection errors
+    const retrieved = await retrieveRelevantDocuments(goldenCase.input, goldenCase.expectedDomain, { limit: k });
+    const retrievedIds = retrieved.map(item => item.document.id);
+
+    const analysis = await orchestration.analyzeRequirements(goldenCase.input, detected, {
+      templateId: options.templateId,
+      domainDistribution: classification.distribution,
+      ensemble: options.ensemble,
+      // Near-duplicate cases would otherwise be scored on each other's output
+      skipCache: true
+    });
+    const template = analysis.metadata?.promptTemplate;
+    const schemaErrors = analysis.success ? validateAnalysisSchema(analysis.data) : ['Analysis failed'];
+    const overlap = featureOverlap(
+      analysis.data?.features.map(feature => feature.name) || [],
+      goldenCase.expectedFeatures
+    );
+    const schemaValid = schemaErrors.length === 0;
+
+    cases.push({
+      id: goldenCase.id,
+      ...(template ? { promptTemplate: `${template.name}@${template.version}` } : {}),
+      domain: {
+        expected: goldenCase.expectedDomain,
+        detected,
+        correct: detected === goldenCase.expectedDomain
+      },
+      retrieval: {
+        retrievedIds,
+        recallAtK: recallAtK(retrievedIds, goldenCase.expectedDocIds, k),
+        reciprocalRank: reciprocalRank(retrievedIds, goldenCase.expectedDocIds)
+      },
+      analysis: {
+        success: analysis.success,
+        schemaValid,
+        schemaErrors,
+        featureRecall: overlap.recall,
+        featurePrecision: overlap.precision,
+        missingFeatures: overlap.missing,
+        confidence: analysis.metadata?.confidence ?? 0,
+        uncalibratedConfidence: analysis.metadata?.confidenceBreakdown?.uncalibrated ?? 0,
+        outcome: schemaValid ? overlap.recall : 0,
+        ...(analysis.error ? { error: analysis.error } : {})
+      }
+    });
+  }
+
+  const generatedAt = new Date().toISOString();
+  const calibration = options.calibrate
+    ? {
+        ...fitCalibration(cases.map(c => ({ uncalibrated: c.analysis.uncalibratedConfidence, outcome: c.analysis.outcome }))),
+        datasetVersion: dataset.version,
+        cases: cases.length,
+        fittedAt: generatedAt
+      }
+    : undefined;
+
+  return {
+    label: options.label,
+    generatedAt,
+    datasetVersion: dataset.version,
+    k,
+    promptTemplates: Array.from(new Set(cases.map(c => c.promptTemplate).filter((name): name is string => !!name))),
+    summary: {
+      cases: cases.length,
+      domainAccuracy: mean(cases.map(c => (c.domain.correct ? 1 : 0))),
+      recallAtK: mean(cases.map(c => c.retrieval.recallAtK)),
+      mrr: mean(cases.map(c => c.retrieval.reciprocalRank)),
+      featureRecall: mean(cases.map(c => c.analysis.featureRecall)),
+      featurePrecision: mean(cases.map(c => c.analysis.featurePrecision)),
+      schemaValidRate: mean(cases.map(c => (c.analysis.schemaValid ? 1 : 0))),
+      meanConfidence: mean(cases.map(c => c.analysis.confidence)),
+      confidenceBrier: mean(cases.map(c => (c.analysis.confidence - c.analysis.outcome) ** 2))
+    },
+    ...(calibration ? { calibration } : {}),
+    cases
+  };
+}
+
+// Render a report as Markdown for pull requests and quick diffs
+export function renderMarkdownReport(report: EvaluationReport): string {
+  const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+  const { summary } = report;
+
+  const lines = [
+    `# RAG Evaluation Report${report.label ? ` (${report.label})` : ''}`,
+    '',
+    `Generated ${report.generatedAt} on dataset v${report.datasetVersion} with k=${report.k}.`,
+    `Prompt templates: ${report.promptTemplates.join(', ') || 'n/a'}.`,
+    '',
+    '| Metric | Score |',
+    '| --- | --- |',
+    `| Domain accuracy | ${percent(summary.domainAccuracy)} |`,
+    `| Recall@${report.k} | ${percent(summary.recallAtK)} |`,
+    `| MRR | ${summary.mrr.toFixed(3)} |`,
+    `| Feature recall | ${percent(summary.featureRecall)} |`,
+    `| Feature precision | ${percent(summary.featurePrecision)} |`,
+    `| Schema validity | ${percent(summary.schemaValidRate)} |`,
+    `| Mean confidence | ${percent(summary.meanConfidence)} |`,
+    `| Confidence Brier score | ${summary.confidenceBrier.toFixed(3)} |`,
+    '',
+    '## Cases',
+    '',
+    '| Case | Domain (expected / detected) | Recall@k | RR | Feature recall | Confidence | Schema |',
+    '| --- | --- | --- | --- | --- | --- | --- |',
+    ...report.cases.map(c =>
+      `| ${c.id} | ${c.domain.expected} / ${c.domain.detected}${c.domain.correct ? '' : ' ✗'} | ${percent(c.retrieval.recallAtK)} | ${c.retrieval.reciprocalRank.toFixed(2)} | ${percent(c.analysis.featureRecall)} | ${percent(c.analysis.confidence)} | ${c.analysis.schemaValid ? 'valid' : 'invalid'} |`
+    )
+  ];
+
+  if (report.calibration) {
+    const { slope, intercept, brierBefore, brierAfter } = report.calibration;
+    lines.push(
+      '',
+      '## Confidence calibration',
+      '',
+      `Fitted slope ${slope} and intercept ${intercept} on ${report.calibration.cases} cases; Brier score ${brierBefore.toFixed(3)} before, ${brierAfter.toFixed(3)} after.`
+    );
+  }
+
+  const failures = report.cases.filter(c => !c.analysis.schemaValid || c.analysis.missingFeatures.length > 0);
+  if (failures.length > 0) {
+    lines.push('', '## Details', '');
+    for (const c of failures) {
+      if (c.analysis.missingFeatures.length > 0) lines.push(`- **${c.id}** missing features: ${c.analysis.missingFeatures.join(', ')}`);
+      if (!c.analysis.schemaValid) lines.push(`- **${c.id}** schema errors: ${c.analysis.error || c.analysis.schemaErrors.join('; ')}`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
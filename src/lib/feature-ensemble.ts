@@ -0,0 +1,194 @@
+// Self-consistency for feature extraction
+// An analysis is sampled several times (optionally across providers); features
+// describing the same thing are aligned by name and description similarity and
+// only those produced by enough samples are kept. The share of samples that
+// produced a feature becomes its confidence.
+
+import { generateEmbedding, cosineSimilarity } from './embeddings';
+import { getLLMProvider } from './llm';
+import type { AnalyzedFeature, FeatureSource } from './rag-orchestration';
+
+export const DEFAULT_ENSEMBLE_SAMPLES = 3;
+export const MAX_ENSEMBLE_SAMPLES = 5;
+
+// A feature must appear in at least this share of samples to be kept
+export const DEFAULT_MIN_AGREEMENT = 0.6;
+
+// Similarity of name and description at which two features count as the same
+// feature; rephrasings of one feature score 0.6 and above, distinct features
+// rarely more than 0.45
+const ALIGNMENT_THRESHOLD = 0.55;
+
+export interface EnsembleOptions {
+  // Number of samples; defaults to the number of providers, or 3
+  samples?: number;
+  // Configured provider names to rotate through; defaults to the route's provider
+  providers?: string[];
+  minAgreement?: number;
+}
+
+export interface EnsembleReport {
+  samples: number;
+  // Samples that produced a valid analysis
+  successfulSamples: number;
+  providers: string[];
+  minAgreement: number;
+  // Mean share of samples behind each distinct feature, kept or not
+  agreement: number;
+  // Distinct features dropped for lacking consensus
+  discarded: string[];
+}
+
+export interface ConsensusResult {
+  features: AnalyzedFeature[];
+  agreement: number;
+  discarded: string[];
+}
+
+interface FeatureCandidate {
+  feature: AnalyzedFeature;
+  sample: number;
+  position: number;
+  embedding: number[];
+}
+
+function similarity(a: FeatureCandidate, b: FeatureCandidate): number {
+  return cosineSimilarity(a.embedding, b.embedding);
+}
+
+// Group features of different samples that describe the same thing; a group
+// holds at most one feature per sample
+function alignFeatures(samples: AnalyzedFeature[][]): FeatureCandidate[][] {
+  const groups: FeatureCandidate[][] = [];
+
+  samples.forEach((features, sample) => {
+    features.forEach((feature, position) => {
+      const candidate: FeatureCandidate = {
+        feature,
+        sample,
+        position,
+        embedding: generateEmbedding(`${feature.name}. ${feature.description}`)
+      };
+
+      let bestGroup: FeatureCandidate[] | null = null;
+      let bestScore = ALIGNMENT_THRESHOLD;
+
+      for (const group of groups) {
+        if (group.some(member => member.sample === sample)) continue;
+        const score = group.reduce((sum, member) => sum + similarity(candidate, member), 0) / group.length;
+        if (score >= bestScore) {
+          bestGroup = group;
+          bestScore = score;
+        }
+      }
+
+      if (bestGroup) {
+        bestGroup.push(candidate);
+      } else {
+        groups.push([candidate]);
+      }
+    });
+  });
+
+  return groups;
+}
+
+// Member closest to the rest of its group
+function representative(group: FeatureCandidate[]): FeatureCandidate {
+  if (group.length <= 2) {
+    return group[0];
+  }
+
+  return group
+    .map(member => ({
+      member,
+      score: group.reduce((sum, other) => (other === member ? sum : sum + similarity(member, other)), 0)
+    }))
+    .sort((a, b) => b.score - a.score)[0].member;
+}
+
+function mergeSources(group: FeatureCandidate[]): FeatureSource[] {
+  const sources = new Map<string, FeatureSource>();
+  for (const member of group) {
+    for (const source of member.feature.sources) {
+      if (!sources.has(source.docId)) sources.set(source.docId, source);
+    }
+  }
+  return Array.from(sources.values());
+}
+
+// Keep the features enough samples agree on, most agreed-on first. When no
+// feature reaches minAgreement, the best-supported ones are kept instead.
+export function buildConsensus(samples: AnalyzedFeature[][], minAgreement = DEFAULT_MIN_AGREEMENT): ConsensusResult {
+  if (samples.length === 0) {
+    return { features: [], agreement: 0, discarded: [] };
+  }
+
+  const groups = alignFeatures(samples).map(group => ({
+    group,
+    support: group.length / samples.length,
+    position: group.reduce((sum, member) => sum + member.position, 0) / group.length
+  }));
+
+  const threshold = Math.min(minAgreement, Math.max(...groups.map(item => item.support)));
+  const kept = groups
+    .filter(item => item.support >= threshold)
+    .sort((a, b) => b.support - a.support || a.position - b.position);
+
+  return {
+    features: kept.map(({ group, support }) => ({
+      ...representative(group).feature,
+      sources: mergeSources(group),
+      confidence: Number(support.toFixed(3))
+    })),
+    agreement: groups.reduce((sum, item) => sum + item.support, 0) / groups.length,
+    discarded: groups
+      .filter(item => item.support < threshold)
+      .map(item => representative(item.group).feature.name)
+  };
+}
+
+// Check per-request ensemble options; returns an error message or null
+export function validateEnsembleOptions(options: unknown): string | null {
+  if (options === undefined || options === true) {
+    return null;
+  }
+  if (!options || typeof options !== 'object' || Array.isArray(options)) {
+    return 'ensemble must be true or an object';
+  }
+
+  const { samples, providers, minAgreement } = options as Record<string, unknown>;
+  if (samples !== undefined && (!Number.isInteger(samples) || (samples as number) < 2 || (samples as number) > MAX_ENSEMBLE_SAMPLES)) {
+    return `ensemble.samples must be an integer between 2 and ${MAX_ENSEMBLE_SAMPLES}`;
+  }
+  if (providers !== undefined && (!Array.isArray(providers) || providers.length === 0 || providers.some(name => typeof name !== 'string'))) {
+    return 'ensemble.providers must be a non-empty array of provider names';
+  }
+  // Each provider is sampled at least once, so they count against the sample limit
+  if (providers !== undefined && new Set(providers as string[]).size > MAX_ENSEMBLE_SAMPLES) {
+    return `ensemble.providers may name at most ${MAX_ENSEMBLE_SAMPLES} providers`;
+  }
+  for (const name of (providers as string[] | undefined) || []) {
+    try {
+      getLLMProvider(name);
+    } catch (error) {
+      return error instanceof Error ? error.message : `Unknown LLM provider "${name}"`;
+    }
+  }
+  if (minAgreement !== undefined && (typeof minAgreement !== 'number' || minAgreement <= 0 || minAgreement > 1)) {
+    return 'ensemble.minAgreement must be a number greater than 0 and at most 1';
+  }
+
+  return null;
+}
+
+// Request value (true or options) as ensemble options, or undefined when off;
+// a provider named twice is sampled as one
+export function toEnsembleOptions(value: unknown): EnsembleOptions | undefined {
+  if (value === true) return {};
+  if (value && typeof value === 'object') {
+    const options = value as EnsembleOptions;
+    return options.providers ? { ...options, providers: Array.from(new Set(options.providers)) } : options;
+  }
+  return undefined;
+}
@@ -0,0 +1,235 @@
+// Screening of user text before it reaches an LLM prompt
+// Personal data (emails, phone numbers, card and IBAN numbers, SSNs, account
+// numbers) is replaced with numbered placeholders such as [EMAIL_1], which are
+// swapped back into the model's output. Text that tries to override the
+// prompt's instructions is flagged, or rejected when INPUT_GUARD_INJECTION_POLICY
+// is "block". Every decision other than "passed" is logged without the raw text.
+
+import { createHash } from 'crypto';
+import { db } from './db';
+
+export type PIIType = 'email' | 'card' | 'iban' | 'ssn' | 'account' | 'phone';
+
+export type GuardAction = 'passed' | 'redacted' | 'flagged' | 'blocked';
+
+export type InjectionPolicy = 'flag' | 'block';
+
+export interface InputGuardReport {
+  // "flagged" and "blocked" take precedence over "redacted"
+  action: GuardAction;
+  redactions: Array<{ type: PIIType; placeholder: string }>;
+  injection: {
+    detected: boolean;
+    // Ids of the matched injection patterns
+    patterns: string[];
+  };
+}
+
+export interface ScreenedInput {
+  // Text with personal data replaced by placeholders
+  text: string;
+  report: InputGuardReport;
+  // Placeholder -> original value; never leaves the server
+  placeholders: Map<string, string>;
+}
+
+export class InputRejectedError extends Error {
+  constructor(readonly report: InputGuardReport) {
+    super(`Input rejected: possible prompt injection (${report.injection.patterns.join(', ')})`);
+    this.name = 'InputRejectedError';
+  }
+}
+
+// Luhn checksum, so order numbers and amounts are not taken for card numbers
+function isValidCardNumber(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length < 13 || digits.length > 19) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// ISO 13616 mod-97 check
+function isValidIBAN(value: string): boolean {
+  const iban = value.replace(/\s/g, '').toUpperCase();
+  if (iban.length < 15 || iban.length > 34) return false;
+
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const code = /[A-Z]/.test(char) ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of code) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+function isLikelyPhoneNumber(value: string): boolean {
+  const digits = value.replace(/\D/g, '').length;
+  // Domestic numbers dialled with a trunk 0 are 9-13 digits long
+  if (value.startsWith('0')) return digits >= 9 && digits <= 13;
+  return digits >= 7 && digits <= 15;
+}
+
+// Only numbers written the way phone numbers are: with a country code, with
+// an area code in parentheses, grouped 3-3-4 with one separator, or a domestic
+// number whose area code starts with 0. Dates, versions and quantities such as
+// "2026-10-19", "01.02.2026" or "10 000 000" don't qualify.
+const PHONE_PATTERN = new RegExp(
+  String.raw`(?<![\w+.\-[])(?:` + [
+    // +44 20 7946 0958, +1-202-555-0143, +49 (30) 1234567
+    String.raw`\+\d{1,3}(?:[\s.-]?(?:\(\d{1,4}\)|\d{1,5})){2,5}`,
+    // (202) 555-0143, +1 (800) 555 0199
+    String.raw`(?:\+?1[\s.-]?)?\(\d{2,4}\)[\s.-]?\d{3,4}[\s.-]?\d{3,4}`,
+    // 202-555-0143, 1-800-555-0199, 202.555.0143
+    String.raw`(?:1[\s.-])?\d{3}([\s.-])\d{3}\1\d{4}`,
+    // 07700 900123, 030 12345678, 030/1234567, 0171-2345678
+    String.raw`0[1-9]\d{1,4}(?:[\s/.-]\d{2,8}){1,3}`
+  ].join('|') + String.raw`)(?![\w\]]|[.-]?\d)`,
+  'g'
+);
+
+interface PIIDetector {
+  type: PIIType;
+  pattern: RegExp;
+  validate?: (value: string) => boolean;
+}
+
+// Applied in order; earlier detectors claim text before later, looser ones
+const PII_DETECTORS: PIIDetector[] = [
+  { type: 'email', pattern: /\b[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}\b/gi },
+  { type: 'iban', pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,4})?\b/gi, validate: isValidIBAN },
+  { type: 'card', pattern: /\b\d(?:[ -]?\d){12,18}\b/g, validate: isValidCardNumber },
+  { type: 'ssn', pattern: /\b(?!000|666|9\d\d)\d{3}[- ](?!00)\d{2}[- ](?!0000)\d{4}\b/g },
+  { type: 'account', pattern: /(?<=\b(?:account|acct|a\/c)(?: ?(?:no\.?|number|num|#))? ?[:#]? ?)\d[\d-]{4,20}\d\b/gi },
+  { type: 'phone', pattern: PHONE_PATTERN, validate: isLikelyPhoneNumber }
+];
+
+// Phrases used to override a prompt's instructions or extract it
+const INJECTION_PATTERNS: Array<{ id: string; pattern: RegExp }> = [
+  { id: 'ignore-instructions', pattern: /\b(?:ignore|disregard|forget|override)\b.{0,30}\b(?:previous|prior|above|earlier|all|any|your|the)\b.{0,20}\b(?:instructions?|prompts?|rules|directions|guidelines)\b/i },
+  { id: 'role-override', pattern: /\b(?:you are now|from now on,? you are|act as|pretend (?:to be|you are)|roleplay as)\b.{0,40}\b(?:assistant|ai|model|system|developer|admin|dan|jailbreak|unrestricted)\b/i },
+  { id: 'prompt-extraction', pattern: /\b(?:reveal|print|show|repeat|output|tell me)\b.{0,20}\b(?:your|the)\b.{0,15}\b(?:system prompt|instructions|hidden prompt|initial prompt)\b/i },
+  { id: 'delimiter-injection', pattern: /(?:^|\n)\s*#{2,}\s*(?:system|instructions?|assistant)\b|<\|im_start\|>|<\/?system>|\[\/?INST\]/i },
+  { id: 'output-override', pattern: /\b(?:respond|reply|answer|return)\s+only\s+with\b|\bdo not (?:follow|obey)\b.{0,20}\b(?:instructions?|rules)\b/i }
+];
+
+const PLACEHOLDER_PATTERN = /\[(?:EMAIL|CARD|IBAN|SSN|ACCOUNT|PHONE)_\d+\]/g;
+
+function injectionPolicy(): InjectionPolicy {
+  return process.env.INPUT_GUARD_INJECTION_POLICY === 'block' ? 'block' : 'flag';
+}
+
+// Redact personal data and check for injection attempts
+export function screenInput(text: string): ScreenedInput {
+  const placeholders = new Map<string, string>();
+  const byValue = new Map<string, string>();
+  const redactions: InputGuardReport['redactions'] = [];
+  const counters: Partial<Record<PIIType, number>> = {};
+
+  let sanitized = text;
+  for (const detector of PII_DETECTORS) {
+    sanitized = sanitized.replace(detector.pattern, match => {
+      if (detector.validate && !detector.validate(match)) {
+        return match;
+      }
+
+      // The same value always maps to the same placeholder
+      const key = `${detector.type}:${match.toLowerCase()}`;
+      const existing = byValue.get(key);
+      if (existing) {
+        return existing;
+      }
+
+      counters[detector.type] = (counters[detector.type] || 0) + 1;
+      const placeholder = `[${detector.type.toUpperCase()}_${counters[detector.type]}]`;
+      byValue.set(key, placeholder);
+      placeholders.set(placeholder, match);
+      redactions.push({ type: detector.type, placeholder });
+      return placeholder;
+    });
+  }
+
+  const patterns = INJECTION_PATTERNS.filter(({ pattern }) => pattern.test(text)).map(({ id }) => id);
+  const injection = { detected: patterns.length > 0, patterns };
+
+  let action: GuardAction = 'passed';
+  if (injection.detected) {
+    action = injectionPolicy() === 'block' ? 'blocked' : 'flagged';
+  } else if (redactions.length > 0) {
+    action = 'redacted';
+  }
+
+  return {
+    text: sanitized,
+    report: { action, redactions, injection },
+    placeholders
+  };
+}
+
+// Put the original values back into model output, including nested objects and arrays
+export function restoreRedactions<T>(value: T, screened: Pick<ScreenedInput, 'placeholders'>): T {
+  if (screened.placeholders.size === 0) {
+    return value;
+  }
+  if (typeof value === 'string') {
+    return value.replace(PLACEHOLDER_PATTERN, placeholder => screened.placeholders.get(placeholder) ?? placeholder) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => restoreRedactions(item, screened)) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, restoreRedactions(item, screened)])
+    ) as T;
+  }
+  return value;
+}
+
+// Record a guard decision; only a hash of the input is kept
+export async function logGuardDecision(source: string, input: string, report: InputGuardReport): Promise<void> {
+  if (report.action === 'passed') {
+    return;
+  }
+
+  const inputHash = createHash('sha256').update(input).digest('hex').slice(0, 16);
+  const types = report.redactions.map(redaction => redaction.type);
+  console.warn(`Input guard ${report.action} ${source} input ${inputHash}`, {
+    redacted: types,
+    injectionPatterns: report.injection.patterns
+  });
+
+  try {
+    await db.inputGuardLog.create({
+      data: {
+        source,
+        action: report.action,
+        inputHash,
+        redactions: JSON.stringify(types),
+        injectionPatterns: JSON.stringify(report.injection.patterns)
+      }
+    });
+  } catch (error) {
+    console.error('Failed to persist input guard decision:', error);
+  }
+}
+
+// Screen text for an LLM call: logs the decision and throws when it is blocked
+export function guardInput(source: string, text: string): ScreenedInput {
+  const screened = screenInput(text);
+  void logGuardDecision(source, text, screened.report);
+
+  if (screened.report.action === 'blocked') {
+    throw new InputRejectedError(screened.report);
+  }
+  return screened;
+}
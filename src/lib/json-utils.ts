@@ -1,37 +1,132 @@
-// Utility functions for JSON cleaning and validation
-export function cleanAndValidateJSON(content: string): any {
+// Utility functions for extracting JSON from LLM responses
+
+export class JSONExtractionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JSONExtractionError';
+  }
+}
+
+// Extract and parse the first JSON object in a model response.
+// Prose, code fences, comments, trailing commas, unquoted keys and single-quoted
+// strings are tolerated; string values are never rewritten.
+export function extractJSON(content: string): any {
+  const candidate = findJSONObject(stripCodeFence(content));
+  if (!candidate) {
+    throw new JSONExtractionError('Response does not contain a complete JSON object');
+  }
+
   try {
-    // Remove markdown formatting
-    let cleanContent = content.trim();
-    cleanContent = cleanContent.replace(/```json\n?/g, '').replace(/```\n?/g, '');
-    cleanContent = cleanContent.replace(/#{1,6}\s.*$/gm, '');
-    cleanContent = cleanContent.replace(/^\s*[-*+]\s.*$/gm, '');
-    cleanContent = cleanContent.replace(/^\s*\d+\.\s.*$/gm, '');
-    
-    // Extract JSON object
-    const jsonMatch = cleanContent.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      cleanContent = jsonMatch[0];
-    }
-    
-    // Fix common JSON issues
-    cleanContent = cleanContent.replace(/,\s*([}\]])/g, '$1');
-    cleanContent = cleanContent.replace(/(\w+)\s*:/g, '"$1":');
-    cleanContent = cleanContent.replace(/:\s*'([^']*)'/g, ': "$1"');
-    
-    // Try to parse
-    return JSON.parse(cleanContent);
+    return JSON.parse(candidate);
+  } catch {
+    // Fall through to the lenient pass
+  }
+
+  try {
+    return JSON.parse(normalizeJSON(candidate));
   } catch (error) {
-    console.error('Failed to clean and validate JSON:', error);
-    throw new Error('Invalid JSON format');
+    throw new JSONExtractionError(`Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
 export function isValidJSON(content: string): boolean {
   try {
-    cleanAndValidateJSON(content);
+    extractJSON(content);
     return true;
   } catch {
     return false;
   }
-}
\ No newline at end of file
+}
+
+// Prefer the contents of a fenced code block when the model used one
+function stripCodeFence(content: string): string {
+  const fenced = content.match(/```(?:json|javascript|js)?[^\S\n]*\n([\s\S]*?)```/i);
+  return fenced ? fenced[1] : content;
+}
+
+// Find the first balanced {...} span, skipping braces inside strings
+function findJSONObject(content: string): string | null {
+  let start = content.indexOf('{');
+
+  while (start !== -1) {
+    let depth = 0;
+    let quote: string | null = null;
+
+    for (let i = start; i < content.length; i++) {
+      const char = content[i];
+
+      if (quote) {
+        if (char === '\\') i++;
+        else if (char === quote) quote = null;
+        continue;
+      }
+
+      if (char === '"' || char === "'") quote = char;
+      else if (char === '{') depth++;
+      else if (char === '}' && --depth === 0) return content.slice(start, i + 1);
+    }
+
+    start = content.indexOf('{', start + 1);
+  }
+
+  return null;
+}
+
+// Repair JavaScript-style object literals token by token so string contents stay intact
+function normalizeJSON(text: string): string {
+  const literals: Record<string, string> = { True: 'true', False: 'false', None: 'null', undefined: 'null' };
+  let output = '';
+  let i = 0;
+
+  const skipWhitespaceAndComments = (from: number): number => {
+    let j = from;
+    while (j < text.length) {
+      if (/\s/.test(text[j])) j++;
+      else if (text.startsWith('//', j)) j = text.indexOf('\n', j) === -1 ? text.length : text.indexOf('\n', j);
+      else if (text.startsWith('/*', j)) j = text.indexOf('*/', j) === -1 ? text.length : text.indexOf('*/', j) + 2;
+      else break;
+    }
+    return j;
+  };
+
+  const lastSignificant = () => output.trimEnd().slice(-1);
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '"' || char === "'") {
+      // Re-emit the string with double quotes, escaping what JSON requires
+      let value = '';
+      let j = i + 1;
+      while (j < text.length && text[j] !== char) {
+        if (text[j] === '\\' && j + 1 < text.length) {
+          // \' is not a valid JSON escape
+          value += text[j + 1] === "'" ? "'" : text.slice(j, j + 2);
+          j += 2;
+        } else {
+          const stringChar = text[j++];
+          value += stringChar === '"' ? '\\"' : stringChar === '\n' ? '\\n' : stringChar === '\r' ? '\\r' : stringChar === '\t' ? '\\t' : stringChar;
+        }
+      }
+      output += `"${value}"`;
+      i = j + 1;
+    } else if (text.startsWith('//', i) || text.startsWith('/*', i)) {
+      i = skipWhitespaceAndComments(i);
+    } else if (char === ',') {
+      // Drop trailing commas before a closing bracket
+      const next = text[skipWhitespaceAndComments(i + 1)];
+      if (next !== '}' && next !== ']') output += char;
+      i++;
+    } else if (/[A-Za-z_$]/.test(char)) {
+      const identifier = text.slice(i).match(/^[A-Za-z_$][\w$]*/)![0];
+      const isKey = text[skipWhitespaceAndComments(i + identifier.length)] === ':' && ['{', ','].includes(lastSignificant());
+      output += isKey ? `"${identifier}"` : literals[identifier] ?? identifier;
+      i += identifier.length;
+    } else {
+      output += char;
+      i++;
+    }
+  }
+
+  return output;
+}
@@ -0,0 +1,244 @@
+// Database-backed storage for knowledge base documents
+// Every change is mirrored into the in-memory vector index used for retrieval
+// and drops cached analyses that were built on the affected domain
+
+import type { KnowledgeDocument as KnowledgeDocumentRecord, Prisma } from '@prisma/client';
+import { db } from './db';
+import { analysisCache } from './analysis-cache';
+import { vectorDb, KnowledgeDocument, DocumentProvenance } from './vector-db';
+import { generateEmbedding } from './embeddings';
+import type { DomainPackKnowledge } from './domain-packs';
+
+export const KNOWLEDGE_DOCUMENT_TYPES = ['feature', 'requirement', 'user_story', 'best_practice'] as const;
+
+export type KnowledgeDocumentType = typeof KNOWLEDGE_DOCUMENT_TYPES[number];
+
+export interface KnowledgeDocumentInput {
+  id?: string;
+  domain: string;
+  content: string;
+  source: string;
+  type: KnowledgeDocumentType;
+  tags?: string[];
+  provenance?: DocumentProvenance;
+}
+
+export interface KnowledgeDocumentFilters {
+  domain?: string | null;
+  type?: string | null;
+  tags?: string[];
+}
+
+export function isKnowledgeDocumentType(type: unknown): type is KnowledgeDocumentType {
+  return typeof type === 'string' && (KNOWLEDGE_DOCUMENT_TYPES as readonly string[]).includes(type);
+}
+
+// Convert a database row into a knowledge document
+export function toKnowledgeDocument(record: any): KnowledgeDocument {
+  return {
+    id: record.id,
+    domain: record.domain,
+    content: record.content,
+    metadata: {
+      source: record.source,
+      type: record.type,
+      tags: record.tags ? JSON.parse(record.tags) : [],
+      ...(record.provenance ? { provenance: JSON.parse(record.provenance) } : {})
+    },
+    embedding: record.embedding ? JSON.parse(record.embedding) : []
+  };
+}
+
+// Strip the embedding vector before returning a document from the API
+export function toPublicDocument(document: KnowledgeDocument) {
+  const { embedding, ...rest } = document;
+  return rest;
+}
+
+function toRecordData(input: KnowledgeDocumentInput) {
+  return {
+    domain: input.domain,
+    content: input.content,
+    source: input.source,
+    type: input.type,
+    tags: JSON.stringify(input.tags || []),
+    provenance: input.provenance ? JSON.stringify(input.provenance) : null,
+    sourceFile: input.provenance?.fileName ?? null,
+    embedding: serializeEmbedding(generateEmbedding(input.content))
+  };
+}
+
+// Round vector components so stored embeddings stay compact
+function serializeEmbedding(embedding: number[]): string {
+  return JSON.stringify(embedding.map(value => Math.round(value * 1e6) / 1e6));
+}
+
+export interface KnowledgeDocumentPage {
+  documents: KnowledgeDocument[];
+  total: number;
+}
+
+// Tags are stored as a JSON array; a tag matches as a quoted array element
+function toWhere(filters: KnowledgeDocumentFilters): Prisma.KnowledgeDocumentWhereInput {
+  return {
+    ...(filters.domain ? { domain: filters.domain } : {}),
+    ...(filters.type ? { type: filters.type } : {}),
+    ...(filters.tags && filters.tags.length > 0
+      ? { AND: filters.tags.map(tag => ({ tags: { contains: JSON.stringify(tag) } })) }
+      : {})
+  };
+}
+
+export async function listKnowledgeDocuments(filters: KnowledgeDocumentFilters = {}): Promise<KnowledgeDocument[]> {
+  const records = await db.knowledgeDocument.findMany({
+    where: toWhere(filters),
+    orderBy: { createdAt: 'asc' }
+  });
+  return records.map(toKnowledgeDocument);
+}
+
+// One page of the matching documents, oldest first, with the number of matches
+export async function pageKnowledgeDocuments(
+  filters: KnowledgeDocumentFilters,
+  { skip, take }: { skip: number; take: number }
+): Promise<KnowledgeDocumentPage> {
+  const where = toWhere(filters);
+  const [records, total] = await db.$transaction([
+    db.knowledgeDocument.findMany({ where, orderBy: { createdAt: 'asc' }, skip, take }),
+    db.knowledgeDocument.count({ where })
+  ]);
+  return { documents: records.map(toKnowledgeDocument), total };
+}
+
+export async function getKnowledgeDocument(id: string): Promise<KnowledgeDocument | null> {
+  const record = await db.knowledgeDocument.findUnique({ where: { id } });
+  return record ? toKnowledgeDocument(record) : null;
+}
+
+export async function createKnowledgeDocument(input: KnowledgeDocumentInput): Promise<KnowledgeDocument> {
+  const record = await db.knowledgeDocument.create({
+    data: {
+      ...(input.id ? { id: input.id } : {}),
+      ...toRecordData(input)
+    }
+  });
+
+  const document = toKnowledgeDocument(record);
+  await vectorDb.addDocuments([document]);
+  analysisCache.invalidateKnowledge(document.domain);
+  return document;
+}
+
+export async function updateKnowledgeDocument(
+  id: string,
+  changes: Partial<KnowledgeDocumentInput>
+): Promise<KnowledgeDocument | null> {
+  const existing = await getKnowledgeDocument(id);
+  if (!existing) {
+    return null;
+  }
+
+  const merged: KnowledgeDocumentInput = {
+    domain: changes.domain ?? existing.domain,
+    content: changes.content ?? existing.content,
+    source: changes.source ?? existing.metadata.source,
+    type: changes.type ?? existing.metadata.type,
+    tags: changes.tags ?? existing.metadata.tags,
+    provenance: existing.metadata.provenance
+  };
+
+  const record = await db.knowledgeDocument.update({
+    where: { id },
+    data: toRecordData(merged)
+  });
+
+  const document = toKnowledgeDocument(record);
+  await vectorDb.addDocuments([document]);
+  // A document moved between domains affects analyses in both
+  analysisCache.invalidateKnowledge(existing.domain);
+  analysisCache.invalidateKnowledge(document.domain);
+  return document;
+}
+
+export async function deleteKnowledgeDocument(id: string): Promise<boolean> {
+  const existing = await db.knowledgeDocument.findUnique({ where: { id } });
+  if (!existing) {
+    return false;
+  }
+
+  await db.knowledgeDocument.delete({ where: { id } });
+  vectorDb.removeDocument(id);
+  analysisCache.invalidateKnowledge(existing.domain);
+  return true;
+}
+
+// Store the chunks of an ingested file in one transaction, replacing the chunks
+// an earlier ingest of the same file name into the same domain left behind
+export async function replaceIngestedDocuments(fileName: string, domain: string, inputs: KnowledgeDocumentInput[]): Promise<KnowledgeDocument[]> {
+  const { previous, records } = await db.$transaction(async tx => {
+    const previous = await tx.knowledgeDocument.findMany({
+      where: { sourceFile: fileName, domain },
+      select: { id: true }
+    });
+    await tx.knowledgeDocument.deleteMany({ where: { sourceFile: fileName, domain } });
+
+    const records: KnowledgeDocumentRecord[] = [];
+    for (const input of inputs) {
+      records.push(await tx.knowledgeDocument.create({ data: toRecordData(input) }));
+    }
+    return { previous, records };
+  });
+
+  previous.forEach(record => vectorDb.removeDocument(record.id));
+  const documents = records.map(toKnowledgeDocument);
+  await vectorDb.addDocuments(documents);
+
+  analysisCache.invalidateKnowledge(domain);
+  return documents;
+}
+
+// Seed the knowledge of each domain pack version once. A newer pack version
+// rewrites its own documents and leaves the others of the domain alone. A
+// domain that has documents but no seeding record was seeded before versions
+// were recorded; it is only recorded, so edits made since are kept.
+export async function seedKnowledgeDocuments(packs: DomainPackKnowledge[]): Promise<number> {
+  const seededVersions = new Map(
+    (await db.seededDomainPack.findMany()).map(record => [record.domain, record.version])
+  );
+
+  let seededCount = 0;
+  for (const pack of packs) {
+    const seededVersion = seededVersions.get(pack.domain);
+    if (seededVersion !== undefined && seededVersion >= pack.version) {
+      continue;
+    }
+
+    const alreadySeeded = seededVersion === undefined &&
+      (await db.knowledgeDocument.count({ where: { domain: pack.domain } })) > 0;
+    const writes = alreadySeeded ? [] : pack.documents.map(doc => {
+      const data = toRecordData({
+        domain: doc.domain,
+        content: doc.content,
+        source: doc.metadata.source,
+        type: doc.metadata.type,
+        tags: doc.metadata.tags
+      });
+      return db.knowledgeDocument.upsert({ where: { id: doc.id }, create: { id: doc.id, ...data }, update: data });
+    });
+
+    await db.$transaction([
+      ...writes,
+      db.seededDomainPack.upsert({
+        where: { domain: pack.domain },
+        create: { domain: pack.domain, version: pack.version },
+        update: { version: pack.version, seededAt: new Date() }
+      })
+    ]);
+    seededCount += writes.length;
+  }
+
+  if (seededCount > 0) {
+    console.log(`Seeded knowledge base with ${seededCount} documents`);
+  }
+  return seededCount;
+}
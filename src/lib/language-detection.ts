@@ -0,0 +1,164 @@
+// Language detection and cross-lingual matching for ideas in other languages
+// The classifier, coverage checks and knowledge base only know English, so
+// words of a detected language are mapped to English through its pack's
+// glossary ("pivot" text) before they are matched. Unknown words are kept, so
+// names and English loanwords still match. Prompts keep the original text.
+
+import { DEFAULT_LANGUAGE, LanguagePack, getLanguagePack, listLanguagePacks } from './language-packs';
+
+// Requests the output in the language the idea was written in
+export const AUTO_LANGUAGE = 'auto';
+
+// Stopwords needed before a language other than the default is assumed
+const MIN_STOPWORD_HITS = 2;
+
+// Glossary terms shorter than this only match whole words
+const MIN_STEM_LENGTH = 4;
+
+// Inflection a glossary term may carry and still match ("transferencias")
+const MAX_INFLECTION_LENGTH = 3;
+
+// Share of a compound word glossary terms must account for to be translated
+const MIN_COMPOUND_COVERAGE = 0.6;
+
+export interface LanguageScore {
+  language: string;
+  // Share of the words that are stopwords of the language
+  score: number;
+}
+
+export interface LanguageDetection {
+  language: string;
+  // Share of the stopwords found that belong to the language; 0 without evidence
+  confidence: number;
+  scores: LanguageScore[];
+}
+
+interface GlossaryIndex {
+  pattern: RegExp;
+  terms: Map<string, string>;
+  // Terms that may carry inflections or appear inside compounds, longest first
+  stems: string[];
+}
+
+const glossaryIndexes = new Map<string, GlossaryIndex>();
+
+// Lowercase without accents, so "Überweisung" and "uberweisung" match
+export function foldText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/ß/g, 'ss')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '');
+}
+
+function words(folded: string): string[] {
+  return folded.match(/[a-z0-9]+/g) || [];
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function glossaryIndex(pack: LanguagePack): GlossaryIndex {
+  const existing = glossaryIndexes.get(pack.language);
+  if (existing) return existing;
+
+  const terms = new Map(Object.entries(pack.glossary).map(([term, english]) => [foldText(term), english]));
+  const phrases = Array.from(terms.keys())
+    .filter(term => term.includes(' '))
+    .sort((a, b) => b.length - a.length);
+
+  // Phrases first, so "tarjeta de credito" is not translated word by word
+  const index: GlossaryIndex = {
+    pattern: new RegExp(`${phrases.map(phrase => `\\b${escapeRegExp(phrase)}\\b`).concat('[a-z0-9]+').join('|')}`, 'g'),
+    terms,
+    stems: Array.from(terms.keys())
+      .filter(term => !term.includes(' ') && term.length >= MIN_STEM_LENGTH)
+      .sort((a, b) => b.length - a.length)
+  };
+  glossaryIndexes.set(pack.language, index);
+  return index;
+}
+
+// Split a compound into glossary terms, longest match first at each position
+function splitCompound(word: string, index: GlossaryIndex): string[] {
+  const parts: string[] = [];
+  let covered = 0;
+  let position = 0;
+
+  while (position < word.length) {
+    const stem = index.stems.find(candidate => word.startsWith(candidate, position));
+    if (stem) {
+      parts.push(index.terms.get(stem)!);
+      covered += stem.length;
+      position += stem.length;
+    } else {
+      position++;
+    }
+  }
+
+  return covered / word.length >= MIN_COMPOUND_COVERAGE ? parts : [];
+}
+
+function translateWord(word: string, index: GlossaryIndex, compounds: boolean): string {
+  const exact = index.terms.get(word);
+  if (exact) return exact;
+
+  const inflected = index.stems.find(stem => word.startsWith(stem) && word.length - stem.length <= MAX_INFLECTION_LENGTH);
+  if (inflected) return index.terms.get(inflected)!;
+
+  if (compounds) {
+    const parts = splitCompound(word, index);
+    if (parts.length > 0) return parts.join(' ');
+  }
+  return word;
+}
+
+// Language of a text from the share of each language's stopwords in it
+export function detectLanguage(text: string): LanguageDetection {
+  const tokens = words(foldText(text));
+  const counts = listLanguagePacks().map(pack => {
+    const stopwords = new Set(pack.stopwords);
+    return { language: pack.language, hits: tokens.filter(token => stopwords.has(token)).length };
+  });
+
+  const total = counts.reduce((sum, count) => sum + count.hits, 0);
+  const scores = counts
+    .map(count => ({ language: count.language, score: tokens.length > 0 ? Number((count.hits / tokens.length).toFixed(3)) : 0 }))
+    .sort((a, b) => b.score - a.score);
+  const best = counts.sort((a, b) => b.hits - a.hits)[0];
+
+  if (!best || best.hits < MIN_STOPWORD_HITS) {
+    return { language: DEFAULT_LANGUAGE, confidence: 0, scores };
+  }
+  return { language: best.language, confidence: Number((best.hits / total).toFixed(3)), scores };
+}
+
+// Text with the glossary words of its language replaced by English ones; English
+// text and languages without a pack are returned unchanged
+export function pivotToEnglish(text: string, language = detectLanguage(text).language): string {
+  const pack = language === DEFAULT_LANGUAGE ? undefined : getLanguagePack(language);
+  if (!pack || Object.keys(pack.glossary).length === 0) {
+    return text;
+  }
+
+  const index = glossaryIndex(pack);
+  return foldText(text).replace(index.pattern, match => index.terms.get(match) ?? translateWord(match, index, pack.compounds));
+}
+
+// Check a requested output language; returns an error message or null
+export function validateOutputLanguage(value: unknown): string | null {
+  if (value === undefined || value === AUTO_LANGUAGE) {
+    return null;
+  }
+  if (typeof value !== 'string' || !getLanguagePack(value)) {
+    const supported = listLanguagePacks().map(pack => pack.language);
+    return `outputLanguage must be "${AUTO_LANGUAGE}" or one of: ${supported.join(', ')}`;
+  }
+  return null;
+}
+
+// Pack of the language to write the specification in; "auto" follows the idea
+export function resolveOutputLanguage(requested: string | undefined, detected: string): LanguagePack | undefined {
+  if (!requested) return undefined;
+  return getLanguagePack(requested === AUTO_LANGUAGE ? detected : requested);
+}
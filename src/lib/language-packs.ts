@@ -0,0 +1,88 @@
+// Language packs: one JSON file per language in language-packs/ (or
+// LANGUAGE_PACKS_DIR) with the stopwords used to detect the language, a
+// glossary that maps its words to English so the English-only classifier and
+// knowledge base understand them, and the fallback user story template.
+// Adding a language means adding a file; packs are validated when first loaded.
+
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+
+// Language of the knowledge base, the classifier and prompts
+export const DEFAULT_LANGUAGE = 'en';
+
+const languagePackSchema = z.object({
+  language: z.string().regex(/^[a-z]{2,3}$/, 'Language must be an ISO 639 code'),
+  // English name, used in prompts ("Write ... in Spanish")
+  name: z.string().min(1),
+  nativeName: z.string().min(1),
+  // Whether words are compounds of glossary terms (German "Bankkonto")
+  compounds: z.boolean().default(false),
+  // Lowercase, without accents
+  stopwords: z.array(z.string().min(1)).min(1),
+  // Lowercase words or phrases without accents -> English
+  glossary: z.record(z.string(), z.string().min(1)).default({}),
+  // {userType} and {feature} (lowercase) or {featureName} (as generated)
+  userStory: z.string().min(1)
+});
+
+export type LanguagePack = z.infer<typeof languagePackSchema>;
+
+let cachedPacks: Map<string, LanguagePack> | null = null;
+
+function packsDirectory(): string {
+  return path.resolve(process.env.LANGUAGE_PACKS_DIR || 'language-packs');
+}
+
+function parsePackFile(filePath: string): LanguagePack {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Invalid language pack ${filePath}: ${error instanceof Error ? error.message : 'unreadable file'}`);
+  }
+
+  const parsed = languagePackSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new Error(`Invalid language pack ${filePath}: ${issues.join('; ')}`);
+  }
+  return parsed.data;
+}
+
+// Load and validate every pack once; without packs every idea is treated as English
+export function loadLanguagePacks(): Map<string, LanguagePack> {
+  if (cachedPacks) {
+    return cachedPacks;
+  }
+
+  const directory = packsDirectory();
+  const packs = new Map<string, LanguagePack>();
+
+  if (!existsSync(directory)) {
+    console.warn(`Language pack directory ${directory} not found; every idea will be treated as English`);
+  } else {
+    const fileNames = readdirSync(directory).filter(name => name.endsWith('.json')).sort();
+
+    for (const fileName of fileNames) {
+      const filePath = path.join(directory, fileName);
+      const pack = parsePackFile(filePath);
+
+      if (packs.has(pack.language)) {
+        throw new Error(`Invalid language pack ${filePath}: language "${pack.language}" is defined twice`);
+      }
+      packs.set(pack.language, pack);
+    }
+  }
+
+  cachedPacks = packs;
+  return cachedPacks;
+}
+
+export function getLanguagePack(language: string): LanguagePack | undefined {
+  return loadLanguagePacks().get(language);
+}
+
+export function listLanguagePacks(): LanguagePack[] {
+  return Array.from(loadLanguagePacks().values());
+}
@@ -0,0 +1,94 @@
+import { FixtureReplayProvider } from './fixture-provider';
+import { OpenAICompatibleProvider } from './openai-compatible-provider';
+import { ZAIProvider } from './zai-provider';
+import { LLMProvider, LLMMessage, LLMCompletionRequest, LLMCompletionResponse } from './provider';
+import { LLMRoute, loadLLMConfig, getRouteSettings } from './config';
+
+const providers = new Map<string, LLMProvider>();
+
+// Get (and cache) a configured provider by name
+export function getLLMProvider(name: string): LLMProvider {
+  const existing = providers.get(name);
+  if (existing) {
+    return existing;
+  }
+
+  const config = loadLLMConfig().providers[name];
+  if (!config) {
+    throw new Error(`Unknown LLM provider "${name}"`);
+  }
+
+  let provider: LLMProvider;
+  switch (config.type) {
+    case 'zai':
+      provider = new ZAIProvider();
+      break;
+    case 'openai-compatible':
+      provider = new OpenAICompatibleProvider({
+        name,
+        baseUrl: config.baseUrl,
+        apiKey: config.apiKeyEnv ? process.env[config.apiKeyEnv] : undefined,
+        model: config.model
+      });
+      break;
+    case 'fixture':
+      provider = FixtureReplayProvider.fromFile(config.path, name);
+      break;
+  }
+
+  providers.set(name, provider);
+  return provider;
+}
+
+export interface RouteCallOptions {
+  // Overrides the provider configured for the route
+  provider?: LLMProvider;
+  signal?: AbortSignal;
+}
+
+// Identify the provider and model answering a route, e.g. for cache keys
+export function getRouteModelId(route: LLMRoute, provider?: LLMProvider): string {
+  const settings = getRouteSettings(route);
+  return `${provider?.name ?? settings.provider}:${settings.model ?? 'default'}`;
+}
+
+function buildRequest(route: LLMRoute, messages: LLMMessage[], signal?: AbortSignal): LLMCompletionRequest {
+  const settings = getRouteSettings(route);
+  return {
+    messages,
+    model: settings.model,
+    temperature: settings.temperature,
+    maxTokens: settings.maxTokens,
+    timeoutMs: settings.timeoutMs,
+    signal
+  };
+}
+
+// Run a chat completion with the provider and settings configured for a route
+export async function completeForRoute(
+  route: LLMRoute,
+  messages: LLMMessage[],
+  options: RouteCallOptions = {}
+): Promise<LLMCompletionResponse> {
+  const provider = options.provider ?? getLLMProvider(getRouteSettings(route).provider);
+  return provider.complete(buildRequest(route, messages, options.signal));
+}
+
+// Stream a chat completion for a route, falling back to a single chunk
+// for providers that cannot stream
+export async function* streamForRoute(
+  route: LLMRoute,
+  messages: LLMMessage[],
+  options: RouteCallOptions = {}
+): AsyncGenerator<string> {
+  const provider = options.provider ?? getLLMProvider(getRouteSettings(route).provider);
+  const request = buildRequest(route, messages, options.signal);
+
+  if (provider.stream) {
+    yield* provider.stream(request);
+    return;
+  }
+
+  const response = await provider.complete(request);
+  yield response.content;
+}
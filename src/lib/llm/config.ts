@@ -0,0 +1,106 @@
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+
+// Routes that call an LLM; each can use its own provider and settings
+export type LLMRoute = 'rag-analysis' | 'requirements-analysis';
+
+const providerSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('zai') }),
+  z.object({
+    type: z.literal('openai-compatible'),
+    baseUrl: z.string().url(),
+    // Name of the environment variable holding the API key, so keys stay out of the file
+    apiKeyEnv: z.string().optional(),
+    model: z.string().optional()
+  }),
+  z.object({
+    type: z.literal('fixture'),
+    path: z.string()
+  })
+]);
+
+const routeSchema = z.object({
+  provider: z.string().optional(),
+  model: z.string().optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  maxTokens: z.number().int().positive().optional(),
+  contextWindow: z.number().int().positive().optional(),
+  timeoutMs: z.number().int().positive().optional(),
+  maxRepairAttempts: z.number().int().min(0).optional()
+});
+
+const configSchema = z.object({
+  providers: z.record(z.string(), providerSchema).default({}),
+  routes: z.record(z.string(), routeSchema).default({})
+});
+
+export type ProviderConfig = z.infer<typeof providerSchema>;
+
+export interface RouteSettings {
+  provider: string;
+  model?: string;
+  temperature: number;
+  maxTokens: number;
+  // Total tokens the model accepts; prompts are budgeted to fit alongside maxTokens
+  contextWindow: number;
+  timeoutMs: number;
+  // Times invalid output is sent back to the model with its validation errors
+  maxRepairAttempts: number;
+}
+
+export interface LLMConfig {
+  providers: Record<string, ProviderConfig>;
+  routes: Record<string, Partial<RouteSettings>>;
+}
+
+// Built-in defaults, matching the values the routes used before configuration existed
+const DEFAULT_ROUTE_SETTINGS: Record<LLMRoute, RouteSettings> = {
+  'rag-analysis': { provider: 'zai', temperature: 0.3, maxTokens: 2000, contextWindow: 8192, timeoutMs: 30000, maxRepairAttempts: 2 },
+  'requirements-analysis': { provider: 'zai', temperature: 0.3, maxTokens: 1500, contextWindow: 8192, timeoutMs: 30000, maxRepairAttempts: 2 }
+};
+
+const DEFAULT_PROVIDERS: Record<string, ProviderConfig> = {
+  zai: { type: 'zai' }
+};
+
+let cachedConfig: LLMConfig | null = null;
+
+// Load llm.config.json (or LLM_CONFIG_PATH) once; a missing file means built-in defaults
+export function loadLLMConfig(): LLMConfig {
+  if (cachedConfig) {
+    return cachedConfig;
+  }
+
+  const configPath = path.resolve(process.env.LLM_CONFIG_PATH || 'llm.config.json');
+  let fileConfig: z.infer<typeof configSchema> = { providers: {}, routes: {} };
+
+  if (existsSync(configPath)) {
+    const parsed = configSchema.safeParse(JSON.parse(readFileSync(configPath, 'utf-8')));
+    if (!parsed.success) {
+      throw new Error(`Invalid LLM configuration in ${configPath}: ${parsed.error.message}`);
+    }
+    fileConfig = parsed.data;
+  }
+
+  cachedConfig = {
+    providers: { ...DEFAULT_PROVIDERS, ...fileConfig.providers },
+    routes: fileConfig.routes
+  };
+  return cachedConfig;
+}
+
+// Resolve the settings for a route: defaults, then the config file, then LLM_PROVIDER
+export function getRouteSettings(route: LLMRoute): RouteSettings {
+  const config = loadLLMConfig();
+  const settings = { ...DEFAULT_ROUTE_SETTINGS[route], ...config.routes[route] };
+
+  if (process.env.LLM_PROVIDER) {
+    settings.provider = process.env.LLM_PROVIDER;
+  }
+  if (!config.providers[settings.provider]) {
+    throw new Error(`LLM route "${route}" uses unknown provider "${settings.provider}"`);
+  }
+
+  return settings;
+}
@@ -0,0 +1,70 @@
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { LLMProvider, LLMCompletionRequest, LLMCompletionResponse, LLMMessage } from './provider';
+
+// Characters per chunk when a fixture is replayed as a stream
+const STREAM_CHUNK_SIZE = 32;
+
+export interface LLMFixture {
+  // Matches when the prompt hash equals this value
+  promptHash?: string;
+  // Matches when the last user message contains this text
+  match?: string;
+  response: string;
+}
+
+export interface FixtureFile {
+  fixtures: LLMFixture[];
+  default?: string;
+}
+
+// Stable hash of the conversation, used to key recorded responses
+export function hashPrompt(messages: LLMMessage[]): string {
+  return createHash('sha256')
+    .update(messages.map(message => `${message.role}:${message.content}`).join('\n'))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+// Replays recorded responses so tests and evaluations never call a real model
+export class FixtureReplayProvider implements LLMProvider {
+  readonly name: string;
+  private fixtures: FixtureFile;
+
+  constructor(fixtures: FixtureFile, name: string = 'fixture') {
+    this.fixtures = fixtures;
+    this.name = name;
+  }
+
+  static fromFile(path: string, name?: string): FixtureReplayProvider {
+    return new FixtureReplayProvider(JSON.parse(readFileSync(path, 'utf-8')), name);
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResponse> {
+    const promptHash = hashPrompt(request.messages);
+    const lastUserMessage = [...request.messages].reverse().find(message => message.role === 'user')?.content || '';
+
+    const fixture =
+      this.fixtures.fixtures.find(candidate => candidate.promptHash === promptHash) ||
+      this.fixtures.fixtures.find(candidate => candidate.match && lastUserMessage.includes(candidate.match));
+
+    const content = fixture?.response ?? this.fixtures.default;
+    if (content === undefined) {
+      throw new Error(`No LLM fixture matches prompt ${promptHash}`);
+    }
+
+    return {
+      content,
+      provider: this.name,
+      model: request.model
+    };
+  }
+
+  // Replay in small chunks so streaming consumers can be exercised deterministically
+  async *stream(request: LLMCompletionRequest): AsyncGenerator<string> {
+    const { content } = await this.complete(request);
+    for (let i = 0; i < content.length; i += STREAM_CHUNK_SIZE) {
+      yield content.slice(i, i + STREAM_CHUNK_SIZE);
+    }
+  }
+}
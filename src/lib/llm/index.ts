@@ -0,0 +1,10 @@
+export * from './provider';
+export { getLLMProvider, getRouteModelId, completeForRoute, streamForRoute } from './completion';
+export type { RouteCallOptions } from './completion';
+export { completeStructured, parseStructuredOutput, StructuredOutputError } from './structured';
+export type { StructuredCompletion, StructuredCallOptions, RepairStep } from './structured';
+export { FixtureReplayProvider, hashPrompt } from './fixture-provider';
+export { OpenAICompatibleProvider } from './openai-compatible-provider';
+export { ZAIProvider } from './zai-provider';
+export { getRouteSettings } from './config';
+export type { LLMRoute, RouteSettings } from './config';
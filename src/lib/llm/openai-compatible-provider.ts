@@ -0,0 +1,116 @@
+import { LLMProvider, LLMCompletionRequest, LLMCompletionResponse, LLMTimeoutError, LLMCancelledError } from './provider';
+import { readChatCompletionStream } from './sse';
+
+export interface OpenAICompatibleOptions {
+  name: string;
+  baseUrl: string;
+  apiKey?: string;
+  model?: string;
+}
+
+// Any server exposing the OpenAI /chat/completions API (llama.cpp, vLLM, Ollama, ...)
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string;
+  private baseUrl: string;
+  private apiKey?: string;
+  private model?: string;
+
+  constructor(options: OpenAICompatibleOptions) {
+    this.name = options.name;
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.apiKey = options.apiKey;
+    this.model = options.model;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResponse> {
+    const { response, done } = await this.send(request, false);
+
+    try {
+      const data = await response.json();
+      return {
+        content: data.choices?.[0]?.message?.content || '',
+        provider: this.name,
+        model: data.model || request.model || this.model
+      };
+    } catch (error) {
+      throw this.translateError(error, request);
+    } finally {
+      done();
+    }
+  }
+
+  async *stream(request: LLMCompletionRequest): AsyncGenerator<string> {
+    const { response, done } = await this.send(request, true);
+
+    try {
+      if (!response.body) {
+        throw new Error(`LLM provider "${this.name}" returned an empty stream`);
+      }
+      yield* readChatCompletionStream(response.body);
+    } catch (error) {
+      throw this.translateError(error, request);
+    } finally {
+      done();
+    }
+  }
+
+  // POST the request; the timeout and the caller's signal both abort it. No
+  // reason is given, so fetch rejects with an AbortError that translateError maps.
+  private async send(request: LLMCompletionRequest, stream: boolean) {
+    const controller = new AbortController();
+    const timer = request.timeoutMs ? setTimeout(() => controller.abort(), request.timeoutMs) : undefined;
+    const onAbort = () => controller.abort();
+    request.signal?.addEventListener('abort', onAbort, { once: true });
+
+    const done = () => {
+      clearTimeout(timer);
+      request.signal?.removeEventListener('abort', onAbort);
+    };
+
+    try {
+      if (request.signal?.aborted) {
+        throw new LLMCancelledError(this.name);
+      }
+
+      const response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+        },
+        body: JSON.stringify({
+          model: request.model || this.model,
+          messages: request.messages,
+          max_tokens: request.maxTokens,
+          temperature: request.temperature,
+          ...(stream ? { stream: true } : {})
+        }),
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        const errorBody = await response.text();
+        throw new Error(`LLM provider "${this.name}" failed with status ${response.status}: ${errorBody}`);
+      }
+
+      return { response, done };
+    } catch (error) {
+      done();
+      throw this.translateError(error, request);
+    }
+  }
+
+  // Report aborted requests as a timeout or a cancellation rather than a fetch error
+  private translateError(error: unknown, request: LLMCompletionRequest): unknown {
+    if (error instanceof LLMCancelledError || error instanceof LLMTimeoutError) {
+      return error;
+    }
+    if (request.signal?.aborted) {
+      return new LLMCancelledError(this.name);
+    }
+    if (error instanceof Error && error.name === 'AbortError') {
+      return new LLMTimeoutError(this.name, request.timeoutMs!);
+    }
+    return error;
+  }
+}
@@ -0,0 +1,71 @@
+// Provider-neutral types for chat completion calls
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMCompletionRequest {
+  messages: LLMMessage[];
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  timeoutMs?: number;
+  // Aborts the request, e.g. when the user cancels an analysis
+  signal?: AbortSignal;
+}
+
+export interface LLMCompletionResponse {
+  content: string;
+  provider: string;
+  model?: string;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletionResponse>;
+  // Yield content deltas as they arrive; providers without it are streamed as one chunk
+  stream?(request: LLMCompletionRequest): AsyncIterable<string>;
+}
+
+export class LLMTimeoutError extends Error {
+  constructor(provider: string, timeoutMs: number) {
+    super(`LLM provider "${provider}" timed out after ${timeoutMs}ms`);
+    this.name = 'LLMTimeoutError';
+  }
+}
+
+export class LLMCancelledError extends Error {
+  constructor(provider: string) {
+    super(`LLM request to "${provider}" was cancelled`);
+    this.name = 'LLMCancelledError';
+  }
+}
+
+// Reject with an LLMTimeoutError if the promise does not settle in time,
+// or with an LLMCancelledError as soon as the signal aborts
+export async function withTimeout<T>(promise: Promise<T>, timeoutMs: number | undefined, provider: string, signal?: AbortSignal): Promise<T> {
+  if (!timeoutMs && !signal) {
+    return promise;
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let onAbort: (() => void) | undefined;
+  const interruption = new Promise<never>((_, reject) => {
+    if (timeoutMs) {
+      timer = setTimeout(() => reject(new LLMTimeoutError(provider, timeoutMs)), timeoutMs);
+    }
+    if (signal) {
+      onAbort = () => reject(new LLMCancelledError(provider));
+      if (signal.aborted) onAbort();
+      else signal.addEventListener('abort', onAbort, { once: true });
+    }
+  });
+
+  try {
+    return await Promise.race([promise, interruption]);
+  } finally {
+    clearTimeout(timer);
+    if (signal && onAbort) signal.removeEventListener('abort', onAbort);
+  }
+}
@@ -0,0 +1,34 @@
+// Parse an OpenAI-style server-sent event stream of chat completion chunks
+export async function* readChatCompletionStream(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) continue;
+
+        const data = trimmed.slice('data:'.length).trim();
+        if (data === '[DONE]') return;
+
+        try {
+          const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+          if (delta) yield delta;
+        } catch {
+          console.warn('Skipping malformed stream chunk:', data);
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,122 @@
+import { z } from 'zod';
+import { extractJSON, JSONExtractionError } from '../json-utils';
+import { LLMMessage, LLMCancelledError } from './provider';
+import { LLMRoute, getRouteSettings } from './config';
+import { completeForRoute, streamForRoute, RouteCallOptions } from './completion';
+
+// Cap on validation errors quoted back to the model
+const MAX_REPORTED_ERRORS = 20;
+
+export interface StructuredCompletion<T> {
+  data: T;
+  // Number of model calls, including repairs
+  attempts: number;
+  raw: string;
+  // Outputs that failed validation and were sent back for repair
+  repairs: RepairStep[];
+}
+
+export interface RepairStep {
+  attempt: number;
+  output: string;
+  errors: string[];
+}
+
+export interface StructuredCallOptions extends RouteCallOptions {
+  // Stream each attempt, receiving content deltas tagged with the attempt number
+  onDelta?: (delta: string, attempt: number) => void;
+  // Called before a repair attempt with the errors sent back to the model
+  onRepair?: (attempt: number, errors: string[]) => void;
+}
+
+export class StructuredOutputError extends Error {
+  constructor(route: LLMRoute, readonly errors: string[], readonly attempts: number, readonly repairs: RepairStep[] = []) {
+    super(`LLM output for "${route}" failed validation after ${attempts} attempt(s): ${errors.join('; ')}`);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+type ParseResult<T> = { success: true; data: T } | { success: false; errors: string[] };
+
+// Extract JSON from a response and validate it, returning readable errors on failure
+export function parseStructuredOutput<S extends z.ZodType>(content: string, schema: S): ParseResult<z.output<S>> {
+  let json: unknown;
+  try {
+    json = extractJSON(content);
+  } catch (error) {
+    return { success: false, errors: [error instanceof JSONExtractionError ? error.message : 'Response could not be parsed'] };
+  }
+
+  const result = schema.safeParse(json);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return {
+    success: false,
+    errors: result.error.issues
+      .slice(0, MAX_REPORTED_ERRORS)
+      .map(issue => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+  };
+}
+
+// Complete a route and validate the JSON output, re-prompting with the exact
+// validation errors until it passes or the route's repair attempts run out
+export async function completeStructured<S extends z.ZodType>(
+  route: LLMRoute,
+  messages: LLMMessage[],
+  schema: S,
+  options: StructuredCallOptions = {}
+): Promise<StructuredCompletion<z.output<S>>> {
+  const { maxRepairAttempts } = getRouteSettings(route);
+  const conversation = [...messages];
+  let errors: string[] = [];
+  let attempts = 0;
+  const repairs: RepairStep[] = [];
+
+  while (attempts <= maxRepairAttempts) {
+    if (options.signal?.aborted) {
+      throw new LLMCancelledError(route);
+    }
+
+    attempts++;
+    if (attempts > 1) {
+      options.onRepair?.(attempts, errors);
+    }
+
+    const content = await requestContent(route, conversation, options, attempts);
+    const result = parseStructuredOutput(content, schema);
+
+    if (result.success) {
+      return { data: result.data, attempts, raw: content, repairs };
+    }
+
+    errors = result.errors;
+    repairs.push({ attempt: attempts, output: content, errors });
+    console.warn(`LLM output for ${route} failed validation (attempt ${attempts}):`, errors);
+
+    conversation.push(
+      { role: 'assistant', content },
+      {
+        role: 'user',
+        content: `Your previous response did not match the required JSON schema. Fix these validation errors:\n${errors.map(error => `- ${error}`).join('\n')}\n\nReturn ONLY the corrected JSON object, with no other text.`
+      }
+    );
+  }
+
+  throw new StructuredOutputError(route, errors, attempts, repairs);
+}
+
+// Fetch one response, streaming it through onDelta when requested
+async function requestContent(route: LLMRoute, messages: LLMMessage[], options: StructuredCallOptions, attempt: number): Promise<string> {
+  if (!options.onDelta) {
+    return (await completeForRoute(route, messages, options)).content;
+  }
+
+  let content = '';
+  for await (const delta of streamForRoute(route, messages, options)) {
+    content += delta;
+    options.onDelta(delta, attempt);
+  }
+  return content;
+}
@@ -0,0 +1,30 @@
+import ZAI from 'z-ai-web-dev-sdk';
+import { LLMProvider, LLMCompletionRequest, LLMCompletionResponse, withTimeout } from './provider';
+
+// Hosted Z.ai chat completions through the bundled SDK. The SDK only returns
+// whole responses, so this provider has no stream() and is streamed as one chunk.
+export class ZAIProvider implements LLMProvider {
+  readonly name = 'zai';
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResponse> {
+    const zai = await ZAI.create();
+
+    const response = await withTimeout(
+      zai.chat.completions.create({
+        ...(request.model ? { model: request.model } : {}),
+        messages: request.messages,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature
+      }),
+      request.timeoutMs,
+      this.name,
+      request.signal
+    );
+
+    return {
+      content: response.choices?.[0]?.message?.content || '',
+      provider: this.name,
+      model: response.model
+    };
+  }
+}
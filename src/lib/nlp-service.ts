@@ -0,0 +1,384 @@
+// Text processing, intent recognition, entity extraction and specification
+// generation. Each asks the external NLP service (NLP_SERVICE_URL) first and
+// falls back to local heuristics when the service can't be reached. Used by the
+// /api/nlp endpoints and the stages of /api/nlp/pipeline.
+
+export interface TextProcessingOptions {
+  includeSentiment?: boolean;
+  includeKeywords?: boolean;
+  includeSummary?: boolean;
+  includeLanguage?: boolean;
+}
+
+export interface TextProcessingResult {
+  originalText: string;
+  language?: { language: string; confidence: number };
+  sentiment?: { sentiment: string; confidence: number };
+  keywords?: string[];
+  summary?: string;
+  classification?: { category: string; confidence: number };
+}
+
+export interface IntentResult {
+  text: string;
+  intent: string;
+  confidence: number;
+  entities: Array<{ type: string; text: string; confidence: number }>;
+  action: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface ExtractedEntity {
+  id: string;
+  type: string;
+  text: string;
+  confidence: number;
+  category: string;
+}
+
+export interface EntityExtractionResult {
+  domain: string;
+  entities: ExtractedEntity[];
+  relationships: unknown[];
+  confidence: number;
+}
+
+export interface SpecificationResult {
+  format: string;
+  generatedAt: string;
+  requirements: unknown;
+  specifications: Record<string, any>;
+  metadata: Record<string, unknown>;
+}
+
+// The NLP service answered but reported a failure
+export class NLPServiceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NLPServiceError';
+  }
+}
+
+// Data of the service's answer; null when it can't be reached, so the caller falls back
+async function callNLPService<T>(path: string, body: unknown): Promise<T | null> {
+  const nlpServiceUrl = process.env.NLP_SERVICE_URL || 'http://localhost:3002';
+
+  let payload: { success?: boolean; data?: T; error?: string; message?: string };
+  try {
+    const response = await fetch(`${nlpServiceUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      return null;
+    }
+    payload = await response.json();
+  } catch (error) {
+    console.log('NLP service not available, using mock data');
+    return null;
+  }
+
+  if (payload.success === false || payload.data === undefined) {
+    throw new NLPServiceError(payload.message || payload.error || `NLP service ${path} failed`);
+  }
+  return payload.data;
+}
+
+// Mock results used when the NLP service is not running
+const mockProcessingResult: TextProcessingResult = {
+  originalText: '',
+  language: { language: 'en', confidence: 0.9 },
+  sentiment: { sentiment: 'neutral', confidence: 0.7 },
+  keywords: ['app', 'mobile', 'user', 'feature'],
+  summary: 'Mobile application with various features',
+  classification: { category: 'mobile-app', confidence: 0.8 }
+};
+
+const mockIntentResult: IntentResult = {
+  text: '',
+  intent: 'create_app',
+  confidence: 0.8,
+  entities: [
+    { type: 'feature', text: 'mobile app', confidence: 0.7 },
+    { type: 'platform', text: 'iOS', confidence: 0.6 }
+  ],
+  action: 'initialize_app_creation',
+  parameters: { appType: 'mobile', platform: 'cross-platform' }
+};
+
+const mockSpecResult: SpecificationResult = {
+  format: 'json',
+  generatedAt: new Date().toISOString(),
+  requirements: {},
+  specifications: {
+    projectInfo: {
+      name: 'Mobile App Project',
+      description: 'Generated from requirements analysis',
+      version: '1.0.0',
+      type: 'mobile-application'
+    },
+    architecture: {
+      type: 'layered',
+      components: ['frontend', 'backend', 'database'],
+      patterns: ['mvc', 'repository']
+    },
+    technicalSpecs: {
+      platforms: ['iOS', 'Android'],
+      languages: ['Swift', 'Kotlin', 'JavaScript'],
+      frameworks: ['React Native', 'Node.js'],
+      databases: ['PostgreSQL', 'Redis']
+    },
+    apiSpecs: {
+      endpoints: [
+        {
+          path: '/api/auth/login',
+          method: 'POST',
+          description: 'User authentication'
+        }
+      ],
+      dataModels: {
+        User: {
+          id: 'string',
+          email: 'string',
+          name: 'string',
+          createdAt: 'datetime'
+        }
+      }
+    },
+    uiSpecs: {
+      screens: ['Login', 'Dashboard', 'Profile'],
+      components: ['Button', 'Input', 'Card'],
+      designSystem: 'Material Design'
+    },
+    dataModel: {
+      entities: ['User', 'Profile'],
+      relationships: [
+        {
+          from: 'User',
+          to: 'Profile',
+          type: 'one-to-one'
+        }
+      ]
+    },
+    security: {
+      authentication: 'JWT',
+      authorization: 'Role-based',
+      encryption: 'AES-256'
+    },
+    performance: {
+      responseTime: '< 2s',
+      scalability: '1000+ concurrent users',
+      availability: '99.9%'
+    },
+    testing: {
+      unit: 'Jest',
+      integration: 'Detox',
+      e2e: 'Appium'
+    },
+    deployment: {
+      environments: ['development', 'staging', 'production'],
+      pipeline: 'CI/CD',
+      infrastructure: 'Cloud-based'
+    },
+    monitoring: {
+      logging: 'Winston',
+      metrics: 'Prometheus',
+      alerts: 'Grafana'
+    }
+  },
+  metadata: {
+    version: '1.0',
+    generator: 'nlp-service',
+    confidence: 0.8
+  }
+};
+
+// Helper function to extract simple keywords
+function extractKeywords(text: string): string[] {
+  const words = text.toLowerCase()
+    .replace(/[^\w\s]/g, '')
+    .split(/\s+/)
+    .filter(word => word.length > 3);
+
+  const wordFreq: { [key: string]: number } = {};
+  words.forEach(word => {
+    wordFreq[word] = (wordFreq[word] || 0) + 1;
+  });
+
+  return Object.entries(wordFreq)
+    .sort(([,a], [,b]) => b - a)
+    .slice(0, 5)
+    .map(([word]) => word);
+}
+
+// Helper function to determine intent from text
+function getIntentFromText(text: string): { intent: string; confidence: number; action: string; parameters: Record<string, unknown> } {
+  const lowerText = text.toLowerCase();
+
+  if (lowerText.includes('create') || lowerText.includes('build') || lowerText.includes('make') || lowerText.includes('develop')) {
+    return {
+      intent: 'create_app',
+      confidence: 0.8,
+      action: 'initialize_app_creation',
+      parameters: { appType: 'mobile' }
+    };
+  }
+
+  if (lowerText.includes('add') || lowerText.includes('include') || lowerText.includes('want')) {
+    return {
+      intent: 'add_feature',
+      confidence: 0.7,
+      action: 'add_feature_to_app',
+      parameters: { featureType: 'general' }
+    };
+  }
+
+  return {
+    intent: 'request_info',
+    confidence: 0.5,
+    action: 'provide_information',
+    parameters: {}
+  };
+}
+
+// Helper function to extract entities from text
+function extractEntitiesFromText(text: string, domain: string): ExtractedEntity[] {
+  const lowerText = text.toLowerCase();
+  const entities: ExtractedEntity[] = [];
+
+  // Platform detection
+  const platforms = ['ios', 'android', 'web', 'cross-platform'];
+  platforms.forEach(platform => {
+    if (lowerText.includes(platform)) {
+      entities.push({
+        id: `platform_${platform}`,
+        type: 'platforms',
+        text: platform,
+        confidence: 0.7,
+        category: domain
+      });
+    }
+  });
+
+  // Feature detection
+  const features = ['fitness', 'tracking', 'shopping', 'payment', 'social', 'messaging'];
+  features.forEach(feature => {
+    if (lowerText.includes(feature)) {
+      entities.push({
+        id: `feature_${feature}`,
+        type: 'app_features',
+        text: feature,
+        confidence: 0.6,
+        category: domain
+      });
+    }
+  });
+
+  // User role detection
+  if (lowerText.includes('user') || lowerText.includes('customer')) {
+    entities.push({
+      id: 'user_role',
+      type: 'user_roles',
+      text: 'users',
+      confidence: 0.8,
+      category: domain
+    });
+  }
+
+  return entities;
+}
+
+// Helper function to generate specs from requirements
+function generateSpecsFromRequirements(requirements: any) {
+  const baseSpecs = structuredClone(mockSpecResult.specifications);
+
+  // Customize specs based on requirements
+  if (requirements.features) {
+    const totalHours = requirements.features.reduce((sum: number, f: any) => sum + (f.estimatedHours || 0), 0);
+
+    if (totalHours > 80) {
+      baseSpecs.architecture.components.push('load-balancer', 'cache-layer');
+      baseSpecs.performance.scalability = '5000+ concurrent users';
+    }
+
+    // Add specific features to technical specs
+    requirements.features.forEach((feature: any) => {
+      if (feature.name.toLowerCase().includes('payment')) {
+        baseSpecs.technicalSpecs.frameworks.push('Stripe SDK');
+        baseSpecs.security.encryption = 'AES-256 + PCI DSS';
+      }
+      if (feature.name.toLowerCase().includes('social')) {
+        baseSpecs.technicalSpecs.frameworks.push('Social Media APIs');
+      }
+    });
+  }
+
+  return baseSpecs;
+}
+
+// Language, sentiment, keywords, summary and category of a text
+export async function processText(text: string, options: TextProcessingOptions = {}): Promise<TextProcessingResult> {
+  const serviceResult = await callNLPService<TextProcessingResult>('/api/nlp/process-text', { text, options });
+  if (serviceResult) {
+    return serviceResult;
+  }
+
+  return {
+    ...structuredClone(mockProcessingResult),
+    originalText: text,
+    keywords: extractKeywords(text),
+    summary: text.length > 100 ? text.substring(0, 100) + '...' : text
+  };
+}
+
+// What the user wants done; context is merged into the intent's parameters
+export async function recognizeIntent(text: string, context: Record<string, unknown> = {}): Promise<IntentResult> {
+  const serviceResult = await callNLPService<IntentResult>('/api/nlp/recognize-intent', { text, context });
+  if (serviceResult) {
+    return serviceResult;
+  }
+
+  const intentData = getIntentFromText(text);
+  return {
+    ...structuredClone(mockIntentResult),
+    text,
+    intent: intentData.intent,
+    confidence: intentData.confidence,
+    action: intentData.action,
+    parameters: { ...intentData.parameters, ...context }
+  };
+}
+
+// Platforms, features and user roles mentioned in a text
+export async function extractEntities(text: string, domain = 'mobile-app'): Promise<EntityExtractionResult> {
+  const serviceResult = await callNLPService<EntityExtractionResult>('/api/nlp/extract-entities', { text, domain });
+  if (serviceResult) {
+    return serviceResult;
+  }
+
+  const entities = extractEntitiesFromText(text, domain);
+  return {
+    domain,
+    entities,
+    relationships: [],
+    confidence: entities.length > 0 ? 0.7 : 0.3
+  };
+}
+
+// Technical specifications for analyzed requirements
+export async function generateSpecs(requirements: Record<string, any>, format = 'json'): Promise<SpecificationResult> {
+  const serviceResult = await callNLPService<SpecificationResult>('/api/nlp/generate-specs', { requirements, format });
+  if (serviceResult) {
+    return serviceResult;
+  }
+
+  return {
+    ...structuredClone(mockSpecResult),
+    specifications: generateSpecsFromRequirements(requirements),
+    format,
+    requirements
+  };
+}
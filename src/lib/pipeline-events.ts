@@ -0,0 +1,139 @@
+// Progress events of pipeline jobs, sent to the Socket.IO room of each job
+// Events are numbered per job and kept for a while, so a client that
+// reconnects can ask for the ones it missed. The worker stores the last
+// number with the job and seeds the log from it, so numbering carries on
+// after a restart instead of starting again at 1.
+//
+// Server -> client (all payloads carry jobId, seq and timestamp):
+//   pipeline:stage-started   { stage, attempt }
+//   pipeline:stage-completed { stage, attempt, startedAt, durationMs }
+//   pipeline:failed          { status, error, attempt, nextRunAt? }  status 'queued' means a retry follows
+//   pipeline:completed       { attempt, statusUrl }                  the result is fetched from statusUrl
+
+import type { Server } from 'socket.io';
+import type { PipelineStage, StageTiming } from './complete-pipeline';
+import type { PipelineJobStatus } from './pipeline-jobs';
+
+interface PipelineEventBase {
+  jobId: string;
+  // Position in the job's event log, starting at 1
+  seq: number;
+  timestamp: string;
+}
+
+export interface PipelineStageStartedEvent extends PipelineEventBase {
+  stage: PipelineStage;
+  attempt: number;
+}
+
+export interface PipelineStageCompletedEvent extends PipelineEventBase, StageTiming {}
+
+export interface PipelineFailedEvent extends PipelineEventBase {
+  status: Extract<PipelineJobStatus, 'queued' | 'error' | 'cancelled'>;
+  error: string;
+  attempt: number;
+  nextRunAt?: string;
+}
+
+export interface PipelineCompletedEvent extends PipelineEventBase {
+  attempt: number;
+  statusUrl: string;
+}
+
+export interface PipelineServerEvents {
+  'pipeline:stage-started': (event: PipelineStageStartedEvent) => void;
+  'pipeline:stage-completed': (event: PipelineStageCompletedEvent) => void;
+  'pipeline:failed': (event: PipelineFailedEvent) => void;
+  'pipeline:completed': (event: PipelineCompletedEvent) => void;
+}
+
+export type PipelineEventName = keyof PipelineServerEvents;
+
+export type PipelineEvent = Parameters<PipelineServerEvents[PipelineEventName]>[0];
+
+// What a caller provides; the log adds the job id, number and time
+type EventPayload<E extends PipelineEventName> = Omit<Parameters<PipelineServerEvents[E]>[0], keyof PipelineEventBase>;
+
+export interface LoggedPipelineEvent {
+  name: PipelineEventName;
+  event: PipelineEvent;
+}
+
+// Events kept per job, and how long a job's log outlives its last event
+const MAX_EVENTS_PER_JOB = 200;
+const EVENT_RETENTION_MS = 60 * 60 * 1000;
+
+export const pipelineRoom = (jobId: string) => `pipeline:${jobId}`;
+
+export const pipelineStatusUrl = (jobId: string) => `/api/nlp/complete-pipeline/result/${jobId}`;
+
+export class PipelineEventHub {
+  private io: Server | null = null;
+  private logs = new Map<string, { events: LoggedPipelineEvent[]; seq: number; updatedAt: number }>();
+
+  // Events are only logged until the Socket.IO server is attached
+  attach(io: Server) {
+    this.io = io;
+  }
+
+  publish<E extends PipelineEventName>(jobId: string, name: E, payload: EventPayload<E>): PipelineEvent {
+    this.purgeExpired();
+
+    const log = this.log(jobId);
+    log.seq++;
+    log.updatedAt = Date.now();
+    const event = { ...payload, jobId, seq: log.seq, timestamp: new Date().toISOString() } as PipelineEvent;
+    log.events.push({ name, event });
+    if (log.events.length > MAX_EVENTS_PER_JOB) {
+      log.events.shift();
+    }
+
+    this.io?.to(pipelineRoom(jobId)).emit(name, event);
+    return event;
+  }
+
+  // Continue numbering after the last event stored with the job
+  seed(jobId: string, lastSeq: number) {
+    const log = this.log(jobId);
+    log.seq = Math.max(log.seq, lastSeq);
+  }
+
+  // Number the next published event will get, for storing alongside the write that precedes it
+  nextSeq(jobId: string): number {
+    return (this.logs.get(jobId)?.seq ?? 0) + 1;
+  }
+
+  // Logged events after the given number; events from before a restart are not in the log
+  replay(jobId: string, afterSeq = 0): LoggedPipelineEvent[] {
+    return (this.logs.get(jobId)?.events ?? []).filter(logged => logged.event.seq > afterSeq);
+  }
+
+  private log(jobId: string) {
+    let log = this.logs.get(jobId);
+    if (!log) {
+      log = { events: [], seq: 0, updatedAt: Date.now() };
+      this.logs.set(jobId, log);
+    }
+    return log;
+  }
+
+  private purgeExpired() {
+    const expiredBefore = Date.now() - EVENT_RETENTION_MS;
+    for (const [jobId, log] of this.logs.entries()) {
+      if (log.updatedAt < expiredBefore) {
+        this.logs.delete(jobId);
+      }
+    }
+  }
+}
+
+declare global {
+  var _pipelineEvents: PipelineEventHub | undefined;
+}
+
+// Shared by the worker, the route handlers and the socket server
+export const pipelineEvents = global._pipelineEvents || new PipelineEventHub();
+
+if (!global._pipelineEvents) {
+  global._pipelineEvents = pipelineEvents;
+}
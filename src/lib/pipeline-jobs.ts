@@ -0,0 +1,273 @@
+// Persistent queue of complete-pipeline jobs
+// Jobs live in the PipelineJob table so they survive restarts; when the
+// database is unavailable the queue falls back to memory and says so.
+
+import { db } from './db';
+import type { PipelineRequest, PipelineStage, StageTiming } from './complete-pipeline';
+
+export type PipelineJobStatus = 'queued' | 'processing' | 'completed' | 'error' | 'cancelled';
+
+export const PIPELINE_JOB_STATUSES: PipelineJobStatus[] = ['queued', 'processing', 'completed', 'error', 'cancelled'];
+
+// Statuses a job never leaves
+export const FINISHED_JOB_STATUSES: PipelineJobStatus[] = ['completed', 'error', 'cancelled'];
+
+export interface PipelineJob {
+  id: string;
+  status: PipelineJobStatus;
+  request: PipelineRequest;
+  result?: any;
+  error?: string;
+  attempts: number;
+  maxAttempts: number;
+  nextRunAt: string;
+  currentStage?: PipelineStage;
+  stageTimings: StageTiming[];
+  // Number of the last progress event published, so numbering survives restarts
+  eventSeq: number;
+  startedAt?: string;
+  completedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type PipelineJobUpdate = Partial<Pick<PipelineJob,
+  'status' | 'result' | 'error' | 'attempts' | 'nextRunAt' | 'stageTimings' | 'eventSeq' | 'startedAt' | 'completedAt'
+>> & {
+  // null clears the stage once the job stops running
+  currentStage?: PipelineStage | null;
+};
+
+export interface PipelineJobStore {
+  create(request: PipelineRequest, maxAttempts: number): Promise<PipelineJob>;
+  get(id: string): Promise<PipelineJob | null>;
+  // Jobs with the given ids that still exist, in no particular order
+  getMany(ids: string[]): Promise<PipelineJob[]>;
+  // Move the queued job that has waited longest past its nextRunAt to processing
+  claimNext(now: Date): Promise<PipelineJob | null>;
+  // Apply the update only while the job has the expected status; null otherwise.
+  // Updating a processing job renews its claim.
+  update(id: string, expected: PipelineJobStatus, update: PipelineJobUpdate): Promise<PipelineJob | null>;
+  // Put jobs whose worker stopped (e.g. a crash) before this time back in the queue
+  requeueStale(claimedBefore: Date): Promise<number>;
+  // Delete finished jobs older than this time
+  purgeFinished(finishedBefore: Date): Promise<number>;
+  countByStatus(): Promise<Record<PipelineJobStatus, number>>;
+}
+
+function toPipelineJob(record: any): PipelineJob {
+  return {
+    id: record.id,
+    status: record.status,
+    request: JSON.parse(record.request),
+    ...(record.result ? { result: JSON.parse(record.result) } : {}),
+    ...(record.error ? { error: record.error } : {}),
+    attempts: record.attempts,
+    maxAttempts: record.maxAttempts,
+    nextRunAt: new Date(record.nextRunAt).toISOString(),
+    ...(record.currentStage ? { currentStage: record.currentStage } : {}),
+    stageTimings: record.stageTimings ? JSON.parse(record.stageTimings) : [],
+    eventSeq: record.eventSeq ?? 0,
+    ...(record.startedAt ? { startedAt: new Date(record.startedAt).toISOString() } : {}),
+    ...(record.completedAt ? { completedAt: new Date(record.completedAt).toISOString() } : {}),
+    createdAt: new Date(record.createdAt).toISOString(),
+    updatedAt: new Date(record.updatedAt).toISOString()
+  };
+}
+
+function toRecordUpdate(update: PipelineJobUpdate) {
+  const data: Record<string, unknown> = {};
+  if (update.status !== undefined) data.status = update.status;
+  if (update.result !== undefined) data.result = JSON.stringify(update.result);
+  if (update.error !== undefined) data.error = update.error;
+  if (update.attempts !== undefined) data.attempts = update.attempts;
+  if (update.nextRunAt !== undefined) data.nextRunAt = new Date(update.nextRunAt);
+  if (update.currentStage !== undefined) data.currentStage = update.currentStage;
+  if (update.stageTimings !== undefined) data.stageTimings = JSON.stringify(update.stageTimings);
+  if (update.eventSeq !== undefined) data.eventSeq = update.eventSeq;
+  if (update.startedAt !== undefined) data.startedAt = new Date(update.startedAt);
+  if (update.completedAt !== undefined) data.completedAt = new Date(update.completedAt);
+  return data;
+}
+
+const emptyCounts = (): Record<PipelineJobStatus, number> => ({ queued: 0, processing: 0, completed: 0, error: 0, cancelled: 0 });
+
+class DatabaseJobStore implements PipelineJobStore {
+  async create(request: PipelineRequest, maxAttempts: number) {
+    return toPipelineJob(await db.pipelineJob.create({
+      data: { request: JSON.stringify(request), maxAttempts }
+    }));
+  }
+
+  async get(id: string) {
+    const record = await db.pipelineJob.findUnique({ where: { id } });
+    return record ? toPipelineJob(record) : null;
+  }
+
+  async getMany(ids: string[]) {
+    const records = await db.pipelineJob.findMany({ where: { id: { in: ids } } });
+    return records.map(toPipelineJob);
+  }
+
+  async claimNext(now: Date) {
+    const candidate = await db.pipelineJob.findFirst({
+      where: { status: 'queued', nextRunAt: { lte: now } },
+      orderBy: { nextRunAt: 'asc' }
+    });
+    if (!candidate) return null;
+
+    // Conditional update, so two workers never claim the same job
+    const claimed = await db.pipelineJob.updateMany({
+      where: { id: candidate.id, status: 'queued' },
+      data: { status: 'processing', lockedAt: now }
+    });
+    return claimed.count === 1 ? this.get(candidate.id) : null;
+  }
+
+  async update(id: string, expected: PipelineJobStatus, update: PipelineJobUpdate) {
+    const updated = await db.pipelineJob.updateMany({
+      where: { id, status: expected },
+      data: { ...toRecordUpdate(update), ...(expected === 'processing' ? { lockedAt: new Date() } : {}) }
+    });
+    return updated.count === 1 ? this.get(id) : null;
+  }
+
+  async requeueStale(claimedBefore: Date) {
+    const requeued = await db.pipelineJob.updateMany({
+      where: { status: 'processing', lockedAt: { lt: claimedBefore } },
+      data: { status: 'queued', currentStage: null, lockedAt: null, nextRunAt: new Date() }
+    });
+    return requeued.count;
+  }
+
+  async purgeFinished(finishedBefore: Date) {
+    const purged = await db.pipelineJob.deleteMany({
+      where: { status: { in: FINISHED_JOB_STATUSES }, completedAt: { lt: finishedBefore } }
+    });
+    return purged.count;
+  }
+
+  async countByStatus() {
+    const groups = await db.pipelineJob.groupBy({ by: ['status'], _count: { _all: true } });
+    const counts = emptyCounts();
+    for (const group of groups) {
+      counts[group.status as PipelineJobStatus] = group._count._all;
+    }
+    return counts;
+  }
+}
+
+// Used when the database cannot be reached; jobs are lost on restart
+class MemoryJobStore implements PipelineJobStore {
+  private jobs = new Map<string, PipelineJob & { lockedAt?: number }>();
+
+  async create(request: PipelineRequest, maxAttempts: number) {
+    const now = new Date().toISOString();
+    const job: PipelineJob = {
+      id: `job_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`,
+      status: 'queued',
+      request,
+      attempts: 0,
+      maxAttempts,
+      nextRunAt: now,
+      stageTimings: [],
+      eventSeq: 0,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.jobs.set(job.id, job);
+    return { ...job };
+  }
+
+  async get(id: string) {
+    const job = this.jobs.get(id);
+    return job ? this.publicJob(job) : null;
+  }
+
+  async getMany(ids: string[]) {
+    return ids.flatMap(id => {
+      const job = this.jobs.get(id);
+      return job ? [this.publicJob(job)] : [];
+    });
+  }
+
+  async claimNext(now: Date) {
+    const next = Array.from(this.jobs.values())
+      .filter(job => job.status === 'queued' && new Date(job.nextRunAt) <= now)
+      .sort((a, b) => a.nextRunAt.localeCompare(b.nextRunAt))[0];
+    if (!next) return null;
+
+    next.status = 'processing';
+    next.lockedAt = now.getTime();
+    next.updatedAt = now.toISOString();
+    return this.publicJob(next);
+  }
+
+  async update(id: string, expected: PipelineJobStatus, update: PipelineJobUpdate) {
+    const job = this.jobs.get(id);
+    if (!job || job.status !== expected) return null;
+
+    const { currentStage, ...rest } = update;
+    Object.assign(job, rest, { updatedAt: new Date().toISOString() });
+    if (expected === 'processing') job.lockedAt = Date.now();
+    if (currentStage !== undefined) job.currentStage = currentStage ?? undefined;
+    return this.publicJob(job);
+  }
+
+  async requeueStale(claimedBefore: Date) {
+    let requeued = 0;
+    for (const job of this.jobs.values()) {
+      if (job.status === 'processing' && (job.lockedAt ?? 0) < claimedBefore.getTime()) {
+        Object.assign(job, { status: 'queued', currentStage: undefined, lockedAt: undefined, nextRunAt: new Date().toISOString() });
+        requeued++;
+      }
+    }
+    return requeued;
+  }
+
+  async purgeFinished(finishedBefore: Date) {
+    let purged = 0;
+    for (const [id, job] of this.jobs.entries()) {
+      if (FINISHED_JOB_STATUSES.includes(job.status) && job.completedAt && new Date(job.completedAt) < finishedBefore) {
+        this.jobs.delete(id);
+        purged++;
+      }
+    }
+    return purged;
+  }
+
+  async countByStatus() {
+    const counts = emptyCounts();
+    for (const job of this.jobs.values()) {
+      counts[job.status]++;
+    }
+    return counts;
+  }
+
+  private publicJob(job: PipelineJob & { lockedAt?: number }): PipelineJob {
+    const { lockedAt, ...rest } = job;
+    return { ...rest, stageTimings: [...rest.stageTimings] };
+  }
+}
+
+declare global {
+  var _pipelineJobStore: Promise<PipelineJobStore> | undefined;
+}
+
+// Prefer the database; decided once per process
+async function selectStore(): Promise<PipelineJobStore> {
+  try {
+    await db.pipelineJob.count();
+    return new DatabaseJobStore();
+  } catch (error) {
+    console.warn('Pipeline job table unavailable, queueing jobs in memory; they will not survive a restart:', error);
+    return new MemoryJobStore();
+  }
+}
+
+export function getPipelineJobStore(): Promise<PipelineJobStore> {
+  if (!global._pipelineJobStore) {
+    global._pipelineJobStore = selectStore();
+  }
+  return global._pipelineJobStore;
+}
@@ -0,0 +1,81 @@
+// Socket.IO handlers for following pipeline jobs (events in pipeline-events.ts)
+//
+// Client -> server:
+//   pipeline:subscribe   { jobId, afterSeq? }  joins the job's room and replays events after afterSeq
+//   pipeline:unsubscribe { jobId }
+// Server -> client:
+//   pipeline:subscribed  { jobId, status }     status of the job when the subscription started
+//   pipeline:error       { jobId, error }
+
+import { Socket } from 'socket.io';
+import { getPipelineJobStore, PipelineJob } from './pipeline-jobs';
+import { pipelineEvents, pipelineRoom, pipelineStatusUrl, LoggedPipelineEvent } from './pipeline-events';
+
+interface PipelineSubscribePayload {
+  jobId: string;
+  afterSeq?: number;
+}
+
+// Events rebuilt from the stored job when its log is gone, e.g. after a restart.
+// They are numbered to end at the job's stored event number, so a client that
+// missed the final event still gets it while earlier ones count as seen.
+function eventsFromJob(job: PipelineJob): LoggedPipelineEvent[] {
+  const timestamp = job.completedAt ?? job.updatedAt;
+  const events: LoggedPipelineEvent[] = job.stageTimings.map(timing => ({
+    name: 'pipeline:stage-completed',
+    event: { ...timing, jobId: job.id, seq: 0, timestamp: new Date(new Date(timing.startedAt).getTime() + timing.durationMs).toISOString() }
+  }));
+
+  if (job.status === 'completed') {
+    events.push({ name: 'pipeline:completed', event: { jobId: job.id, seq: 0, timestamp, attempt: job.attempts, statusUrl: pipelineStatusUrl(job.id) } });
+  } else if (job.status === 'error' || job.status === 'cancelled') {
+    const error = job.status === 'cancelled' ? 'Pipeline run was cancelled' : job.error || 'Processing failed';
+    events.push({ name: 'pipeline:failed', event: { jobId: job.id, seq: 0, timestamp, status: job.status, error, attempt: job.attempts } });
+  }
+
+  const firstSeq = Math.max(job.eventSeq, events.length) - events.length + 1;
+  events.forEach((logged, index) => {
+    logged.event.seq = firstSeq + index;
+  });
+  return events;
+}
+
+export const registerPipelineHandlers = (socket: Socket) => {
+  socket.on('pipeline:subscribe', async (payload: PipelineSubscribePayload) => {
+    const { jobId, afterSeq = 0 } = payload || ({} as PipelineSubscribePayload);
+
+    if (!jobId || typeof jobId !== 'string') {
+      socket.emit('pipeline:error', { jobId, error: 'jobId is required' });
+      return;
+    }
+
+    try {
+      const store = await getPipelineJobStore();
+      const job = await store.get(jobId);
+      if (!job) {
+        socket.emit('pipeline:error', { jobId, error: 'Pipeline job not found' });
+        return;
+      }
+
+      // Join before replaying, so no event falls between the two
+      await socket.join(pipelineRoom(jobId));
+      socket.emit('pipeline:subscribed', { jobId, status: job.status });
+
+      // Events the log no longer holds are rebuilt from the stored job
+      const logged = pipelineEvents.replay(jobId, afterSeq);
+      const firstLogged = logged[0]?.event.seq ?? Infinity;
+      const rebuilt = firstLogged > afterSeq + 1
+        ? eventsFromJob(job).filter(({ event }) => event.seq > afterSeq && event.seq < firstLogged)
+        : [];
+      [...rebuilt, ...logged].forEach(({ name, event }) => socket.emit(name, event));
+    } catch (error) {
+      console.error('Pipeline subscription failed:', error);
+      socket.emit('pipeline:error', { jobId, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  socket.on('pipeline:unsubscribe', (payload: { jobId: string }) => {
+    const { jobId } = payload || ({} as { jobId: string });
+    if (jobId && typeof jobId === 'string') void socket.leave(pipelineRoom(jobId));
+  });
+};
@@ -0,0 +1,256 @@
+// Worker that runs queued complete-pipeline jobs
+// Jobs are claimed from the job store, run stage by stage with their timings
+// recorded, and retried with exponential backoff when a stage throws. A job
+// whose worker died mid-run is requeued once its claim goes stale. Finished
+// and finally failed jobs are announced to webhook subscribers.
+
+import { runCompletePipeline, PipelineCancelledError, PipelineRequest, StageTiming } from './complete-pipeline';
+import { getPipelineJobStore, PipelineJob, PipelineJobUpdate } from './pipeline-jobs';
+import { pipelineEvents, pipelineStatusUrl } from './pipeline-events';
+import { webhookDispatcher } from './webhook-dispatcher';
+
+export const DEFAULT_MAX_ATTEMPTS = 3;
+
+// How often the queue is checked when no job wakes the worker
+const POLL_INTERVAL_MS = 1000;
+
+// First retry delay; doubled for every further attempt up to the maximum
+const RETRY_BASE_DELAY_MS = 2000;
+const RETRY_MAX_DELAY_MS = 60 * 1000;
+
+// A claim older than this belongs to a worker that is no longer running. A
+// running job renews its claim with every progress update and at least every
+// CLAIM_RENEW_INTERVAL_MS, and stale claims are looked for every
+// STALE_CHECK_INTERVAL_MS, so jobs left by a crash are picked up again.
+const STALE_CLAIM_MS = 5 * 60 * 1000;
+const CLAIM_RENEW_INTERVAL_MS = 60 * 1000;
+const STALE_CHECK_INTERVAL_MS = 60 * 1000;
+
+// Finished jobs are kept this long for polling clients
+const JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Delay before the given retry (1 = first retry)
+export function retryDelay(retry: number): number {
+  return Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (retry - 1));
+}
+
+function workerConcurrency(): number {
+  const configured = parseInt(process.env.PIPELINE_WORKER_CONCURRENCY || '', 10);
+  return Number.isInteger(configured) && configured > 0 ? configured : 2;
+}
+
+export class PipelineWorker {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private started = false;
+  private ticking = false;
+  private lastPurge = 0;
+  private lastStaleCheck = 0;
+  // Jobs this process is running, so they can be cancelled mid-stage
+  private running = new Map<string, AbortController>();
+
+  // Start polling the queue; safe to call repeatedly
+  start() {
+    if (this.started) return;
+    this.started = true;
+    this.schedule(0);
+  }
+
+  stop() {
+    this.started = false;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.running.forEach(controller => controller.abort());
+  }
+
+  // Check the queue now instead of at the next poll
+  wake() {
+    if (this.started) this.schedule(0);
+  }
+
+  async submit(request: PipelineRequest, maxAttempts = DEFAULT_MAX_ATTEMPTS): Promise<PipelineJob> {
+    const store = await getPipelineJobStore();
+    const job = await store.create(request, maxAttempts);
+    this.start();
+    this.wake();
+    return job;
+  }
+
+  // Cancel a queued or running job; finished jobs are returned unchanged
+  async cancel(id: string): Promise<PipelineJob | null> {
+    const store = await getPipelineJobStore();
+    const job = await store.get(id);
+    if (job) pipelineEvents.seed(id, job.eventSeq);
+    const update = { status: 'cancelled' as const, currentStage: null, eventSeq: pipelineEvents.nextSeq(id), completedAt: new Date().toISOString() };
+
+    const cancelled = await store.update(id, 'queued', update) ?? await store.update(id, 'processing', update);
+    this.running.get(id)?.abort();
+    if (cancelled) {
+      pipelineEvents.publish(id, 'pipeline:failed', { status: 'cancelled', error: 'Pipeline run was cancelled', attempt: cancelled.attempts });
+    }
+    return cancelled ?? store.get(id);
+  }
+
+  private schedule(delay: number) {
+    if (!this.started) return;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => void this.tick(), delay);
+  }
+
+  // Requeue jobs whose claim went stale, then claim due jobs up to the concurrency limit
+  private async tick() {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      const store = await getPipelineJobStore();
+      if (Date.now() - this.lastPurge > PURGE_INTERVAL_MS) {
+        this.lastPurge = Date.now();
+        await store.purgeFinished(new Date(Date.now() - JOB_RETENTION_MS));
+      }
+      if (Date.now() - this.lastStaleCheck > STALE_CHECK_INTERVAL_MS) {
+        this.lastStaleCheck = Date.now();
+        const requeued = await store.requeueStale(new Date(Date.now() - STALE_CLAIM_MS));
+        if (requeued > 0) console.log(`Requeued ${requeued} pipeline jobs left by a stopped worker`);
+      }
+
+      while (this.running.size < workerConcurrency()) {
+        const job = await store.claimNext(new Date());
+        if (!job) break;
+        void this.process(job).catch(error => console.error(`Pipeline job ${job.id} run failed:`, error));
+      }
+    } catch (error) {
+      console.error('Pipeline worker poll failed:', error);
+    } finally {
+      this.ticking = false;
+      this.schedule(POLL_INTERVAL_MS);
+    }
+  }
+
+  private async process(job: PipelineJob) {
+    const store = await getPipelineJobStore();
+    const controller = new AbortController();
+    this.running.set(job.id, controller);
+
+    const attempt = job.attempts + 1;
+    const stageTimings: StageTiming[] = [...job.stageTimings];
+    pipelineEvents.seed(job.id, job.eventSeq);
+
+    // Updates are applied in order; a rejected one means the job is no longer
+    // ours (e.g. it was cancelled) and a failed write means progress can't be
+    // saved. Either stops the run before its next stage. The chain itself
+    // never rejects, so later updates and the callers awaiting them still run.
+    let saveError: unknown = null;
+    let pending: Promise<void> = Promise.resolve();
+    const record = (update: PipelineJobUpdate) => {
+      pending = pending.then(async () => {
+        try {
+          const updated = await store.update(job.id, 'processing', update);
+          if (!updated) controller.abort();
+        } catch (error) {
+          console.error(`Failed to save progress of pipeline job ${job.id}:`, error);
+          saveError ??= error;
+          controller.abort();
+        }
+      });
+      return pending;
+    };
+    // Renews the claim while a stage runs longer than the renewal interval
+    const heartbeat = setInterval(() => void record({}), CLAIM_RENEW_INTERVAL_MS);
+
+    try {
+      await record({ attempts: attempt, startedAt: job.startedAt ?? new Date().toISOString() });
+
+      const result = await runCompletePipeline(job.request, {
+        attempt,
+        signal: controller.signal,
+        onStageStarted: stage => {
+          const { seq } = pipelineEvents.publish(job.id, 'pipeline:stage-started', { stage, attempt });
+          void record({ currentStage: stage, eventSeq: seq });
+        },
+        onStageCompleted: timing => {
+          stageTimings.push(timing);
+          const { seq } = pipelineEvents.publish(job.id, 'pipeline:stage-completed', timing);
+          void record({ stageTimings: [...stageTimings], eventSeq: seq });
+        }
+      });
+
+      await record({ status: 'completed', result, currentStage: null, stageTimings, eventSeq: pipelineEvents.nextSeq(job.id), completedAt: new Date().toISOString() });
+      if (!controller.signal.aborted) {
+        pipelineEvents.publish(job.id, 'pipeline:completed', { attempt, statusUrl: pipelineStatusUrl(job.id) });
+        void webhookDispatcher.emit('pipeline.completed', {
+          jobId: job.id,
+          status: 'completed',
+          attempts: attempt,
+          stageTimings,
+          statusUrl: pipelineStatusUrl(job.id),
+          result
+        });
+      }
+    } catch (error) {
+      if (error instanceof PipelineCancelledError || controller.signal.aborted) {
+        return;
+      }
+
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      if (attempt < job.maxAttempts) {
+        const delay = retryDelay(attempt);
+        const nextRunAt = new Date(Date.now() + delay).toISOString();
+        console.warn(`Pipeline job ${job.id} failed (attempt ${attempt}/${job.maxAttempts}), retrying in ${delay}ms:`, message);
+        await record({ status: 'queued', error: message, currentStage: null, stageTimings, eventSeq: pipelineEvents.nextSeq(job.id), nextRunAt });
+        if (!controller.signal.aborted) pipelineEvents.publish(job.id, 'pipeline:failed', { status: 'queued', error: message, attempt, nextRunAt });
+      } else {
+        console.error(`Pipeline job ${job.id} failed after ${attempt} attempts:`, error);
+        await record({ status: 'error', error: message, currentStage: null, stageTimings, eventSeq: pipelineEvents.nextSeq(job.id), completedAt: new Date().toISOString() });
+        if (!controller.signal.aborted) {
+          pipelineEvents.publish(job.id, 'pipeline:failed', { status: 'error', error: message, attempt });
+          void webhookDispatcher.emit('pipeline.failed', {
+            jobId: job.id,
+            status: 'error',
+            attempts: attempt,
+            error: message,
+            stageTimings,
+            statusUrl: pipelineStatusUrl(job.id)
+          });
+        }
+      }
+    } finally {
+      clearInterval(heartbeat);
+      if (saveError) await this.releaseUnsaved(job, attempt);
+      this.running.delete(job.id);
+      this.wake();
+    }
+  }
+
+  // Put back a run whose progress could not be saved, rather than leave it
+  // processing until its claim goes stale
+  private async releaseUnsaved(job: PipelineJob, attempt: number) {
+    const error = 'Pipeline progress could not be saved';
+    const retry = attempt < job.maxAttempts;
+    const nextRunAt = new Date(Date.now() + retryDelay(attempt)).toISOString();
+    const eventSeq = pipelineEvents.nextSeq(job.id);
+
+    try {
+      const store = await getPipelineJobStore();
+      const released = await store.update(job.id, 'processing', retry
+        ? { status: 'queued', attempts: attempt, error, currentStage: null, eventSeq, nextRunAt }
+        : { status: 'error', attempts: attempt, error, currentStage: null, eventSeq, completedAt: new Date().toISOString() });
+      if (released) {
+        pipelineEvents.publish(job.id, 'pipeline:failed', { status: retry ? 'queued' : 'error', error, attempt, ...(retry ? { nextRunAt } : {}) });
+      }
+    } catch (releaseError) {
+      console.error(`Failed to release pipeline job ${job.id}; it is requeued once its claim goes stale:`, releaseError);
+    }
+  }
+}
+
+declare global {
+  var _pipelineWorker: PipelineWorker | undefined;
+}
+
+// One worker per process, shared by the custom server and the route handlers
+export const pipelineWorker = global._pipelineWorker || new PipelineWorker();
+
+if (!global._pipelineWorker) {
+  global._pipelineWorker = pipelineWorker;
+}
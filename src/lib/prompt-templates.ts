@@ -0,0 +1,435 @@
+// Versioned prompt templates for RAG analysis and A/B experiments over them
+// Templates are immutable: editing a template publishes a new version, so every
+// analysis result can be traced back to the exact prompt that produced it
+
+import { createHash } from 'crypto';
+import { db, isUniqueConstraintError } from './db';
+
+export const EXPERIMENT_STATUSES = ['active', 'paused', 'completed'] as const;
+
+export type ExperimentStatus = typeof EXPERIMENT_STATUSES[number];
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  version: number;
+  domain: string | null;
+  description?: string;
+  systemRole: string;
+  instructions: string;
+  outputSchema: any;
+  domainGuidance: Record<string, string>;
+  isActive: boolean;
+}
+
+export interface PromptTemplateInput {
+  name: string;
+  domain?: string | null;
+  description?: string;
+  systemRole: string;
+  instructions: string;
+  outputSchema: any;
+  domainGuidance?: Record<string, string>;
+}
+
+export interface ExperimentVariant {
+  templateId: string;
+  weight: number;
+}
+
+export interface PromptExperiment {
+  id: string;
+  name: string;
+  domain: string | null;
+  variants: ExperimentVariant[];
+  status: ExperimentStatus;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PromptExperimentInput {
+  name: string;
+  domain?: string | null;
+  variants: ExperimentVariant[];
+}
+
+// Reference to the template (and experiment arm) recorded on analysis results
+export interface PromptTemplateRef {
+  id: string;
+  name: string;
+  version: number;
+  experiment?: {
+    id: string;
+    name: string;
+  };
+}
+
+// Feedback on the analyses one experiment arm produced
+export interface ExperimentVariantResult {
+  templateId: string;
+  feedbackCount: number;
+  ratedCount: number;
+  // Mean 1-5 rating; null until a rating arrives
+  averageRating: number | null;
+}
+
+// Another request published the same version first, every time it was tried
+export class PromptTemplateVersionConflictError extends Error {
+  constructor(name: string) {
+    super(`Could not publish a new version of prompt template "${name}": concurrent updates`);
+    this.name = 'PromptTemplateVersionConflictError';
+  }
+}
+
+// Attempts at numbering a new version before giving up on a busy template
+const MAX_VERSION_ATTEMPTS = 3;
+
+export interface PromptSelection {
+  template: PromptTemplate;
+  experiment?: {
+    id: string;
+    name: string;
+  };
+}
+
+// The original hard-coded prompt, used to seed the registry and whenever it is unavailable
+export const DEFAULT_PROMPT_TEMPLATE: PromptTemplate = {
+  id: 'builtin-rag-analysis-v1',
+  name: 'rag-analysis',
+  version: 1,
+  domain: null,
+  description: 'Built-in RAG analysis prompt',
+  systemRole: `You are an expert product manager and software architect with deep domain expertise. Your task is to convert vague user ideas into detailed, structured, and technically sound application specifications. You are meticulous, think step-by-step, and your output must be in a precise JSON format.
+
+You have access to a comprehensive knowledge base containing domain-specific features, requirements, and best practices. Use this knowledge to generate highly specific and context-aware specifications.`,
+
+  instructions: `### CRITICAL INSTRUCTIONS:
+
+1. **Domain Expertise**: Immerse yourself in the retrieved context. If the context is about banking, output banking-specific features (e.g., "Mobile Check Deposit", "Fraud Alerts"). If it's about e-commerce, output e-commerce features (e.g., "Shopping Cart", "Wishlist"). Do not output generic features.
+
+2. **Structure Your Output**: You MUST output a valid JSON object that strictly adheres to the specified schema. Do not include any other text before or after the JSON.
+
+3. **Specificity is Key**: Avoid generic phrases like "user management". Instead, specify what that means *for this domain*. For banking, it becomes "Secure Customer Onboarding (KYC)" with specific requirements about identity verification.
+
+4. **Prioritization**: Assign priorities (HIGH, MEDIUM, LOW) realistically. A "Login" feature is always HIGH. A "Branch Locator" might be MEDIUM.
+
+5. **Context-Based Generation**: Base your response SOLELY on the retrieved context and user input. Do not make up features that aren't supported by the context.
+
+6. **If Unclear**: If the user input is too vague even after context retrieval, make a reasonable assumption based on the retrieved context to complete the specification. Do not ask follow-up questions in the output.`,
+
+  outputSchema: {
+    project_name: "A generated name for the app based on the request and domain.",
+    core_domain: "The primary domain identified (e.g., Retail Banking, E-Commerce, Health & Fitness).",
+    features: [
+      {
+        name: "A concise name for the feature (e.g., 'Biometric Login').",
+        description: "A 1-2 sentence description of the feature.",
+        user_story: "A full user story in the format: 'As a [type of user], I want to [perform some action] so that I can [achieve some goal].'",
+        priority: "HIGH | MEDIUM | LOW",
+        functional_requirements: [
+          "A specific, testable requirement. (e.g., 'The system shall allow users to authenticate using Touch ID or Face ID.')",
+          "Another specific requirement. (e.g., 'The system shall fall back to PIN entry after three failed biometric attempts.')"
+        ],
+        non_functional_requirements: [
+          "A requirement covering security, performance, etc. (e.g., 'Biometric data shall be stored securely in the device's keychain and never transmitted to external servers.')"
+        ],
+        citations: "Array of the bracketed numbers of the knowledge base documents that support this feature (e.g., [1, 3]). Use [] if no document applies."
+      }
+    ]
+  },
+
+  // Per-domain guidance comes from the domain packs unless a template overrides it
+  domainGuidance: {},
+  isActive: true
+};
+
+export function isExperimentStatus(status: unknown): status is ExperimentStatus {
+  return typeof status === 'string' && (EXPERIMENT_STATUSES as readonly string[]).includes(status);
+}
+
+export function toTemplateRef(selection: PromptSelection): PromptTemplateRef {
+  const { template, experiment } = selection;
+  return {
+    id: template.id,
+    name: template.name,
+    version: template.version,
+    ...(experiment ? { experiment } : {})
+  };
+}
+
+// Read a template reference sent back by a client, e.g. with feedback
+export function parseTemplateRef(value: unknown): PromptTemplateRef | null {
+  if (!value || typeof value !== 'object') return null;
+  const { id, name, version, experiment } = value as Record<string, any>;
+  if (typeof id !== 'string' || typeof name !== 'string' || !Number.isInteger(version)) return null;
+  if (experiment !== undefined && (typeof experiment?.id !== 'string' || typeof experiment?.name !== 'string')) return null;
+  return { id, name, version, ...(experiment ? { experiment: { id: experiment.id, name: experiment.name } } : {}) };
+}
+
+// Convert a database row into a prompt template
+function toPromptTemplate(record: any): PromptTemplate {
+  return {
+    id: record.id,
+    name: record.name,
+    version: record.version,
+    domain: record.domain ?? null,
+    ...(record.description ? { description: record.description } : {}),
+    systemRole: record.systemRole,
+    instructions: record.instructions,
+    outputSchema: JSON.parse(record.outputSchema),
+    domainGuidance: record.domainGuidance ? JSON.parse(record.domainGuidance) : {},
+    isActive: record.isActive
+  };
+}
+
+// Convert a database row into a prompt experiment
+function toPromptExperiment(record: any): PromptExperiment {
+  return {
+    id: record.id,
+    name: record.name,
+    domain: record.domain ?? null,
+    variants: JSON.parse(record.variants),
+    status: record.status,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt
+  };
+}
+
+// Seed the registry with the built-in template when it is empty
+let seeded: Promise<void> | null = null;
+
+function ensureSeeded(): Promise<void> {
+  if (!seeded) {
+    seeded = (async () => {
+      const count = await db.promptTemplate.count();
+      if (count === 0) {
+        const { id, outputSchema, domainGuidance, ...rest } = DEFAULT_PROMPT_TEMPLATE;
+        await db.promptTemplate.create({
+          data: {
+            id,
+            ...rest,
+            outputSchema: JSON.stringify(outputSchema),
+            domainGuidance: JSON.stringify(domainGuidance)
+          }
+        });
+        console.log('Seeded prompt template registry with the built-in template');
+      }
+    })().catch(error => {
+      seeded = null;
+      throw error;
+    });
+  }
+  return seeded;
+}
+
+export async function listPromptTemplates(filters: { name?: string | null; domain?: string | null; activeOnly?: boolean } = {}): Promise<PromptTemplate[]> {
+  await ensureSeeded();
+
+  const where: any = {};
+  if (filters.name) where.name = filters.name;
+  if (filters.domain) where.domain = filters.domain;
+  if (filters.activeOnly) where.isActive = true;
+
+  const records = await db.promptTemplate.findMany({
+    where,
+    orderBy: [{ name: 'asc' }, { version: 'desc' }]
+  });
+  return records.map(toPromptTemplate);
+}
+
+export async function getPromptTemplate(id: string): Promise<PromptTemplate | null> {
+  if (id === DEFAULT_PROMPT_TEMPLATE.id) {
+    return DEFAULT_PROMPT_TEMPLATE;
+  }
+
+  const record = await db.promptTemplate.findUnique({ where: { id } });
+  return record ? toPromptTemplate(record) : null;
+}
+
+// Publish a new version of a template; it becomes active immediately. Two
+// requests numbering the same version collide on (name, version); the loser
+// renumbers and tries again.
+export async function createPromptTemplateVersion(input: PromptTemplateInput): Promise<PromptTemplate> {
+  await ensureSeeded();
+
+  for (let attempt = 1; ; attempt++) {
+    const latest = await db.promptTemplate.findFirst({
+      where: { name: input.name },
+      orderBy: { version: 'desc' }
+    });
+
+    try {
+      const record = await db.promptTemplate.create({
+        data: {
+          name: input.name,
+          version: (latest?.version ?? 0) + 1,
+          domain: input.domain ?? null,
+          description: input.description ?? null,
+          systemRole: input.systemRole,
+          instructions: input.instructions,
+          outputSchema: JSON.stringify(input.outputSchema),
+          domainGuidance: JSON.stringify(input.domainGuidance || {})
+        }
+      });
+      return toPromptTemplate(record);
+    } catch (error) {
+      if (!isUniqueConstraintError(error)) throw error;
+      if (attempt >= MAX_VERSION_ATTEMPTS) throw new PromptTemplateVersionConflictError(input.name);
+    }
+  }
+}
+
+// Activate or retire a template version (versions are never edited or deleted)
+export async function setPromptTemplateActive(id: string, isActive: boolean): Promise<PromptTemplate | null> {
+  const existing = await db.promptTemplate.findUnique({ where: { id } });
+  if (!existing) {
+    return null;
+  }
+
+  const record = await db.promptTemplate.update({
+    where: { id },
+    data: { isActive }
+  });
+  return toPromptTemplate(record);
+}
+
+export async function listPromptExperiments(status?: string | null): Promise<PromptExperiment[]> {
+  const records = await db.promptExperiment.findMany({
+    where: status ? { status } : {},
+    orderBy: { createdAt: 'desc' }
+  });
+  return records.map(toPromptExperiment);
+}
+
+export async function getPromptExperiment(id: string): Promise<PromptExperiment | null> {
+  const record = await db.promptExperiment.findUnique({ where: { id } });
+  return record ? toPromptExperiment(record) : null;
+}
+
+// Check that every variant points at an existing template and has a positive weight
+export async function validateExperimentVariants(variants: unknown): Promise<string | null> {
+  if (!Array.isArray(variants) || variants.length < 2) {
+    return 'An experiment needs at least two variants';
+  }
+
+  for (const variant of variants) {
+    if (!variant || typeof variant.templateId !== 'string' || typeof variant.weight !== 'number' || variant.weight <= 0) {
+      return 'Each variant needs a templateId and a positive weight';
+    }
+    if (!(await getPromptTemplate(variant.templateId))) {
+      return `Prompt template not found: ${variant.templateId}`;
+    }
+  }
+
+  return null;
+}
+
+export async function createPromptExperiment(input: PromptExperimentInput): Promise<PromptExperiment> {
+  await ensureSeeded();
+
+  const record = await db.promptExperiment.create({
+    data: {
+      name: input.name,
+      domain: input.domain ?? null,
+      variants: JSON.stringify(input.variants)
+    }
+  });
+  return toPromptExperiment(record);
+}
+
+export async function updatePromptExperiment(
+  id: string,
+  changes: { status?: ExperimentStatus; variants?: ExperimentVariant[] }
+): Promise<PromptExperiment | null> {
+  const existing = await db.promptExperiment.findUnique({ where: { id } });
+  if (!existing) {
+    return null;
+  }
+
+  const record = await db.promptExperiment.update({
+    where: { id },
+    data: {
+      ...(changes.status ? { status: changes.status } : {}),
+      ...(changes.variants ? { variants: JSON.stringify(changes.variants) } : {})
+    }
+  });
+  return toPromptExperiment(record);
+}
+
+export async function deletePromptExperiment(id: string): Promise<boolean> {
+  const existing = await db.promptExperiment.findUnique({ where: { id } });
+  if (!existing) {
+    return false;
+  }
+
+  await db.promptExperiment.delete({ where: { id } });
+  return true;
+}
+
+// Feedback count and mean rating per template version the experiment assigned
+export async function getExperimentResults(experiment: PromptExperiment): Promise<ExperimentVariantResult[]> {
+  const groups = await db.feedback.groupBy({
+    by: ['promptTemplateId'],
+    where: { promptExperimentId: experiment.id },
+    _count: { _all: true, rating: true },
+    _avg: { rating: true }
+  });
+
+  return experiment.variants.map(variant => {
+    const group = groups.find(candidate => candidate.promptTemplateId === variant.templateId);
+    return {
+      templateId: variant.templateId,
+      feedbackCount: group?._count._all ?? 0,
+      ratedCount: group?._count.rating ?? 0,
+      averageRating: group?._avg.rating != null ? Number(group._avg.rating.toFixed(2)) : null
+    };
+  });
+}
+
+// Deterministically map an assignment key onto a weighted variant
+function assignVariant(experiment: PromptExperiment, assignmentKey: string): ExperimentVariant {
+  const hash = createHash('sha256').update(`${experiment.id}:${assignmentKey}`).digest();
+  const totalWeight = experiment.variants.reduce((sum, variant) => sum + variant.weight, 0);
+  let point = (hash.readUInt32BE(0) / 0x100000000) * totalWeight;
+
+  for (const variant of experiment.variants) {
+    point -= variant.weight;
+    if (point < 0) return variant;
+  }
+  return experiment.variants[experiment.variants.length - 1];
+}
+
+// Pick the template for a domain: an active experiment first, then the newest
+// active domain-specific template, then the newest active general template.
+// Experiments only apply with an assignment key (a session or user id), so the
+// same caller stays in the same arm; anonymous requests get the regular template.
+export async function selectPromptTemplate(domain: string, assignmentKey?: string): Promise<PromptSelection> {
+  try {
+    await ensureSeeded();
+
+    const experiments = (await listPromptExperiments('active'))
+      .filter(experiment => experiment.domain === domain || experiment.domain === null)
+      .sort((a, b) => Number(b.domain !== null) - Number(a.domain !== null));
+
+    if (assignmentKey && experiments.length > 0) {
+      const experiment = experiments[0];
+      const variant = assignVariant(experiment, assignmentKey);
+      const template = await getPromptTemplate(variant.templateId);
+      if (template) {
+        return { template, experiment: { id: experiment.id, name: experiment.name } };
+      }
+      console.warn(`Experiment ${experiment.name} references missing template ${variant.templateId}`);
+    }
+
+    const candidates = await db.promptTemplate.findMany({
+      where: { isActive: true, OR: [{ domain }, { domain: null }] },
+      orderBy: { createdAt: 'desc' }
+    });
+    const record = candidates.find((candidate: any) => candidate.domain === domain) || candidates[0];
+
+    return { template: record ? toPromptTemplate(record) : DEFAULT_PROMPT_TEMPLATE };
+  } catch (error) {
+    console.warn('Prompt template registry unavailable, using the built-in template:', error);
+    return { template: DEFAULT_PROMPT_TEMPLATE };
+  }
+}
@@ -1,36 +1,163 @@
-import ZAI from 'z-ai-web-dev-sdk';
-import { ragPromptingSystem } from './rag-prompting';
+import { ragPromptingSystem, RAGPrompt } from './rag-prompting';
 import { initializeKnowledgeBase } from './knowledge-base';
-import { cleanAndValidateJSON } from '../app/api/nlp/analyze-requirements/route';
+import { ScoredDocument } from './vector-db';
+import { generateEmbedding, cosineSimilarity } from './embeddings';
+import { TokenBudgetReport } from './token-budget';
+import { LLMProvider, LLMCancelledError, completeStructured, StructuredOutputError, getRouteModelId, getLLMProvider } from './llm';
+import { ragAnalysisSchema, ragFeatureSchema, RAGAnalysisPayload, RAGFeaturePayload } from './analysis-schemas';
+import { StreamingArrayParser } from './streaming-json';
+import { PromptTemplateRef, PromptSelection, selectPromptTemplate, getPromptTemplate, toTemplateRef, DEFAULT_PROMPT_TEMPLATE } from './prompt-templates';
+import { analysisCache, CacheKey } from './analysis-cache';
+import { DomainScore } from './domain-detection';
+import { getDomainPack } from './domain-packs';
+import { DEFAULT_LANGUAGE, getLanguagePack } from './language-packs';
+import { detectLanguage, pivotToEnglish, resolveOutputLanguage } from './language-detection';
+import { guardInput, restoreRedactions, InputGuardReport, InputRejectedError } from './input-guard';
+import { assessCoverage } from './clarification';
+import {
+  ConfidenceBreakdown,
+  scoreConfidence,
+  measureDomainSignal,
+  measureRetrievalSignal,
+  measureRepairSignal,
+  measureAgreementSignal,
+  measureCoverageSignal
+} from './confidence';
+import {
+  EnsembleOptions,
+  EnsembleReport,
+  buildConsensus,
+  DEFAULT_ENSEMBLE_SAMPLES,
+  DEFAULT_MIN_AGREEMENT
+} from './feature-ensemble';
+import {
+  AnalysisExplanation,
+  ModelOutputTrace,
+  explainDomainDetection,
+  traceRetrievedDocuments
+} from './analysis-explanation';
+
+const SYSTEM_PROMPT = 'You are an expert product manager and software architect. Generate precise, structured JSON output based on the provided instructions.';
+
+// Knowledge document a generated feature was based on
+export interface FeatureSource {
+  docId: string;
+  source: string;
+  snippet: string;
+}
+
+// Maximum length of a citation snippet
+const SNIPPET_LENGTH = 240;
+
+export interface AnalyzedFeature {
+  name: string;
+  description: string;
+  user_story: string;
+  priority: 'HIGH' | 'MEDIUM' | 'LOW';
+  functional_requirements: string[];
+  non_functional_requirements: string[];
+  sources: FeatureSource[];
+  // Share of ensemble samples that produced the feature; set in ensemble mode
+  confidence?: number;
+}
 
 export interface RAGAnalysisResult {
   success: boolean;
   data?: {
     project_name: string;
     core_domain: string;
-    features: Array<{
-      name: string;
-      description: string;
-      user_story: string;
-      priority: 'HIGH' | 'MEDIUM' | 'LOW';
-      functional_requirements: string[];
-      non_functional_requirements: string[];
-    }>;
+    features: AnalyzedFeature[];
   };
   error?: string;
   metadata?: {
     processingTime: number;
     contextRetrieved: boolean;
     fallbackUsed: boolean;
+    // Calibrated confidence; 0 when the analysis failed
     confidence: number;
+    // Signals behind the confidence, for explaining low scores
+    confidenceBreakdown?: ConfidenceBreakdown;
+    // Model calls made, including schema repair attempts
+    llmAttempts: number;
+    // Prompt template version (and experiment arm) that produced the result
+    promptTemplate: PromptTemplateRef;
+    // How the prompt was fitted into the model context window
+    tokenBudget?: TokenBudgetReport;
+    // Whether the result was served from the analysis cache
+    cache?: AnalysisCacheInfo;
+    // How the samples of an ensemble analysis agreed
+    ensemble?: EnsembleReport;
+    // Personal data redacted from the input and injection patterns found in it
+    inputGuard?: InputGuardReport;
+    language?: AnalysisLanguageInfo;
   };
+  // Domain, retrieval, prompt and model output details; set when requested with explain
+  explanation?: AnalysisExplanation;
+}
+
+export interface AnalysisLanguageInfo {
+  // Detected language of the idea and how sure the detection is
+  input: string;
+  inputConfidence: number;
+  // Language the specification was requested in; absent when none was requested
+  output?: string;
+}
+
+export interface AnalysisCacheInfo {
+  hit: boolean;
+  match?: 'exact' | 'semantic';
+  similarity?: number;
+  cachedAt?: string;
+}
+
+export interface AnalysisOptions {
+  // Use this template version instead of the registry's selection
+  templateId?: string;
+  // Stable key (a session or user id) for experiment assignment; without one
+  // no experiment applies
+  assignmentKey?: string;
+  // Cancels the analysis, including an in-flight model call
+  signal?: AbortSignal;
+  // Streams the completion and reports each feature as soon as it parses
+  onFeature?: (feature: AnalyzedFeature, index: number) => void;
+  // Called when invalid output is sent back for repair; streamed features restart from index 0
+  onRepair?: (attempt: number, errors: string[]) => void;
+  // Domains to blend knowledge base context from, weighted by confidence;
+  // defaults to the detected domain alone
+  contextDomains?: DomainScore[];
+  // Classifier confidences for the idea, used to score confidence; omit when
+  // the caller chose the domain
+  domainDistribution?: DomainScore[];
+  // Always call the model, neither reading nor writing the analysis cache
+  skipCache?: boolean;
+  // Sample the analysis several times and keep the features the samples agree on;
+  // features are streamed only once the consensus is known
+  ensemble?: EnsembleOptions;
+  // Attach an explanation report; the cache is not read, so the model is always called
+  explain?: boolean;
+  // Language code to write names, descriptions, user stories and requirements in,
+  // or "auto" for the idea's language; enum values such as priority stay canonical
+  outputLanguage?: string;
+}
+
+export interface RAGOrchestrationOptions {
+  // Overrides the provider configured for the rag-analysis route (e.g. a deterministic mock)
+  provider?: LLMProvider;
 }
 
 export class RAGOrchestration {
   private initialized = false;
+  private initialization: Promise<void>;
+  private provider?: LLMProvider;
+
+  constructor(options: RAGOrchestrationOptions = {}) {
+    this.provider = options.provider;
+    this.initialization = this.initialize();
+  }
 
-  constructor() {
-    this.initialize();
+  // Resolves once the knowledge base has been loaded (or failed to load)
+  ready(): Promise<void> {
+    return this.initialization;
   }
 
   // Initialize the RAG system
@@ -46,174 +173,427 @@ export class RAGOrchestration {
   }
 
   // Main analysis method
-  async analyzeRequirements(userInput: string, detectedDomain: string): Promise<RAGAnalysisResult> {
+  async analyzeRequirements(userInput: string, detectedDomain: string, options: AnalysisOptions = {}): Promise<RAGAnalysisResult> {
     const startTime = Date.now();
     let contextRetrieved = false;
     let fallbackUsed = false;
-    let confidence = 0.5;
+    let documents: ScoredDocument[] = [];
+    let llmAttempts = 0;
+    let selection: PromptSelection = { template: DEFAULT_PROMPT_TEMPLATE };
+    let tokenBudget: TokenBudgetReport | undefined;
+    let ensembleReport: EnsembleReport | undefined;
+    let inputGuard: InputGuardReport | undefined;
+    let outputs: ModelOutputTrace[] = [];
+    let input = userInput;
+    let prompt: string | undefined;
+    let language: AnalysisLanguageInfo | undefined;
 
     try {
+      // Personal data never reaches the prompt or the cache; placeholders are
+      // swapped back into everything returned or streamed to the caller
+      const screened = guardInput('rag-analysis', userInput);
+      inputGuard = screened.report;
+      input = screened.text;
+
+      // Ideas in other languages are matched against the English knowledge base
+      // through their English rendering; the prompt keeps the original wording
+      const detected = detectLanguage(input);
+      const outputLanguage = resolveOutputLanguage(options.outputLanguage, detected.language);
+      language = { input: detected.language, inputConfidence: detected.confidence, ...(outputLanguage ? { output: outputLanguage.language } : {}) };
+      const promptLanguage = {
+        retrievalQuery: pivotToEnglish(input, detected.language),
+        outputLanguage: outputLanguage?.name
+      };
+
+      const guardedOptions: AnalysisOptions = {
+        ...options,
+        outputLanguage: outputLanguage?.language,
+        onFeature: options.onFeature && ((feature, index) => options.onFeature!(restoreRedactions(feature, screened), index))
+      };
+
+      selection = await this.selectTemplate(detectedDomain, options);
+
+      const cacheKey: CacheKey = {
+        namespace: 'rag-analysis',
+        input,
+        domain: detectedDomain,
+        contextDomains: options.contextDomains?.map(item => item.domain),
+        domainDistribution: options.domainDistribution,
+        promptVersion: `${selection.template.id}@${selection.template.version}${this.ensembleVersion(options.ensemble)}${outputLanguage ? `+lang:${outputLanguage.language}` : ''}`,
+        model: getRouteModelId('rag-analysis', this.provider)
+      };
+
+      if (!options.skipCache && !options.explain) {
+        const cached = analysisCache.get<RAGAnalysisResult>(cacheKey);
+        if (cached) {
+          cached.value.data?.features.forEach((feature, index) => guardedOptions.onFeature?.(feature, index));
+          return {
+            ...cached.value,
+            data: restoreRedactions(cached.value.data, screened),
+            metadata: {
+              ...cached.value.metadata!,
+              processingTime: Date.now() - startTime,
+              promptTemplate: toTemplateRef(selection),
+              cache: { hit: true, match: cached.match, similarity: cached.similarity, cachedAt: cached.cachedAt },
+              inputGuard,
+              language
+            }
+          };
+        }
+      }
+
       // Generate prompt using RAG system
-      let prompt: string;
+      let ragPrompt: RAGPrompt;
       
       if (this.initialized) {
         try {
-          prompt = await ragPromptingSystem.generatePrompt(userInput, detectedDomain);
+          ragPrompt = await ragPromptingSystem.generatePrompt(input, detectedDomain, selection.template, undefined, options.contextDomains, promptLanguage);
+          documents = ragPrompt.documents;
           contextRetrieved = true;
-          confidence = 0.8;
         } catch (contextError) {
           console.warn('Failed to retrieve context, using fallback:', contextError);
-          prompt = ragPromptingSystem.generateFallbackPrompt(userInput, detectedDomain);
+          ragPrompt = ragPromptingSystem.generateFallbackPrompt(input, detectedDomain, selection.template, undefined, promptLanguage);
           fallbackUsed = true;
-          confidence = 0.6;
         }
       } else {
-        prompt = ragPromptingSystem.generateFallbackPrompt(userInput, detectedDomain);
+        ragPrompt = ragPromptingSystem.generateFallbackPrompt(input, detectedDomain, selection.template, undefined, promptLanguage);
         fallbackUsed = true;
-        confidence = 0.6;
       }
+      tokenBudget = ragPrompt.budget;
+      prompt = ragPrompt.prompt;
 
-      // Call LLM with timeout
-      const response = await this.callLLMWithTimeout(prompt);
-      
-      if (!response) {
-        throw new Error('No response from LLM');
+      let result: NonNullable<RAGAnalysisResult['data']>;
+      if (options.ensemble) {
+        const ensemble = await this.analyzeWithEnsemble(ragPrompt.prompt, documents, detectedDomain, options.ensemble, guardedOptions);
+        result = ensemble.data;
+        llmAttempts = ensemble.attempts;
+        ensembleReport = ensemble.report;
+        outputs = ensemble.outputs;
+        result.features.forEach((feature, index) => guardedOptions.onFeature?.(feature, index));
+      } else {
+        // Call the configured LLM provider; invalid output is repaired against the schema
+        const completion = await this.callLLM(ragPrompt.prompt, documents, detectedDomain, guardedOptions);
+        llmAttempts = completion.attempts;
+        outputs = [{ attempts: completion.attempts, raw: completion.raw, repairs: completion.repairs }];
+        result = this.normalizeAnalysis(completion.data, documents, guardedOptions.outputLanguage);
       }
-
-      // Parse and validate the response
-      const result = await this.parseAndValidateResponse(response);
       
       const processingTime = Date.now() - startTime;
+      const confidenceBreakdown = this.assessConfidence(input, detectedDomain, documents, contextRetrieved, llmAttempts, options, ensembleReport);
       
-      return {
+      const analysis: RAGAnalysisResult = {
         success: true,
         data: result,
         metadata: {
           processingTime,
           contextRetrieved,
           fallbackUsed,
-          confidence
+          confidence: confidenceBreakdown.score,
+          confidenceBreakdown,
+          llmAttempts,
+          promptTemplate: toTemplateRef(selection),
+          ...(tokenBudget ? { tokenBudget } : {}),
+          cache: { hit: false },
+          ...(ensembleReport ? { ensemble: ensembleReport } : {}),
+          inputGuard,
+          language
         }
       };
 
+      if (!options.skipCache) {
+        analysisCache.set(cacheKey, analysis, { dependsOnKnowledge: true });
+      }
+
+      return {
+        ...analysis,
+        data: restoreRedactions(result, screened),
+        ...(options.explain ? { explanation: this.explain(input, detectedDomain, options, contextRetrieved, documents, prompt, outputs, inputGuard) } : {})
+      };
+
     } catch (error) {
-      console.error('RAG analysis failed:', error);
+      if (error instanceof InputRejectedError) {
+        inputGuard = error.report;
+      } else {
+        console.error('RAG analysis failed:', error);
+      }
+      if (error instanceof StructuredOutputError) {
+        outputs = [{ attempts: error.attempts, repairs: error.repairs }];
+      }
+      const explanation = options.explain && !(error instanceof InputRejectedError)
+        ? this.explain(input, detectedDomain, options, contextRetrieved, documents, prompt, outputs, inputGuard)
+        : undefined;
       
       const processingTime = Date.now() - startTime;
       
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
+        error: error instanceof LLMCancelledError ? 'Analysis cancelled' : error instanceof Error ? error.message : 'Unknown error',
         metadata: {
           processingTime,
           contextRetrieved,
           fallbackUsed,
-          confidence: 0.1
-        }
+          confidence: 0,
+          llmAttempts: error instanceof StructuredOutputError ? error.attempts : llmAttempts,
+          promptTemplate: toTemplateRef(selection),
+          ...(tokenBudget ? { tokenBudget } : {}),
+          ...(inputGuard ? { inputGuard } : {}),
+          ...(language ? { language } : {})
+        },
+        ...(explanation ? { explanation } : {})
       };
     }
   }
 
-  // Call LLM with timeout and error handling
-  private async callLLMWithTimeout(prompt: string): Promise<string> {
-    const timeoutPromise = new Promise((_, reject) => {
-      setTimeout(() => reject(new Error('LLM timeout')), 30000);
+  // Report of the domain scores, retrieved documents, prompt and model outputs behind an analysis
+  private explain(
+    input: string,
+    domain: string,
+    options: AnalysisOptions,
+    contextRetrieved: boolean,
+    documents: ScoredDocument[],
+    prompt: string | undefined,
+    outputs: ModelOutputTrace[],
+    inputGuard?: InputGuardReport
+  ): AnalysisExplanation {
+    return {
+      domain: explainDomainDetection(input, domain, options.domainDistribution, options.contextDomains?.map(item => item.domain)),
+      retrieval: { contextRetrieved, documents: traceRetrievedDocuments(documents) },
+      ...(prompt ? { prompt: { system: SYSTEM_PROMPT, user: prompt } } : {}),
+      outputs,
+      ...(inputGuard ? { inputGuard } : {})
+    };
+  }
+
+  // Score confidence from the classifier, retrieval, repair and input coverage signals
+  private assessConfidence(
+    userInput: string,
+    domain: string,
+    documents: ScoredDocument[],
+    contextRetrieved: boolean,
+    llmAttempts: number,
+    options: AnalysisOptions,
+    ensemble?: EnsembleReport
+  ): ConfidenceBreakdown {
+    return scoreConfidence({
+      domain: measureDomainSignal(options.domainDistribution),
+      retrieval: measureRetrievalSignal(documents, contextRetrieved),
+      repairs: measureRepairSignal(llmAttempts, ensemble?.samples),
+      agreement: measureAgreementSignal(ensemble?.agreement),
+      coverage: measureCoverageSignal(assessCoverage(userInput, domain))
     });
+  }
 
-    try {
-      const zai = await ZAI.create();
-      
-      const llmPromise = zai.chat.completions.create({
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an expert product manager and software architect. Generate precise, structured JSON output based on the provided instructions.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        max_tokens: 2000,
-        temperature: 0.3
-      });
+  // Resolve an explicitly requested template version or let the registry choose
+  private async selectTemplate(domain: string, options: AnalysisOptions): Promise<PromptSelection> {
+    if (options.templateId) {
+      const template = await getPromptTemplate(options.templateId);
+      if (!template) {
+        throw new Error(`Prompt template not found: ${options.templateId}`);
+      }
+      return { template };
+    }
 
-      const response = await Promise.race([llmPromise, timeoutPromise]) as any;
-      
-      return response.choices[0]?.message?.content || '';
-    } catch (error) {
-      console.error('LLM call failed:', error);
-      throw error;
+    return selectPromptTemplate(domain, options.assignmentKey);
+  }
+
+  // Cache key suffix so ensemble results are not served for single-sample requests and vice versa
+  private ensembleVersion(ensemble?: EnsembleOptions): string {
+    if (!ensemble) return '';
+    const providers = ensemble.providers?.join(',') || 'default';
+    const samples = ensemble.samples ?? (ensemble.providers?.length || DEFAULT_ENSEMBLE_SAMPLES);
+    return `+ensemble:${samples}x${providers}@${ensemble.minAgreement ?? DEFAULT_MIN_AGREEMENT}`;
+  }
+
+  // Sample the analysis in parallel and merge the samples into their consensus
+  private async analyzeWithEnsemble(
+    prompt: string,
+    documents: ScoredDocument[],
+    domain: string,
+    ensemble: EnsembleOptions,
+    options: AnalysisOptions
+  ): Promise<{ data: NonNullable<RAGAnalysisResult['data']>; attempts: number; report: EnsembleReport; outputs: ModelOutputTrace[] }> {
+    const providerNames = ensemble.providers ?? [];
+    const providers = providerNames.map(name => getLLMProvider(name));
+    const samples = ensemble.samples ?? (providers.length || DEFAULT_ENSEMBLE_SAMPLES);
+    const minAgreement = ensemble.minAgreement ?? DEFAULT_MIN_AGREEMENT;
+
+    // Partial samples would interleave on the stream, so features are emitted after the consensus
+    const sampleOptions: AnalysisOptions = { ...options, onFeature: undefined };
+    const sampleProviders = Array.from({ length: samples }, (_, index) =>
+      providers.length > 0 ? providers[index % providers.length] : this.provider
+    );
+    const outcomes = await Promise.allSettled(sampleProviders.map(provider =>
+      this.callLLM(prompt, documents, domain, sampleOptions, provider)
+    ));
+
+    const failures = outcomes.flatMap(outcome => (outcome.status === 'rejected' ? [outcome.reason] : []));
+    const cancelled = failures.find(reason => reason instanceof LLMCancelledError);
+    if (cancelled) throw cancelled;
+
+    const completions = outcomes.flatMap(outcome => (outcome.status === 'fulfilled' ? [outcome.value] : []));
+    if (completions.length === 0) throw failures[0];
+    if (failures.length > 0) {
+      console.warn(`${failures.length} of ${samples} ensemble samples failed:`, failures.map(reason => reason instanceof Error ? reason.message : reason));
     }
+
+    const analyses = completions.map(completion => this.normalizeAnalysis(completion.data, documents, options.outputLanguage));
+    const consensus = buildConsensus(analyses.map(analysis => analysis.features), minAgreement);
+    const attempts = completions.reduce((sum, completion) => sum + completion.attempts, 0)
+      + failures.reduce((sum, reason) => sum + (reason instanceof StructuredOutputError ? reason.attempts : 1), 0);
+
+    return {
+      data: {
+        project_name: mostCommon(analyses.map(analysis => analysis.project_name)),
+        core_domain: mostCommon(analyses.map(analysis => analysis.core_domain)),
+        features: consensus.features
+      },
+      attempts,
+      outputs: outcomes.flatMap((outcome, index): ModelOutputTrace[] => {
+        const provider = getRouteModelId('rag-analysis', sampleProviders[index]);
+        if (outcome.status === 'fulfilled') {
+          return [{ provider, attempts: outcome.value.attempts, raw: outcome.value.raw, repairs: outcome.value.repairs }];
+        }
+        return outcome.reason instanceof StructuredOutputError
+          ? [{ provider, attempts: outcome.reason.attempts, repairs: outcome.reason.repairs }]
+          : [];
+      }),
+      report: {
+        samples,
+        successfulSamples: completions.length,
+        providers: providerNames.length > 0 ? providerNames : [getRouteModelId('rag-analysis', this.provider)],
+        minAgreement,
+        agreement: Number(consensus.agreement.toFixed(3)),
+        discarded: consensus.discarded
+      }
+    };
   }
 
-  // Parse and validate LLM response
-  private async parseAndValidateResponse(response: string): Promise<any> {
-    try {
-      // Clean and validate JSON
-      const cleanContent = cleanAndValidateJSON(response);
-      const parsed = JSON.parse(cleanContent);
+  // Call the LLM configured for the rag-analysis route and validate its output
+  private async callLLM(prompt: string, documents: ScoredDocument[], domain: string, options: AnalysisOptions, provider = this.provider) {
+    let parser: StreamingArrayParser | null = null;
+    let parserAttempt = 0;
+    let emitted = 0;
 
-      // Validate required fields
-      if (!parsed.project_name || !parsed.core_domain || !parsed.features) {
-        throw new Error('Missing required fields in LLM response');
+    // Each attempt is a fresh document, so features are re-parsed from the start
+    const onDelta = (delta: string, attempt: number) => {
+      if (attempt !== parserAttempt) {
+        parser = new StreamingArrayParser('features');
+        parserAttempt = attempt;
+        emitted = 0;
       }
 
-      if (!Array.isArray(parsed.features) || parsed.features.length === 0) {
-        throw new Error('Features array is missing or empty');
+      for (const element of parser!.push(delta)) {
+        const feature = ragFeatureSchema.safeParse(element);
+        if (feature.success) {
+          options.onFeature!(this.normalizeFeature(feature.data, domain, documents, options.outputLanguage), emitted++);
+        }
       }
+    };
 
-      // Validate each feature
-      parsed.features = parsed.features.map((feature: any, index: number) => ({
-        name: feature.name || `Feature ${index + 1}`,
-        description: feature.description || 'No description provided',
-        user_story: feature.user_story || this.generateUserStory(feature.name, parsed.core_domain),
-        priority: this.validatePriority(feature.priority),
-        functional_requirements: this.validateRequirements(feature.functional_requirements, 'functional'),
-        non_functional_requirements: this.validateRequirements(feature.non_functional_requirements, 'non-functional')
-      }));
-
-      return parsed;
+    try {
+      return await completeStructured('rag-analysis', [
+        {
+          role: 'system',
+          content: SYSTEM_PROMPT
+        },
+        {
+          role: 'user',
+          content: prompt
+        }
+      ], ragAnalysisSchema, {
+        provider,
+        signal: options.signal,
+        onRepair: options.onRepair,
+        ...(options.onFeature ? { onDelta } : {})
+      });
     } catch (error) {
-      console.error('Failed to parse LLM response:', error);
-      console.error('Raw response:', response);
+      console.error('LLM call failed:', error);
       throw error;
     }
   }
 
-  // Validate and normalize priority
-  private validatePriority(priority: string): 'HIGH' | 'MEDIUM' | 'LOW' {
-    const normalized = priority?.toUpperCase();
-    if (normalized === 'HIGH' || normalized === 'MEDIUM' || normalized === 'LOW') {
-      return normalized;
-    }
-    return 'MEDIUM'; // Default priority
+  // Fill optional fields and resolve citations on validated model output
+  private normalizeAnalysis(parsed: RAGAnalysisPayload, documents: ScoredDocument[], language?: string): NonNullable<RAGAnalysisResult['data']> {
+    return {
+      project_name: parsed.project_name,
+      core_domain: parsed.core_domain,
+      features: parsed.features.map(feature => this.normalizeFeature(feature, parsed.core_domain, documents, language))
+    };
+  }
+
+  private normalizeFeature(feature: RAGFeaturePayload, domain: string, documents: ScoredDocument[], language?: string): AnalyzedFeature {
+    return {
+      name: feature.name,
+      description: feature.description,
+      user_story: feature.user_story || this.generateUserStory(feature.name, domain, language),
+      priority: feature.priority,
+      functional_requirements: this.normalizeRequirements(feature.functional_requirements),
+      non_functional_requirements: this.normalizeRequirements(feature.non_functional_requirements),
+      sources: this.resolveCitations(feature, documents)
+    };
   }
 
-  // Validate and normalize requirements array
-  private validateRequirements(requirements: any[], type: string): string[] {
-    if (!Array.isArray(requirements)) {
-      return [`${type} requirements not specified`];
+  // Map a feature's cited document numbers to their knowledge documents
+  private resolveCitations(feature: any, documents: ScoredDocument[]): FeatureSource[] {
+    const citations = Array.isArray(feature.citations) ? feature.citations : [];
+    const featureText = `${feature.name || ''} ${feature.description || ''}`;
+    const seen = new Set<number>();
+    const sources: FeatureSource[] = [];
+
+    for (const citation of citations) {
+      // Accept 2, "2" and "[2]" but drop anything outside the numbered documents
+      const index = typeof citation === 'number' ? citation : parseInt(String(citation).replace(/[^\d]/g, ''), 10);
+      if (!Number.isInteger(index) || index < 1 || index > documents.length) {
+        console.warn(`Dropping invalid citation ${JSON.stringify(citation)} on feature "${feature.name}"`);
+        continue;
+      }
+      if (seen.has(index)) continue;
+      seen.add(index);
+
+      const { document } = documents[index - 1];
+      sources.push({
+        docId: document.id,
+        source: document.metadata.source,
+        snippet: this.bestSnippet(document.content, featureText)
+      });
     }
-    
+
+    return sources;
+  }
+
+  // Pick the sentence of a document closest to the feature it supports
+  private bestSnippet(content: string, featureText: string): string {
+    const sentences = content.match(/[^.!?]+[.!?]*/g)?.map(sentence => sentence.trim()).filter(Boolean) || [content];
+    const featureEmbedding = generateEmbedding(featureText);
+
+    const best = sentences.reduce((bestSoFar, sentence) => {
+      const score = cosineSimilarity(featureEmbedding, generateEmbedding(sentence));
+      return score > bestSoFar.score ? { sentence, score } : bestSoFar;
+    }, { sentence: sentences[0], score: -1 });
+
+    return best.sentence.length > SNIPPET_LENGTH
+      ? `${best.sentence.slice(0, SNIPPET_LENGTH - 3)}...`
+      : best.sentence;
+  }
+
+  // Normalize a requirements array
+  private normalizeRequirements(requirements: string[]): string[] {
     return requirements
-      .filter(req => typeof req === 'string' && req.trim().length > 0)
+      .filter(req => req.trim().length > 0)
       .map(req => req.trim())
       .slice(0, 5); // Limit to 5 requirements per type
   }
 
-  // Generate a fallback user story
-  private generateUserStory(featureName: string, domain: string): string {
-    const userTypes: Record<string, string> = {
-      banking: 'bank customer',
-      ecommerce: 'shopper',
-      healthcare: 'patient',
-      kyc: 'compliance officer'
-    };
+  // Generate a fallback user story in the requested language
+  private generateUserStory(featureName: string, domain: string, language = DEFAULT_LANGUAGE): string {
+    const userType = getDomainPack(domain.toLowerCase())?.userType || 'user';
+    const template = getLanguagePack(language)?.userStory
+      || 'As a {userType}, I want to use {feature} so that I can accomplish my tasks efficiently.';
 
-    const userType = userTypes[domain.toLowerCase()] || 'user';
-    
-    return `As a ${userType}, I want to use ${featureName.toLowerCase()} so that I can accomplish my tasks efficiently.`;
+    return template
+      .replace('{userType}', userType)
+      .replace('{feature}', featureName.toLowerCase())
+      .replace('{featureName}', featureName);
   }
 
   // Get system status
@@ -225,5 +605,20 @@ export class RAGOrchestration {
   }
 }
 
-// Singleton instance
-export const ragOrchestration = new RAGOrchestration();
\ No newline at end of file
+// Most frequent value, preferring the earliest on ties
+function mostCommon(values: string[]): string {
+  const counts = new Map<string, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  return values.reduce((best, value) => (counts.get(value)! > counts.get(best)! ? value : best), values[0]);
+}
+
+// Global singleton so API routes and the Socket.IO server share one instance
+declare global {
+  var _ragOrchestration: RAGOrchestration | undefined;
+}
+
+export const ragOrchestration = global._ragOrchestration || new RAGOrchestration();
+
+if (!global._ragOrchestration) {
+  global._ragOrchestration = ragOrchestration;
+}
\ No newline at end of file
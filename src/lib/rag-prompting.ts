@@ -1,129 +1,300 @@
-import { getRelevantContext } from './knowledge-base';
+import { retrieveBlendedDocuments } from './knowledge-base';
+import { DomainScore } from './domain-detection';
+import { getDomainPack } from './domain-packs';
+import { ScoredDocument } from './vector-db';
+import { PromptTemplate, DEFAULT_PROMPT_TEMPLATE } from './prompt-templates';
+import { getRouteSettings } from './llm';
+import {
+  countTokens,
+  truncateToTokens,
+  summarizeToTokens,
+  PromptBudgetOptions,
+  TokenBudgetReport
+} from './token-budget';
 
-export interface RAGPromptConfig {
-  systemRole: string;
-  instructions: string;
-  outputSchema: any;
-  domainSpecificGuidance: Record<string, string>;
+// Share of the free prompt budget the user's request may use before it is summarized
+const USER_INPUT_SHARE = 0.4;
+
+// Requests shorter than this are never summarized
+const MIN_USER_INPUT_TOKENS = 200;
+
+// Documents that would be trimmed below this size are dropped instead
+const MIN_DOCUMENT_TOKENS = 60;
+
+// A generated prompt together with the numbered documents it cites
+export interface RAGPrompt {
+  prompt: string;
+  documents: ScoredDocument[];
+  budget: TokenBudgetReport;
 }
 
-export class RAGPromptingSystem {
-  private config: RAGPromptConfig;
-
-  constructor() {
-    this.config = {
-      systemRole: `You are an expert product manager and software architect with deep domain expertise. Your task is to convert vague user ideas into detailed, structured, and technically sound application specifications. You are meticulous, think step-by-step, and your output must be in a precise JSON format.
-
-You have access to a comprehensive knowledge base containing domain-specific features, requirements, and best practices. Use this knowledge to generate highly specific and context-aware specifications.`,
-      
-      instructions: `### CRITICAL INSTRUCTIONS:
-
-1. **Domain Expertise**: Immerse yourself in the retrieved context. If the context is about banking, output banking-specific features (e.g., "Mobile Check Deposit", "Fraud Alerts"). If it's about e-commerce, output e-commerce features (e.g., "Shopping Cart", "Wishlist"). Do not output generic features.
-
-2. **Structure Your Output**: You MUST output a valid JSON object that strictly adheres to the specified schema. Do not include any other text before or after the JSON.
-
-3. **Specificity is Key**: Avoid generic phrases like "user management". Instead, specify what that means *for this domain*. For banking, it becomes "Secure Customer Onboarding (KYC)" with specific requirements about identity verification.
-
-4. **Prioritization**: Assign priorities (HIGH, MEDIUM, LOW) realistically. A "Login" feature is always HIGH. A "Branch Locator" might be MEDIUM.
-
-5. **Context-Based Generation**: Base your response SOLELY on the retrieved context and user input. Do not make up features that aren't supported by the context.
-
-6. **If Unclear**: If the user input is too vague even after context retrieval, make a reasonable assumption based on the retrieved context to complete the specification. Do not ask follow-up questions in the output.`,
-      
-      outputSchema: {
-        project_name: "A generated name for the app based on the request and domain.",
-        core_domain: "The primary domain identified (e.g., Retail Banking, E-Commerce, Health & Fitness).",
-        features: [
-          {
-            name: "A concise name for the feature (e.g., 'Biometric Login').",
-            description: "A 1-2 sentence description of the feature.",
-            user_story: "A full user story in the format: 'As a [type of user], I want to [perform some action] so that I can [achieve some goal].'",
-            priority: "HIGH | MEDIUM | LOW",
-            functional_requirements: [
-              "A specific, testable requirement. (e.g., 'The system shall allow users to authenticate using Touch ID or Face ID.')",
-              "Another specific requirement. (e.g., 'The system shall fall back to PIN entry after three failed biometric attempts.')"
-            ],
-            non_functional_requirements: [
-              "A requirement covering security, performance, etc. (e.g., 'Biometric data shall be stored securely in the device's keychain and never transmitted to external servers.')"
-            ]
-          }
-        ]
-      },
-      
-      domainSpecificGuidance: {
-        banking: `Focus on security, compliance, financial transactions, and customer trust. Features should include authentication, account management, payments, fraud detection, and regulatory compliance. Prioritize security and reliability above all else.`,
-        ecommerce: `Focus on user experience, conversion optimization, product discovery, and seamless transactions. Features should include product catalog, shopping cart, checkout, recommendations, and customer engagement. Prioritize user experience and sales conversion.`,
-        healthcare: `Focus on patient care, data privacy, regulatory compliance, and interoperability. Features should include electronic medical records, appointments, telemedicine, prescriptions, and patient engagement. Prioritize HIPAA compliance and patient safety.`,
-        kyc: `Focus on identity verification, compliance, risk assessment, and fraud prevention. Features should include identity verification, document management, AML screening, risk assessment, and compliance reporting. Prioritize regulatory compliance and security.`
-      }
-    };
-  }
+// How the prompt handles ideas that are not written in English
+export interface PromptLanguageOptions {
+  // English rendering of the request for knowledge base retrieval; defaults to the request
+  retrievalQuery?: string;
+  // Language name (e.g. "Spanish") the specification text must be written in
+  outputLanguage?: string;
+}
+
+interface PromptSections {
+  userInput: string;
+  retrievedContext: string;
+  bestPractices: string;
+}
 
-  // Generate the complete prompt for the LLM
-  async generatePrompt(userInput: string, detectedDomain: string): Promise<string> {
-    // Retrieve relevant context from knowledge base
-    const retrievedContext = await getRelevantContext(userInput, detectedDomain);
+interface FittedUserInput {
+  text: string;
+  originalTokens: number;
+  tokens: number;
+  summarized: boolean;
+}
+
+export class RAGPromptingSystem {
+  // Generate the complete prompt for the LLM from a registry template,
+  // trimming context and input so the prompt leaves room for the response.
+  // Context is blended from every domain in contextDomains (multi-domain ideas).
+  async generatePrompt(
+    userInput: string,
+    detectedDomain: string,
+    template: PromptTemplate = DEFAULT_PROMPT_TEMPLATE,
+    budget: PromptBudgetOptions = this.defaultBudget(),
+    contextDomains: DomainScore[] = [{ domain: detectedDomain, confidence: 1 }],
+    language: PromptLanguageOptions = {}
+  ): Promise<RAGPrompt> {
+    // Retrieve feature documentation and best practices separately
+    const query = language.retrievalQuery ?? userInput;
+    const featureDocuments = await retrieveBlendedDocuments(query, contextDomains, {
+      types: ['feature', 'requirement', 'user_story'],
+      limit: 5
+    });
+    const bestPracticeDocuments = await retrieveBlendedDocuments(query, contextDomains, {
+      types: ['best_practice'],
+      limit: 3
+    });
     
-    // Get domain-specific guidance
-    const domainGuidance = this.config.domainSpecificGuidance[detectedDomain as keyof typeof this.config.domainSpecificGuidance] || '';
+    // Get domain-specific guidance for each blended domain, primary first
+    const domainGuidance = this.collectGuidance(template, detectedDomain, contextDomains);
     
-    // Construct the complete prompt
-    const prompt = `
+    const render = (sections: PromptSections) => `
 ### SYSTEM ROLE:
-${this.config.systemRole}
+${template.systemRole}
 
 ### DOMAIN-SPECIFIC GUIDANCE:
 ${domainGuidance}
 
 ### CONTEXT FROM KNOWLEDGE BASE:
-${retrievedContext}
+${sections.retrievedContext}
+
+### BEST PRACTICES AND COMPLIANCE:
+${sections.bestPractices || 'No specific best practices retrieved for this request.'}
 
 ### USER'S ORIGINAL REQUEST:
-${userInput}
+${sections.userInput}
 
 ### YOUR TASK:
-Based SOLELY on the "CONTEXT FROM KNOWLEDGE BASE" and the "USER'S ORIGINAL REQUEST" provided above, generate a comprehensive and structured application specification.
+Based SOLELY on the "CONTEXT FROM KNOWLEDGE BASE" and the "USER'S ORIGINAL REQUEST" provided above, generate a comprehensive and structured application specification. Knowledge base documents are numbered in square brackets; cite the numbers of the documents each feature is based on in its "citations" array.
 
-${this.config.instructions}
+${template.instructions}
 
 ### OUTPUT SCHEMA:
 You MUST output a valid JSON object that follows this exact structure:
-${JSON.stringify(this.config.outputSchema, null, 2)}
+${JSON.stringify(template.outputSchema, null, 2)}
 
 ### REMEMBER:
 - Generate at least 5-8 core features for the identified domain
 - Make features specific to the domain, not generic
 - Include both functional and non-functional requirements
+- Reflect the "BEST PRACTICES AND COMPLIANCE" section in the non-functional requirements
+- Cite only document numbers that appear above; never invent citations
 - Write complete user stories in the specified format
 - Assign realistic priorities based on domain importance
-- Ensure the JSON is valid and properly formatted
-`;
+- Ensure the JSON is valid and properly formatted${this.languageReminder(language)}
+`.trim();
+
+    // Everything except the request and the retrieved context has a fixed cost
+    const fixedTokens = countTokens(render({ userInput: '', retrievedContext: '', bestPractices: '' }));
+    const available = budget.contextWindow - budget.reservedForOutput;
+    const input = this.fitUserInput(userInput, available - fixedTokens);
+
+    const fitted = this.fitDocuments([featureDocuments, bestPracticeDocuments], available - fixedTokens - input.tokens);
+    const [includedFeatures, includedBestPractices] = fitted.sections;
+
+    // Number documents across both sections so the model can cite them
+    const documents = [...includedFeatures, ...includedBestPractices];
+    const retrievedContext = this.formatDocuments(includedFeatures, 1);
+    const bestPractices = this.formatDocuments(includedBestPractices, includedFeatures.length + 1);
+
+    const prompt = render({ userInput: input.text, retrievedContext, bestPractices });
+
+    return {
+      prompt,
+      documents,
+      budget: this.buildReport(budget, prompt, fixedTokens, domainGuidance, input, countTokens(retrievedContext) + countTokens(bestPractices), {
+        retrieved: featureDocuments.length + bestPracticeDocuments.length,
+        included: documents.length,
+        trimmed: fitted.trimmed,
+        dropped: fitted.dropped
+      })
+    };
+  }
+
+  private collectGuidance(template: PromptTemplate, detectedDomain: string, contextDomains: DomainScore[]): string {
+    const domains = [detectedDomain, ...contextDomains.map(item => item.domain)];
+    return Array.from(new Set(domains))
+      .map(domain => this.guidanceFor(template, domain))
+      .filter(Boolean)
+      .join('\n\n');
+  }
+
+  // A template's own guidance for a domain wins over the domain pack's
+  private guidanceFor(template: PromptTemplate, domain: string): string {
+    return template.domainGuidance[domain] || getDomainPack(domain)?.guidance || '';
+  }
+
+  // Budget from the rag-analysis route configuration
+  private defaultBudget(): PromptBudgetOptions {
+    const settings = getRouteSettings('rag-analysis');
+    return {
+      contextWindow: settings.contextWindow,
+      reservedForOutput: settings.maxTokens
+    };
+  }
+
+  // Summarize the request when it would take more than its share of the free budget
+  private fitUserInput(userInput: string, freeTokens: number): FittedUserInput {
+    const limit = Math.max(MIN_USER_INPUT_TOKENS, Math.floor(freeTokens * USER_INPUT_SHARE));
+    const originalTokens = countTokens(userInput);
+
+    if (originalTokens <= limit) {
+      return { text: userInput, originalTokens, tokens: originalTokens, summarized: false };
+    }
+
+    const text = summarizeToTokens(userInput, limit);
+    return { text, originalTokens, tokens: countTokens(text), summarized: true };
+  }
+
+  // Keep the highest-scoring documents across all sections that fit the budget,
+  // trimming the first one that doesn't and dropping the rest
+  private fitDocuments(sections: ScoredDocument[][], budgetTokens: number) {
+    const ranked = sections
+      .flatMap((documents, section) => documents.map(item => ({ section, item })))
+      .sort((a, b) => b.item.score - a.item.score);
+
+    const kept = new Map<ScoredDocument, ScoredDocument>();
+    let remaining = budgetTokens;
+    let trimmed = 0;
+    let dropped = 0;
+
+    for (const { item } of ranked) {
+      // Entries are separated by a blank line and headed by their number and source
+      const headerTokens = countTokens(`[10] (Source: ${item.document.metadata.source})\n`) + 1;
+      const cost = headerTokens + countTokens(item.document.content);
+
+      if (cost <= remaining) {
+        kept.set(item, item);
+        remaining -= cost;
+      } else if (remaining - headerTokens >= MIN_DOCUMENT_TOKENS) {
+        const content = truncateToTokens(item.document.content, remaining - headerTokens);
+        kept.set(item, { ...item, document: { ...item.document, content } });
+        remaining -= headerTokens + countTokens(content);
+        trimmed++;
+      } else {
+        dropped++;
+      }
+    }
+
+    return {
+      sections: sections.map(documents => documents.filter(item => kept.has(item)).map(item => kept.get(item)!)),
+      trimmed,
+      dropped
+    };
+  }
 
-    return prompt.trim();
+  private buildReport(
+    budget: PromptBudgetOptions,
+    prompt: string,
+    fixedTokens: number,
+    domainGuidance: string,
+    input: FittedUserInput,
+    contextTokens: number,
+    documents: TokenBudgetReport['documents']
+  ): TokenBudgetReport {
+    const available = budget.contextWindow - budget.reservedForOutput;
+    const guidanceTokens = countTokens(domainGuidance);
+    const used = countTokens(prompt);
+
+    return {
+      contextWindow: budget.contextWindow,
+      reservedForOutput: budget.reservedForOutput,
+      available,
+      used,
+      sections: {
+        instructions: fixedTokens - guidanceTokens,
+        guidance: guidanceTokens,
+        userInput: input.tokens,
+        context: contextTokens
+      },
+      userInput: {
+        originalTokens: input.originalTokens,
+        tokens: input.tokens,
+        summarized: input.summarized
+      },
+      documents,
+      overBudget: used > available
+    };
+  }
+
+  // Format retrieved documents as a numbered list starting at the given index
+  private formatDocuments(documents: ScoredDocument[], startIndex: number): string {
+    return documents
+      .map((item, offset) => `[${startIndex + offset}] (Source: ${item.document.metadata.source})\n${item.document.content}`)
+      .join('\n\n');
+  }
+
+  // Output schema without the citations field, for prompts with no retrieved documents
+  private schemaWithoutCitations(outputSchema: any) {
+    const { features, ...rest } = outputSchema;
+    return {
+      ...rest,
+      features: (features || []).map(({ citations, ...feature }: any) => feature)
+    };
+  }
+
+  // Output language rule; JSON keys and enum values stay canonical so the output still validates
+  private languageReminder(language: PromptLanguageOptions): string {
+    return language.outputLanguage
+      ? `\n- Write project_name and every feature name, description, user story and requirement in ${language.outputLanguage}; keep JSON keys, priority values (HIGH, MEDIUM, LOW) and citations exactly as specified`
+      : '';
   }
 
   // Generate a fallback prompt when knowledge base is not available
-  generateFallbackPrompt(userInput: string, detectedDomain: string): string {
-    const domainGuidance = this.config.domainSpecificGuidance[detectedDomain as keyof typeof this.config.domainSpecificGuidance] || '';
+  generateFallbackPrompt(
+    userInput: string,
+    detectedDomain: string,
+    template: PromptTemplate = DEFAULT_PROMPT_TEMPLATE,
+    budget: PromptBudgetOptions = this.defaultBudget(),
+    language: PromptLanguageOptions = {}
+  ): RAGPrompt {
+    const domainGuidance = this.guidanceFor(template, detectedDomain);
     
-    return `
+    const render = (sections: Pick<PromptSections, 'userInput'>) => `
 ### SYSTEM ROLE:
-${this.config.systemRole}
+${template.systemRole}
 
 ### DOMAIN-SPECIFIC GUIDANCE:
 ${domainGuidance}
 
 ### USER'S ORIGINAL REQUEST:
-${userInput}
+${sections.userInput}
 
 ### YOUR TASK:
 Generate a comprehensive and structured application specification for the ${detectedDomain} domain based on the user's request.
 
-${this.config.instructions}
+${template.instructions}
 
 ### OUTPUT SCHEMA:
 You MUST output a valid JSON object that follows this exact structure:
-${JSON.stringify(this.config.outputSchema, null, 2)}
+${JSON.stringify(this.schemaWithoutCitations(template.outputSchema), null, 2)}
 
 ### REMEMBER:
 - Generate at least 5-8 core features for the ${detectedDomain} domain
@@ -131,20 +302,25 @@ ${JSON.stringify(this.config.outputSchema, null, 2)}
 - Include both functional and non-functional requirements
 - Write complete user stories in the specified format
 - Assign realistic priorities based on domain importance
-- Ensure the JSON is valid and properly formatted
+- Ensure the JSON is valid and properly formatted${this.languageReminder(language)}
 `.trim();
-  }
 
-  // Update configuration
-  updateConfig(newConfig: Partial<RAGPromptConfig>) {
-    this.config = { ...this.config, ...newConfig };
-  }
+    const fixedTokens = countTokens(render({ userInput: '' }));
+    const input = this.fitUserInput(userInput, budget.contextWindow - budget.reservedForOutput - fixedTokens);
+    const prompt = render({ userInput: input.text });
 
-  // Get current configuration
-  getConfig(): RAGPromptConfig {
-    return { ...this.config };
+    return {
+      prompt,
+      documents: [],
+      budget: this.buildReport(budget, prompt, fixedTokens, domainGuidance, input, 0, {
+        retrieved: 0,
+        included: 0,
+        trimmed: 0,
+        dropped: 0
+      })
+    };
   }
 }
 
 // Singleton instance
-export const ragPromptingSystem = new RAGPromptingSystem();
\ No newline at end of file
+export const ragPromptingSystem = new RAGPromptingSystem();
@@ -0,0 +1,409 @@
+// Requirements analysis of a project description
+// The description is classified into a domain and analyzed by the model with
+// that domain's prompt; when the model fails, a rule-based analysis built from
+// the domain pack takes over. Personal data is redacted before the model sees
+// it and restored in the result. Used by /api/nlp/analyze-requirements and the
+// requirements stage of /api/nlp/pipeline.
+
+import { classifyDomains, DomainClassification } from './domain-detection';
+import { getDomainPack, DomainPack, GENERAL_DOMAIN } from './domain-packs';
+import { completeStructured, getRouteModelId, StructuredOutputError } from './llm';
+import { requirementsAnalysisSchema } from './analysis-schemas';
+import { analysisCache, promptFingerprint, CacheKey } from './analysis-cache';
+import { assessCoverage } from './clarification';
+import { guardInput, restoreRedactions } from './input-guard';
+import { scoreConfidence, measureDomainSignal, measureRepairSignal, measureCoverageSignal } from './confidence';
+import { AnalysisExplanation, ModelOutputTrace, explainDomainDetection } from './analysis-explanation';
+
+export interface RequirementsAnalysisOptions {
+  projectType?: string;
+  // Include the explanation report; the model is always called
+  explain?: boolean;
+}
+
+// JSON layout requested by the domain pack prompts
+const REQUIREMENTS_JSON_STRUCTURE = `The JSON structure must be exactly as follows:
+{
+  "requirements": [
+    {
+      "id": "REQ_001",
+      "title": "Requirement Title",
+      "description": "Detailed description of the requirement",
+      "priority": "critical|high|medium|low",
+      "category": "category_name"
+    }
+  ],
+  "features": [
+    {
+      "id": "FEAT_001",
+      "name": "Feature Name",
+      "description": "Detailed description of the feature",
+      "complexity": "low|medium|high",
+      "estimatedHours": 40,
+      "category": "category_name"
+    }
+  ],
+  "constraints": ["constraint 1", "constraint 2"],
+  "assumptions": ["assumption 1", "assumption 2"],
+  "risks": [
+    {
+      "description": "Risk description",
+      "impact": "low|medium|high",
+      "probability": "low|medium|high"
+    }
+  ],
+  "priorities": [
+    {
+      "item": "priority item",
+      "priority_level": "critical|high|medium|low",
+      "justification": "reason for priority"
+    }
+  ],
+  "dependencies": [
+    {
+      "from": "source item",
+      "to": "target item",
+      "type": "dependency_type"
+    }
+  ],
+  "complexity": "low|medium|high",
+  "duration": "days|weeks|months",
+  "confidence": 0.8,
+  "detectedDomain": "domain_name"
+}`;
+
+// System prompt built from a domain pack's requirements prompt
+function renderDomainPrompt(prompt: NonNullable<DomainPack['requirementsPrompt']>): string {
+  return `You are an expert business analyst and software architect specializing in ${prompt.specialization}.
+
+${prompt.focus}
+
+Key features for ${prompt.label} systems include:
+${prompt.keyFeatures.map(feature => `- ${feature}`).join('\n')}
+${prompt.regulations.length > 0 ? `
+Regulatory considerations:
+${prompt.regulations.map(regulation => `- ${regulation}`).join('\n')}
+` : ''}
+IMPORTANT: Return ONLY a valid JSON object. Do not include any markdown formatting, headers, or explanatory text. The response must be parsable JSON.
+
+${REQUIREMENTS_JSON_STRUCTURE}
+
+Return a comprehensive analysis with domain-specific features and compliance requirements in valid JSON format only.`;
+}
+
+// Prompt sent to the model and what it returned, kept for explain requests
+interface ModelTrace {
+  prompt?: { system: string; user: string };
+  output?: ModelOutputTrace;
+}
+
+// AI-powered requirements analysis
+async function analyzeRequirementsWithAI(description: string, projectType: string, detectedDomain: string, trace?: ModelTrace) {
+  try {
+    const pack = getDomainPack(detectedDomain);
+    
+    const systemPrompt = pack?.requirementsPrompt ? renderDomainPrompt(pack.requirementsPrompt) : `You are an expert business analyst and software architect specializing in ${pack && pack.domain !== GENERAL_DOMAIN ? pack.name.toLowerCase() : 'mobile applications'}.
+
+Analyze the following project description and extract structured requirements. Focus on domain-specific features and requirements for ${detectedDomain.toUpperCase()} applications.
+
+${pack && pack.features.length > 0 ? `Domain Context: ${pack.name}
+Key Features for this domain: ${pack.features.map(f => f.name).join(', ')}
+
+Use these domain-specific features as inspiration but customize them based on the specific project description.` : ''}
+
+IMPORTANT: Return ONLY a valid JSON object. Do not include any markdown formatting, headers, or explanatory text. The response must be parsable JSON.
+
+Return a JSON object with:
+- requirements: Array of functional requirements (each with id, title, description, priority, category)
+- features: Array of specific features (each with id, name, description, complexity, estimatedHours, category)
+- constraints: Array of technical or business constraints
+- assumptions: Array of assumptions made during analysis
+- risks: Array of potential risks (each with description, impact, probability)
+- priorities: Array of priority items (each with item, priority_level, justification)
+- dependencies: Array of dependencies (each with from, to, type)
+- complexity: Overall complexity estimate (low, medium, high)
+- duration: Estimated duration (days, weeks, months)
+- confidence: Confidence in analysis (0-1)
+- detectedDomain: The detected domain (${detectedDomain})
+
+Priority levels: critical, high, medium, low
+Complexity levels: low, medium, high
+Risk impact levels: low, medium, high
+Risk probability levels: low, medium, high
+
+For ${detectedDomain.toUpperCase()} applications, focus on:
+${pack?.guidance || `- User experience and interface design
+- Core application functionality
+- Performance and scalability
+- Security best practices`}
+
+Remember: Return ONLY valid JSON without any formatting or explanation.`;
+
+    const cacheKey: CacheKey = {
+      namespace: 'requirements-analysis',
+      input: description,
+      domain: detectedDomain,
+      promptVersion: promptFingerprint(`${systemPrompt}\n${projectType}`),
+      model: getRouteModelId('requirements-analysis')
+    };
+
+    const userPrompt = `Project Description: ${description}\n\nProject Type: ${projectType}\n\nAnalyze this project and provide comprehensive requirements analysis with domain-specific features.`;
+    if (trace) {
+      trace.prompt = { system: systemPrompt, user: userPrompt };
+    }
+
+    // Explain requests always call the model so there is output to show
+    const cached = trace ? null : analysisCache.get<Record<string, unknown>>(cacheKey);
+    if (cached) {
+      return {
+        success: true as const,
+        data: {
+          ...cached.value,
+          cache: { hit: true, match: cached.match, similarity: cached.similarity, cachedAt: cached.cachedAt }
+        }
+      };
+    }
+
+    // Timeouts, provider errors and output that still fails validation after
+    // the repair attempts fall back to the rule-based analysis
+    const { data: analysis, attempts, raw, repairs } = await completeStructured('requirements-analysis', [
+      {
+        role: 'system',
+        content: systemPrompt
+      },
+      {
+        role: 'user',
+        content: userPrompt
+      }
+    ], requirementsAnalysisSchema);
+
+    if (trace) {
+      trace.output = { attempts, raw, repairs };
+    }
+
+    const data = {
+      ...analysis,
+      projectType,
+      detectedDomain,
+      llmAttempts: attempts,
+      processedAt: new Date().toISOString()
+    };
+
+    // Only model output is cached; rule-based fallbacks are cheap to recompute
+    analysisCache.set(cacheKey, data);
+
+    return {
+      success: true as const,
+      data: { ...data, cache: { hit: false } }
+    };
+  } catch (error) {
+    console.warn('AI requirement analysis failed:', error);
+    if (trace && error instanceof StructuredOutputError) {
+      trace.output = { attempts: error.attempts, repairs: error.repairs };
+    }
+    // Not success, so analyzeRequirements falls back and scores the result as rule-based
+    return {
+      success: false as const,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+// Shape of the rule-based analysis; domain pack templates fit it
+interface RuleBasedAnalysis {
+  projectType: string;
+  detectedDomain: string;
+  requirements: Array<{ id: string; title: string; description: string; priority: string; category: string }>;
+  features: Array<{ id: string; name: string; description: string; complexity: string; estimatedHours?: number; category?: string }>;
+  constraints: string[];
+  assumptions: string[];
+  risks: Array<{ description: string; impact: string; probability: string }>;
+  priorities: unknown[];
+  dependencies: unknown[];
+  complexity: string;
+  duration: string;
+}
+
+// Rule-based requirement analysis fallback
+function analyzeRequirementsRuleBased(description: string, projectType: string, detectedDomain: string) {
+  const analysis: RuleBasedAnalysis = {
+    projectType,
+    detectedDomain,
+    requirements: [],
+    features: [],
+    constraints: [],
+    assumptions: [],
+    risks: [],
+    priorities: [],
+    dependencies: [],
+    complexity: 'medium',
+    duration: 'weeks'
+  };
+
+  const lowerDesc = description.toLowerCase();
+  const pack = getDomainPack(detectedDomain);
+
+  // Use domain-specific requirements if available
+  if (pack && pack.requirements.length > 0) {
+    analysis.requirements = pack.requirements;
+  } else {
+    // Extract basic requirements
+    if (lowerDesc.includes('user') || lowerDesc.includes('login') || lowerDesc.includes('auth')) {
+      analysis.requirements.push({
+        id: 'REQ_001',
+        title: 'User Management',
+        description: 'System should support user registration and authentication',
+        priority: 'high',
+        category: 'security'
+      });
+    }
+    
+    if (lowerDesc.includes('data') || lowerDesc.includes('storage') || lowerDesc.includes('database')) {
+      analysis.requirements.push({
+        id: 'REQ_002',
+        title: 'Data Management',
+        description: 'System should provide data storage and retrieval capabilities',
+        priority: 'medium',
+        category: 'data'
+      });
+    }
+  }
+
+  // Use domain-specific features if available
+  if (pack && pack.features.length > 0) {
+    analysis.features = pack.features;
+  } else {
+    // Extract features
+    const featureMap = [
+      { keyword: 'fitness', name: 'Fitness Tracking', complexity: 'medium', hours: 25 },
+      { keyword: 'payment', name: 'Payment Processing', complexity: 'high', hours: 45 },
+      { keyword: 'social', name: 'Social Integration', complexity: 'medium', hours: 30 },
+      { keyword: 'notification', name: 'Push Notifications', complexity: 'medium', hours: 20 },
+      { keyword: 'camera', name: 'Camera Integration', complexity: 'high', hours: 35 }
+    ];
+    
+    featureMap.forEach(({ keyword, name, complexity, hours }) => {
+      if (lowerDesc.includes(keyword)) {
+        analysis.features.push({
+          id: `FEAT_${analysis.features.length + 1}`,
+          name,
+          description: `Include ${name.toLowerCase()} functionality`,
+          complexity,
+          estimatedHours: hours
+        });
+      }
+    });
+  }
+
+  // Add domain-specific constraints
+  if (pack?.constraints || pack?.assumptions || pack?.risks) {
+    analysis.constraints.push(...(pack.constraints || []));
+    analysis.assumptions.push(...(pack.assumptions || []));
+    analysis.risks.push(...(pack.risks || []));
+  } else {
+    // Generic constraints
+    if (lowerDesc.includes('budget') || lowerDesc.includes('cost')) {
+      analysis.constraints.push('Budget limitations may affect feature scope');
+    }
+
+    if (lowerDesc.includes('timeline') || lowerDesc.includes('deadline')) {
+      analysis.constraints.push('Timeline constraints may require prioritization');
+    }
+
+    // Add common assumptions
+    analysis.assumptions.push(
+      'Users will have modern smartphones',
+      'Internet connectivity will be available',
+      'Basic technical knowledge of target users'
+    );
+
+    // Add common risks
+    analysis.risks.push(
+      {
+        description: 'Technical complexity may exceed initial estimates',
+        impact: 'medium',
+        probability: 'medium'
+      },
+      {
+        description: 'User adoption may be lower than expected',
+        impact: 'high',
+        probability: 'low'
+      }
+    );
+  }
+
+  // Calculate complexity
+  const totalHours = analysis.features.reduce((sum, f) => sum + (f.estimatedHours || 20), 0);
+  let complexity = 'low';
+  if (totalHours > 80) complexity = 'high';
+  else if (totalHours > 40) complexity = 'medium';
+  
+  analysis.complexity = complexity;
+  analysis.duration = totalHours > 60 ? 'months' : 'weeks';
+
+  return {
+    success: true,
+    data: {
+      ...analysis,
+      processedAt: new Date().toISOString()
+    }
+  };
+}
+
+// Confidence from the classifier, the model's repair attempts (none for rule-based
+// results) and how completely the description specifies the app
+function assessConfidence(description: string, classification: DomainClassification, llmAttempts: number) {
+  const confidenceBreakdown = scoreConfidence({
+    domain: measureDomainSignal(classification.distribution),
+    repairs: measureRepairSignal(llmAttempts),
+    coverage: measureCoverageSignal(assessCoverage(description, classification.domain))
+  });
+  return { confidence: confidenceBreakdown.score, confidenceBreakdown };
+}
+
+// Explanation report for explain requests; requirements analysis retrieves no documents
+function buildExplanation(description: string, classification: DomainClassification, trace: ModelTrace, inputGuard: AnalysisExplanation['inputGuard']): AnalysisExplanation {
+  return {
+    domain: explainDomainDetection(description, classification.domain, classification.distribution, classification.domains),
+    retrieval: { contextRetrieved: false, documents: [] },
+    ...(trace.prompt ? { prompt: trace.prompt } : {}),
+    outputs: trace.output ? [trace.output] : [],
+    inputGuard
+  };
+}
+
+// Analyze a description; throws InputRejectedError when the input guard blocks it
+export async function analyzeRequirements(description: string, { projectType = 'mobile-app', explain = false }: RequirementsAnalysisOptions = {}) {
+  // Detect domain from description
+  const classification = classifyDomains(description);
+  const detectedDomain = classification.domain;
+  console.log(`Detected domain: ${detectedDomain} (${classification.domains.join(', ') || 'no specific domain'})`);
+
+  // Redact personal data before the description reaches the model
+  const screened = guardInput('requirements-analysis', description);
+
+  // Try AI-powered analysis first
+  const trace: ModelTrace | undefined = explain ? {} : undefined;
+  const aiResult = await analyzeRequirementsWithAI(screened.text, projectType, detectedDomain, trace);
+  const explanation = trace ? { explanation: buildExplanation(screened.text, classification, trace, screened.report) } : {};
+
+  if (aiResult.success) {
+    return {
+      ...restoreRedactions(aiResult.data, screened),
+      inputGuard: screened.report,
+      ...assessConfidence(description, classification, 'llmAttempts' in aiResult.data ? Number(aiResult.data.llmAttempts) : 1),
+      domains: classification.distribution,
+      ...explanation
+    };
+  }
+
+  // Fallback to rule-based analysis
+  const ruleBasedResult = analyzeRequirementsRuleBased(description, projectType, detectedDomain);
+  return {
+    ...ruleBasedResult.data,
+    inputGuard: screened.report,
+    ...assessConfidence(description, classification, 0),
+    domains: classification.distribution,
+    ...explanation
+  };
+}
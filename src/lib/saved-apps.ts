@@ -0,0 +1,78 @@
+// Saved apps, shared by the saved-apps routes and batch saving
+// Kept in memory for now (in production, this would use a database).
+
+import { webhookDispatcher } from './webhook-dispatcher';
+
+export interface SavedApp {
+  id: string;
+  name: string;
+  description: string;
+  originalInput: string;
+  domain: string;
+  // JSON-serialized fields
+  requirements: string;
+  specifications: string;
+  metadata: string;
+  isTemplate: boolean;
+  tags: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SavedAppInput {
+  name: string;
+  description?: string;
+  originalInput: string;
+  domain?: string;
+  requirements: unknown;
+  specifications?: unknown;
+  metadata?: unknown;
+  isTemplate?: boolean;
+  tags?: unknown;
+}
+
+declare global {
+  var _savedApps: Map<string, SavedApp> | undefined;
+}
+
+// One store per process, shared by every route bundle
+export const savedApps: Map<string, SavedApp> = global._savedApps || new Map();
+
+if (!global._savedApps) {
+  global._savedApps = savedApps;
+}
+
+const toJson = (value: unknown) => (typeof value === 'string' ? value : JSON.stringify(value));
+
+// Store a new app; JSON fields may be given as objects or as serialized strings
+export function createSavedApp({
+  name,
+  description,
+  originalInput,
+  domain,
+  requirements,
+  specifications,
+  metadata = {},
+  isTemplate = false,
+  tags = []
+}: SavedAppInput): SavedApp {
+  const savedApp: SavedApp = {
+    id: `app_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    name,
+    description: description || '',
+    originalInput,
+    domain: domain || 'general',
+    requirements: toJson(requirements),
+    specifications: specifications ? toJson(specifications) : '{}',
+    metadata: toJson(metadata),
+    isTemplate,
+    tags: toJson(tags),
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString()
+  };
+
+  savedApps.set(savedApp.id, savedApp);
+  console.log(`Saved app: ${savedApp.name} (${savedApp.id})`);
+  void webhookDispatcher.emit('saved_app.created', { app: savedApp });
+  return savedApp;
+}
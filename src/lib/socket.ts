@@ -1,8 +1,20 @@
 import { Server } from 'socket.io';
+import { registerAnalysisHandlers } from './analysis-socket';
+import { registerPipelineHandlers } from './pipeline-socket';
+import { pipelineEvents } from './pipeline-events';
 
 export const setupSocket = (io: Server) => {
+  // Pipeline job progress goes to per-job rooms
+  pipelineEvents.attach(io);
+
   io.on('connection', (socket) => {
     console.log('Client connected:', socket.id);
+
+    // Streaming requirement analyses
+    registerAnalysisHandlers(socket);
+
+    // Progress of queued pipeline jobs
+    registerPipelineHandlers(socket);
     
     // Handle messages
     socket.on('message', (msg: { text: string; senderId: string }) => {
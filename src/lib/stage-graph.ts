@@ -0,0 +1,156 @@
+// Declarative pipelines: named stages with dependencies and conditions
+// A stage starts as soon as every stage it depends on has completed, so
+// independent stages run in parallel. Each stage sees the outputs of the stages
+// before it. A stage whose dependency failed or was skipped is skipped too.
+
+export type StageStatus = 'completed' | 'failed' | 'skipped';
+
+export interface StageContext<TInput> {
+  input: TInput;
+  // Outputs of completed stages by name
+  outputs: Record<string, any>;
+}
+
+export interface StageDefinition<TInput> {
+  name: string;
+  dependsOn?: string[];
+  // The stage is skipped when this returns false
+  when?: (context: StageContext<TInput>) => boolean;
+  run: (context: StageContext<TInput>) => Promise<unknown>;
+}
+
+export interface StageResult {
+  stage: string;
+  status: StageStatus;
+  output?: unknown;
+  error?: string;
+  // Why a stage was skipped
+  reason?: string;
+  startedAt?: string;
+  durationMs?: number;
+}
+
+export interface StageGraphHooks {
+  onStageStarted?: (stage: string) => void;
+  onStageFinished?: (result: StageResult) => void;
+}
+
+export interface StageGraphRun {
+  stages: StageResult[];
+  outputs: Record<string, any>;
+}
+
+// Check that names are unique, dependencies exist and there are no cycles
+export function validateStageGraph<TInput>(stages: StageDefinition<TInput>[]) {
+  const byName = new Map<string, StageDefinition<TInput>>();
+  for (const stage of stages) {
+    if (byName.has(stage.name)) {
+      throw new Error(`Stage "${stage.name}" is defined twice`);
+    }
+    byName.set(stage.name, stage);
+  }
+
+  for (const stage of stages) {
+    for (const dependency of stage.dependsOn ?? []) {
+      if (!byName.has(dependency)) {
+        throw new Error(`Stage "${stage.name}" depends on unknown stage "${dependency}"`);
+      }
+    }
+  }
+
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+  const visit = (name: string, path: string[]) => {
+    if (visited.has(name)) return;
+    if (visiting.has(name)) {
+      throw new Error(`Stage graph has a cycle: ${[...path, name].join(' -> ')}`);
+    }
+    visiting.add(name);
+    for (const dependency of byName.get(name)!.dependsOn ?? []) {
+      visit(dependency, [...path, name]);
+    }
+    visiting.delete(name);
+    visited.add(name);
+  };
+  stages.forEach(stage => visit(stage.name, []));
+}
+
+// The named stages plus every stage they depend on, in definition order
+export function selectStages<TInput>(stages: StageDefinition<TInput>[], names: string[]): StageDefinition<TInput>[] {
+  const byName = new Map(stages.map(stage => [stage.name, stage]));
+  const selected = new Set<string>();
+  const include = (name: string) => {
+    const stage = byName.get(name);
+    if (!stage) {
+      throw new Error(`Unknown stage "${name}"`);
+    }
+    if (selected.has(name)) return;
+    selected.add(name);
+    (stage.dependsOn ?? []).forEach(include);
+  };
+  names.forEach(include);
+  return stages.filter(stage => selected.has(stage.name));
+}
+
+export async function runStageGraph<TInput>(
+  stages: StageDefinition<TInput>[],
+  input: TInput,
+  hooks: StageGraphHooks = {}
+): Promise<StageGraphRun> {
+  validateStageGraph(stages);
+
+  const context: StageContext<TInput> = { input, outputs: {} };
+  const byName = new Map(stages.map(stage => [stage.name, stage]));
+  const running = new Map<string, Promise<StageResult>>();
+
+  const finish = (result: StageResult) => {
+    hooks.onStageFinished?.(result);
+    return result;
+  };
+
+  const execute = async (stage: StageDefinition<TInput>): Promise<StageResult> => {
+    const dependencies = await Promise.all((stage.dependsOn ?? []).map(name => settle(name)));
+    const blocked = dependencies.find(dependency => dependency.status !== 'completed');
+    if (blocked) {
+      return finish({ stage: stage.name, status: 'skipped', reason: `Dependency "${blocked.stage}" ${blocked.status}` });
+    }
+    if (stage.when && !stage.when(context)) {
+      return finish({ stage: stage.name, status: 'skipped', reason: 'Condition not met' });
+    }
+
+    const startedAt = new Date();
+    hooks.onStageStarted?.(stage.name);
+    try {
+      const output = await stage.run(context);
+      context.outputs[stage.name] = output;
+      return finish({
+        stage: stage.name,
+        status: 'completed',
+        output,
+        startedAt: startedAt.toISOString(),
+        durationMs: Date.now() - startedAt.getTime()
+      });
+    } catch (error) {
+      return finish({
+        stage: stage.name,
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        startedAt: startedAt.toISOString(),
+        durationMs: Date.now() - startedAt.getTime()
+      });
+    }
+  };
+
+  // Each stage runs once, however many stages wait on it
+  const settle = (name: string): Promise<StageResult> => {
+    let result = running.get(name);
+    if (!result) {
+      result = execute(byName.get(name)!);
+      running.set(name, result);
+    }
+    return result;
+  };
+
+  const results = await Promise.all(stages.map(stage => settle(stage.name)));
+  return { stages: results, outputs: context.outputs };
+}
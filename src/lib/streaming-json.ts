@@ -0,0 +1,81 @@
+// Incremental parser that pulls complete elements out of one array in a JSON
+// object while the object is still being streamed, e.g. each entry of
+// "features" as soon as its closing brace arrives
+
+import { extractJSON } from './json-utils';
+
+export class StreamingArrayParser {
+  private buffer = '';
+  private position = 0;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private stringStart = -1;
+  private lastKey: string | null = null;
+  private arrayDepth: number | null = null;
+  private elementStart = -1;
+  private finished = false;
+
+  constructor(private readonly key: string) {}
+
+  // Feed the next chunk of text and return the elements it completed
+  push(chunk: string): unknown[] {
+    this.buffer += chunk;
+    const elements: unknown[] = [];
+
+    for (; this.position < this.buffer.length && !this.finished; this.position++) {
+      const char = this.buffer[this.position];
+
+      if (this.inString) {
+        if (this.escaped) this.escaped = false;
+        else if (char === '\\') this.escaped = true;
+        else if (char === '"') {
+          this.inString = false;
+          if (this.depth === 1) this.lastKey = this.buffer.slice(this.stringStart + 1, this.position);
+        }
+        continue;
+      }
+
+      // Prose before the opening brace is ignored
+      if (this.depth === 0 && char !== '{') continue;
+
+      switch (char) {
+        case '"':
+          this.inString = true;
+          this.stringStart = this.position;
+          break;
+        case '{':
+          if (this.arrayDepth !== null && this.depth === this.arrayDepth) this.elementStart = this.position;
+          this.depth++;
+          break;
+        case '[':
+          this.depth++;
+          if (this.arrayDepth === null && this.depth === 2 && this.lastKey === this.key) this.arrayDepth = this.depth;
+          break;
+        case '}':
+          this.depth--;
+          if (this.arrayDepth !== null && this.depth === this.arrayDepth && this.elementStart !== -1) {
+            const element = this.parseElement(this.buffer.slice(this.elementStart, this.position + 1));
+            if (element !== undefined) elements.push(element);
+            this.elementStart = -1;
+          }
+          break;
+        case ']':
+          if (this.arrayDepth !== null && this.depth === this.arrayDepth) this.finished = true;
+          this.depth--;
+          break;
+      }
+    }
+
+    return elements;
+  }
+
+  private parseElement(text: string): unknown {
+    try {
+      return extractJSON(text);
+    } catch {
+      console.warn(`Skipping unparseable ${this.key} element in stream`);
+      return undefined;
+    }
+  }
+}
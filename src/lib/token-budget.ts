@@ -0,0 +1,136 @@
+// Token counting and trimming used to keep prompts inside the model context window
+
+import { generateEmbedding, cosineSimilarity } from './embeddings';
+
+// Pre-tokenization pattern of GPT-style BPE tokenizers
+const PRETOKENIZE = /'(?:s|t|re|ve|m|ll|d)| ?\p{L}+| ?\p{N}+| ?[^\s\p{L}\p{N}]+|\s+/gu;
+
+// Scripts such as CJK are written without spaces and cost about one token per character
+const WIDE_SCRIPT = /[\u2E80-\u9FFF\uAC00-\uD7AF\uF900-\uFAFF]/;
+
+const SENTENCE = /[^.!?\n]+(?:[.!?]+|\n+|$)/g;
+
+export interface PromptBudgetOptions {
+  contextWindow: number;
+  reservedForOutput: number;
+}
+
+// Token accounting for one assembled prompt, reported in analysis metadata
+export interface TokenBudgetReport {
+  contextWindow: number;
+  reservedForOutput: number;
+  available: number;
+  used: number;
+  sections: {
+    instructions: number;
+    guidance: number;
+    userInput: number;
+    context: number;
+  };
+  userInput: {
+    originalTokens: number;
+    tokens: number;
+    summarized: boolean;
+  };
+  documents: {
+    retrieved: number;
+    included: number;
+    trimmed: number;
+    dropped: number;
+  };
+  overBudget: boolean;
+}
+
+// Approximate BPE token count: text is pre-tokenized like GPT tokenizers, then
+// long pieces are charged per few characters. It slightly over-counts English,
+// so budgets err on the safe side.
+export function countTokens(text: string): number {
+  let tokens = 0;
+
+  for (const [piece] of text.matchAll(PRETOKENIZE)) {
+    const trimmed = piece.trim();
+    if (!trimmed) {
+      tokens += 1;
+    } else if (WIDE_SCRIPT.test(trimmed)) {
+      tokens += trimmed.length;
+    } else if (/^\p{N}+$/u.test(trimmed)) {
+      tokens += Math.ceil(trimmed.length / 3);
+    } else if (/^\p{L}+$/u.test(trimmed)) {
+      tokens += trimmed.length <= 6 ? 1 : Math.ceil(trimmed.length / 4);
+    } else {
+      tokens += Math.ceil(trimmed.length / 2);
+    }
+  }
+
+  return tokens;
+}
+
+function splitSentences(text: string): string[] {
+  return (text.match(SENTENCE) || []).map(sentence => sentence.trim()).filter(Boolean);
+}
+
+// Longest run of leading parts, joined by spaces, within a token limit. The
+// count only grows as parts are added, so the cut is found by binary search.
+function longestPrefixWithin(parts: string[], limit: number): string {
+  let low = 0;
+  let high = parts.length;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (countTokens(parts.slice(0, middle).join(' ')) <= limit) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return parts.slice(0, low).join(' ');
+}
+
+// Cut text to a token limit, preferring sentence and then word boundaries
+export function truncateToTokens(text: string, maxTokens: number): string {
+  if (countTokens(text) <= maxTokens) {
+    return text;
+  }
+
+  const limit = maxTokens - 1; // room for the ellipsis
+  const result = longestPrefixWithin(splitSentences(text), limit) ||
+    longestPrefixWithin(text.split(/\s+/), limit);
+
+  return `${result}…`;
+}
+
+// Extractive summary: keep the sentences closest to the text as a whole
+// (with a bias towards the opening) in their original order
+export function summarizeToTokens(text: string, maxTokens: number): string {
+  if (countTokens(text) <= maxTokens) {
+    return text;
+  }
+
+  const sentences = splitSentences(text);
+  const documentEmbedding = generateEmbedding(text);
+  const ranked = sentences
+    .map((sentence, index) => ({
+      index,
+      sentence,
+      tokens: countTokens(sentence) + 1,
+      score: cosineSimilarity(documentEmbedding, generateEmbedding(sentence)) + 0.2 / (index + 1)
+    }))
+    .sort((a, b) => b.score - a.score);
+
+  const selected: typeof ranked = [];
+  let used = 0;
+  for (const candidate of ranked) {
+    if (used + candidate.tokens <= maxTokens) {
+      selected.push(candidate);
+      used += candidate.tokens;
+    }
+  }
+
+  if (selected.length === 0) {
+    return truncateToTokens(text, maxTokens);
+  }
+
+  return selected
+    .sort((a, b) => a.index - b.index)
+    .map(candidate => candidate.sentence)
+    .join(' ');
+}
@@ -1,8 +1,15 @@
-// Mock vector database implementation for development
-// In production, this would use a real vector database like Supabase with pgvector
+// In-memory vector database backed by local character n-gram embeddings
+// In production, this could be swapped for Supabase with pgvector
+
+import { generateEmbedding, cosineSimilarity, EMBEDDING_DIMENSIONS } from './embeddings';
+import { lexicalTokens, bm25Scores, reciprocalRankFusion } from './bm25';
+
+// Documents scoring below this cosine similarity are treated as unrelated
+export const DEFAULT_MIN_SIMILARITY = 0.1;
 
 export class VectorDatabase {
-  private knowledgeStore: Map<string, any[]> = new Map();
+  private knowledgeStore: Map<string, KnowledgeDocument[]> = new Map();
+  private lexicalIndex: Map<string, string[]> = new Map();
 
   constructor() {
     // Initialize with empty knowledge store
@@ -10,83 +17,153 @@ export class VectorDatabase {
 
   // Initialize the vector database with required tables
   async initialize() {
-    console.log('Mock vector database initialized successfully');
+    console.log('Vector database initialized successfully');
   }
 
   // Add documents to the knowledge base
-  async addDocuments(documents: any[]) {
+  async addDocuments(documents: KnowledgeDocument[]) {
     try {
-      for (const doc of documents) {
+      const embedded = documents.map(doc => ({
+        ...doc,
+        embedding: doc.embedding?.length === EMBEDDING_DIMENSIONS
+          ? doc.embedding
+          : generateEmbedding(doc.content)
+      }));
+
+      for (const doc of embedded) {
+        // Re-adding a document replaces the previous version, even across domains
+        this.removeDocument(doc.id);
         if (!this.knowledgeStore.has(doc.domain)) {
           this.knowledgeStore.set(doc.domain, []);
         }
         this.knowledgeStore.get(doc.domain)!.push(doc);
+        this.lexicalIndex.set(doc.id, lexicalTokens(doc.content));
       }
       
-      console.log(`Added ${documents.length} documents to knowledge base`);
-      return documents;
+      console.log(`Added ${embedded.length} documents to knowledge base`);
+      return embedded;
     } catch (error) {
       console.error('Failed to add documents:', error);
       throw error;
     }
   }
 
-  // Search for relevant documents using vector similarity (mock implementation)
-  async searchRelevantContext(query: string, domain: string, limit: number = 5): Promise<string[]> {
-    try {
-      const domainDocuments = this.knowledgeStore.get(domain) || [];
-      
-      if (domainDocuments.length === 0) {
-        console.warn(`No documents found for domain: ${domain}`);
-        return [];
+  // Remove a document from the knowledge base by id
+  removeDocument(id: string): boolean {
+    for (const [domain, documents] of this.knowledgeStore.entries()) {
+      const index = documents.findIndex(doc => doc.id === id);
+      if (index !== -1) {
+        documents.splice(index, 1);
+        this.lexicalIndex.delete(id);
+        if (documents.length === 0) {
+          this.knowledgeStore.delete(domain);
+        }
+        return true;
       }
-      
-      // Simple keyword-based matching for mock implementation
-      const queryWords = query.toLowerCase().split(/\s+/);
-      const scoredDocs = domainDocuments.map(doc => {
-        const content = doc.content.toLowerCase();
-        const score = queryWords.reduce((acc, word) => {
-          return acc + (content.includes(word) ? 1 : 0);
-        }, 0);
-        return { doc, score };
-      });
-      
-      // Sort by score and return top results
-      const topDocs = scoredDocs
-        .sort((a, b) => b.score - a.score)
-        .slice(0, limit)
-        .map(item => item.doc.content);
-      
-      return topDocs;
-    } catch (error) {
-      console.error('Failed to search knowledge base:', error);
-      return [];
     }
+    return false;
+  }
+
+  // Remove all documents from the knowledge base
+  clear() {
+    this.knowledgeStore.clear();
+    this.lexicalIndex.clear();
   }
 
-  // Generate embedding for text (mock implementation)
-  private async generateEmbedding(text: string): Promise<number[]> {
-    // Mock embedding generation
-    const words = text.toLowerCase().split(/\s+/);
-    const embedding = new Array(1536).fill(0); // Standard embedding size
+  // Search for relevant documents ranked by cosine similarity
+  async searchDocuments(
+    query: string,
+    domain: string,
+    limit: number = 5,
+    minScore: number = DEFAULT_MIN_SIMILARITY
+  ): Promise<ScoredDocument[]> {
+    const domainDocuments = this.knowledgeStore.get(domain) || [];
+    
+    if (domainDocuments.length === 0) {
+      console.warn(`No documents found for domain: ${domain}`);
+      return [];
+    }
     
-    words.forEach((word, index) => {
-      const hash = this.simpleHash(word);
-      embedding[index % embedding.length] = (hash % 1000) / 1000;
-    });
+    const queryEmbedding = generateEmbedding(query);
     
-    return embedding;
+    return domainDocuments
+      .map(document => ({
+        document,
+        score: cosineSimilarity(queryEmbedding, document.embedding)
+      }))
+      .filter(item => item.score >= minScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  // Hybrid search fusing BM25 and embedding rankings with reciprocal rank fusion
+  async hybridSearch(query: string, options: HybridSearchOptions): Promise<ScoredDocument[]> {
+    const limit = options.limit ?? 5;
+    const results = this.rankCandidates(query, options.domains, options, limit);
+
+    // Top up with general-domain documents when the requested domains run short
+    if (options.fallbackToGeneral && results.length < limit && !options.domains.includes('general')) {
+      results.push(...this.rankCandidates(query, ['general'], options, limit - results.length));
+    }
+
+    return results;
   }
 
-  // Simple hash function for mock embeddings
-  private simpleHash(str: string): number {
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32-bit integer
+  private rankCandidates(
+    query: string,
+    domains: string[],
+    options: HybridSearchOptions,
+    limit: number
+  ): ScoredDocument[] {
+    const minScore = options.minScore ?? DEFAULT_MIN_SIMILARITY;
+    const candidates = domains
+      .flatMap(domain => this.knowledgeStore.get(domain) || [])
+      .filter(doc => !options.types || options.types.length === 0 || options.types.includes(doc.metadata.type))
+      .filter(doc => !options.tags || options.tags.every(tag => doc.metadata.tags.includes(tag)));
+
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    const queryEmbedding = generateEmbedding(query);
+    const vectorScores = candidates.map(doc => cosineSimilarity(queryEmbedding, doc.embedding));
+    const lexicalScores = bm25Scores(
+      lexicalTokens(query),
+      candidates.map(doc => this.lexicalIndex.get(doc.id) || lexicalTokens(doc.content))
+    );
+
+    const rankBy = (scores: number[], threshold: number) => candidates
+      .map((doc, index) => ({ id: doc.id, score: scores[index] }))
+      .filter(item => item.score >= threshold && item.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .map(item => item.id);
+
+    const fused = reciprocalRankFusion([
+      rankBy(vectorScores, minScore),
+      rankBy(lexicalScores, 0)
+    ]);
+
+    return candidates
+      .map((document, index) => ({
+        document,
+        score: fused.get(document.id) || 0,
+        vectorScore: vectorScores[index],
+        lexicalScore: lexicalScores[index]
+      }))
+      .filter(item => item.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  // Search for relevant document contents using vector similarity
+  async searchRelevantContext(query: string, domain: string, limit: number = 5): Promise<string[]> {
+    try {
+      const results = await this.searchDocuments(query, domain, limit);
+      return results.map(item => item.document.content);
+    } catch (error) {
+      console.error('Failed to search knowledge base:', error);
+      return [];
     }
-    return Math.abs(hash);
   }
 
   // Get all domains in the knowledge base
@@ -104,9 +181,43 @@ export interface KnowledgeDocument {
     source: string;
     type: 'feature' | 'requirement' | 'user_story' | 'best_practice';
     tags: string[];
+    provenance?: DocumentProvenance;
   };
   embedding: number[];
 }
 
-// Singleton instance
-export const vectorDb = new VectorDatabase();
\ No newline at end of file
+// Where an ingested document chunk came from
+export interface DocumentProvenance {
+  fileName: string;
+  section?: string;
+  chunkIndex: number;
+  totalChunks: number;
+  ingestedAt: string;
+}
+
+export interface ScoredDocument {
+  document: KnowledgeDocument;
+  score: number;
+  vectorScore?: number;
+  lexicalScore?: number;
+}
+
+export interface HybridSearchOptions {
+  domains: string[];
+  limit?: number;
+  types?: KnowledgeDocument['metadata']['type'][];
+  tags?: string[];
+  fallbackToGeneral?: boolean;
+  minScore?: number;
+}
+
+// Global singleton so API routes and the Socket.IO server share one index
+declare global {
+  var _vectorDb: VectorDatabase | undefined;
+}
+
+export const vectorDb = global._vectorDb || new VectorDatabase();
+
+if (!global._vectorDb) {
+  global._vectorDb = vectorDb;
+}
\ No newline at end of file
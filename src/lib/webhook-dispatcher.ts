@@ -0,0 +1,247 @@
+// Outbound webhooks for pipeline and saved-app events
+// Every event becomes one delivery per matching subscription. Deliveries are
+// sent as signed JSON POSTs and retried with exponential backoff until the
+// receiver answers 2xx, rejects the payload outright or attempts run out.
+//
+// Receivers verify a delivery by recomputing the signature header:
+//   X-Webhook-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>" keyed by the secret>
+
+import { createHmac, randomBytes } from 'crypto';
+import {
+  ALL_WEBHOOK_EVENTS,
+  getWebhookStore,
+  WebhookDelivery,
+  WebhookDeliveryUpdate,
+  WebhookEvent,
+  WebhookSubscription
+} from './webhook-store';
+
+export const DEFAULT_MAX_DELIVERY_ATTEMPTS = 6;
+
+// How often due deliveries are checked when no event wakes the dispatcher
+const POLL_INTERVAL_MS = 2000;
+const DELIVERY_CONCURRENCY = 4;
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+// First retry delay; doubled for every further attempt up to the maximum
+const RETRY_BASE_DELAY_MS = 10 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+// A claim older than this belongs to a dispatcher that is no longer running;
+// stale claims are looked for every STALE_CHECK_INTERVAL_MS
+const STALE_CLAIM_MS = 5 * 60 * 1000;
+const STALE_CHECK_INTERVAL_MS = 60 * 1000;
+
+// Only the start of a receiver's response is kept in the delivery log
+const MAX_RESPONSE_LENGTH = 1000;
+
+export interface WebhookEnvelope<T = unknown> {
+  // Same for every delivery and redelivery of the event, for deduplication
+  id: string;
+  type: WebhookEvent;
+  createdAt: string;
+  data: T;
+}
+
+// Delay before the given retry (1 = first retry)
+export function webhookRetryDelay(retry: number): number {
+  return Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (retry - 1));
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+function subscribesTo(subscription: WebhookSubscription, event: WebhookEvent): boolean {
+  return subscription.active && (subscription.events.includes(event) || subscription.events.includes(ALL_WEBHOOK_EVENTS));
+}
+
+// Timeouts, rate limits and server errors may pass; other client errors will not
+function isRetryable(statusCode: number): boolean {
+  return statusCode === 408 || statusCode === 429 || statusCode >= 500;
+}
+
+export class WebhookDispatcher {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private started = false;
+  private ticking = false;
+  private inFlight = 0;
+  private lastStaleCheck = 0;
+
+  // Start polling for due deliveries; safe to call repeatedly
+  start() {
+    if (this.started) return;
+    this.started = true;
+    this.schedule(0);
+  }
+
+  stop() {
+    this.started = false;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  // Queue a delivery of the event to every subscription that wants it.
+  // Never throws, so callers can emit without guarding their own response.
+  async emit<T>(event: WebhookEvent, data: T): Promise<WebhookDelivery[]> {
+    try {
+      const store = await getWebhookStore();
+      const subscriptions = (await store.listSubscriptions()).filter(subscription => subscribesTo(subscription, event));
+      if (subscriptions.length === 0) return [];
+
+      const envelope: WebhookEnvelope<T> = {
+        id: `evt_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`,
+        type: event,
+        createdAt: new Date().toISOString(),
+        data
+      };
+      const payload = JSON.stringify(envelope);
+
+      const deliveries = await Promise.all(subscriptions.map(subscription => store.createDelivery({
+        subscriptionId: subscription.id,
+        eventId: envelope.id,
+        event,
+        payload,
+        maxAttempts: DEFAULT_MAX_DELIVERY_ATTEMPTS
+      })));
+
+      this.start();
+      this.schedule(0);
+      return deliveries;
+    } catch (error) {
+      console.error(`Failed to queue ${event} webhooks:`, error);
+      return [];
+    }
+  }
+
+  // Send a logged delivery again as a new delivery with the same event id and payload
+  async redeliver(deliveryId: string): Promise<WebhookDelivery | null> {
+    const store = await getWebhookStore();
+    const original = await store.getDelivery(deliveryId);
+    if (!original) return null;
+
+    const delivery = await store.createDelivery({
+      subscriptionId: original.subscriptionId,
+      eventId: original.eventId,
+      event: original.event,
+      payload: original.payload,
+      maxAttempts: DEFAULT_MAX_DELIVERY_ATTEMPTS,
+      redeliveryOf: original.id
+    });
+
+    this.start();
+    this.schedule(0);
+    return delivery;
+  }
+
+  private schedule(delay: number) {
+    if (!this.started) return;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => void this.tick(), delay);
+  }
+
+  // Requeue deliveries whose claim went stale, then claim due deliveries up to the concurrency limit
+  private async tick() {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      const store = await getWebhookStore();
+      if (Date.now() - this.lastStaleCheck > STALE_CHECK_INTERVAL_MS) {
+        this.lastStaleCheck = Date.now();
+        const requeued = await store.requeueStale(new Date(Date.now() - STALE_CLAIM_MS));
+        if (requeued > 0) console.log(`Requeued ${requeued} webhook deliveries left by a stopped dispatcher`);
+      }
+      while (this.inFlight < DELIVERY_CONCURRENCY) {
+        const delivery = await store.claimNext(new Date());
+        if (!delivery) break;
+        this.inFlight++;
+        void this.deliver(delivery).finally(() => {
+          this.inFlight--;
+          this.schedule(0);
+        });
+      }
+    } catch (error) {
+      console.error('Webhook dispatcher poll failed:', error);
+    } finally {
+      this.ticking = false;
+      this.schedule(POLL_INTERVAL_MS);
+    }
+  }
+
+  private async deliver(delivery: WebhookDelivery) {
+    const store = await getWebhookStore();
+    const attempt = delivery.attempts + 1;
+    const finish = (update: WebhookDeliveryUpdate) => store.updateDelivery(delivery.id, 'delivering', { attempts: attempt, ...update });
+
+    const subscription = await store.getSubscription(delivery.subscriptionId);
+    if (!subscription || !subscription.active) {
+      await finish({ status: 'failed', lastError: subscription ? 'Subscription is inactive' : 'Subscription was deleted' });
+      return;
+    }
+
+    let statusCode: number | undefined;
+    let responseBody: string | undefined;
+    let failure: string | undefined;
+
+    try {
+      const timestamp = Math.floor(Date.now() / 1000);
+      const response = await fetch(subscription.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'nlp-pipeline-webhooks/1.0',
+          'X-Webhook-Id': delivery.eventId,
+          'X-Webhook-Delivery': delivery.id,
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Signature': signWebhookPayload(subscription.secret, timestamp, delivery.payload)
+        },
+        body: delivery.payload,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+      });
+
+      statusCode = response.status;
+      responseBody = (await response.text().catch(() => '')).slice(0, MAX_RESPONSE_LENGTH);
+      if (response.ok) {
+        await finish({ status: 'succeeded', lastStatusCode: statusCode, lastResponse: responseBody, lastError: '', deliveredAt: new Date().toISOString() });
+        return;
+      }
+      failure = `Receiver answered ${statusCode}`;
+    } catch (error) {
+      failure = error instanceof Error && error.name === 'TimeoutError'
+        ? `No response within ${DELIVERY_TIMEOUT_MS}ms`
+        : error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    const result = {
+      lastError: failure,
+      ...(statusCode !== undefined ? { lastStatusCode: statusCode, lastResponse: responseBody } : {})
+    };
+
+    if ((statusCode === undefined || isRetryable(statusCode)) && attempt < delivery.maxAttempts) {
+      const delay = webhookRetryDelay(attempt);
+      console.warn(`Webhook delivery ${delivery.id} to ${subscription.url} failed (attempt ${attempt}/${delivery.maxAttempts}), retrying in ${delay}ms:`, failure);
+      await finish({ status: 'pending', nextAttemptAt: new Date(Date.now() + delay).toISOString(), ...result });
+    } else {
+      console.error(`Webhook delivery ${delivery.id} to ${subscription.url} failed after ${attempt} attempts:`, failure);
+      await finish({ status: 'failed', ...result });
+    }
+  }
+}
+
+declare global {
+  var _webhookDispatcher: WebhookDispatcher | undefined;
+}
+
+// One dispatcher per process, shared by the custom server and the route handlers
+export const webhookDispatcher = global._webhookDispatcher || new WebhookDispatcher();
+
+if (!global._webhookDispatcher) {
+  global._webhookDispatcher = webhookDispatcher;
+}
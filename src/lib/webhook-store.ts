@@ -0,0 +1,390 @@
+// Webhook subscriptions and their delivery log
+// Both live in the database so pending retries survive restarts; when the
+// database is unavailable they fall back to memory and say so.
+
+import type { Prisma, WebhookDelivery as WebhookDeliveryRecord, WebhookSubscription as WebhookSubscriptionRecord } from '@prisma/client';
+import { db } from './db';
+
+export const WEBHOOK_EVENTS = [
+  'pipeline.completed',
+  'pipeline.failed',
+  'saved_app.created',
+  'saved_app.updated'
+] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+// Subscribes to every event, including ones added later
+export const ALL_WEBHOOK_EVENTS = '*';
+
+export type WebhookDeliveryStatus = 'pending' | 'delivering' | 'succeeded' | 'failed';
+
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  events: string[];
+  secret: string;
+  active: boolean;
+  description?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type WebhookSubscriptionInput = Pick<WebhookSubscription, 'url' | 'events' | 'secret'> &
+  Partial<Pick<WebhookSubscription, 'active' | 'description'>>;
+
+export type WebhookSubscriptionUpdate = Partial<WebhookSubscriptionInput>;
+
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  eventId: string;
+  event: string;
+  payload: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string;
+  lastStatusCode?: number;
+  lastError?: string;
+  lastResponse?: string;
+  deliveredAt?: string;
+  redeliveryOf?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type WebhookDeliveryInput = Pick<WebhookDelivery, 'subscriptionId' | 'eventId' | 'event' | 'payload' | 'maxAttempts'> &
+  Partial<Pick<WebhookDelivery, 'redeliveryOf'>>;
+
+export type WebhookDeliveryUpdate = Partial<Pick<WebhookDelivery,
+  'status' | 'attempts' | 'nextAttemptAt' | 'lastStatusCode' | 'lastError' | 'lastResponse' | 'deliveredAt'
+>>;
+
+export interface WebhookStore {
+  createSubscription(input: WebhookSubscriptionInput): Promise<WebhookSubscription>;
+  listSubscriptions(): Promise<WebhookSubscription[]>;
+  getSubscription(id: string): Promise<WebhookSubscription | null>;
+  updateSubscription(id: string, update: WebhookSubscriptionUpdate): Promise<WebhookSubscription | null>;
+  // Deletes the subscription's deliveries too
+  deleteSubscription(id: string): Promise<boolean>;
+
+  createDelivery(input: WebhookDeliveryInput): Promise<WebhookDelivery>;
+  getDelivery(id: string): Promise<WebhookDelivery | null>;
+  // Newest first
+  listDeliveries(subscriptionId: string, options: { status?: WebhookDeliveryStatus; limit: number }): Promise<WebhookDelivery[]>;
+  // Move the pending delivery that has waited longest past its nextAttemptAt to delivering
+  claimNext(now: Date): Promise<WebhookDelivery | null>;
+  // Apply the update only while the delivery has the expected status; null otherwise
+  updateDelivery(id: string, expected: WebhookDeliveryStatus, update: WebhookDeliveryUpdate): Promise<WebhookDelivery | null>;
+  // Retry deliveries whose dispatcher stopped (e.g. a crash) before this time
+  requeueStale(claimedBefore: Date): Promise<number>;
+}
+
+// Check the fields a client may set; returns the problem, or null when they are valid
+export function validateSubscriptionFields(fields: WebhookSubscriptionUpdate): string | null {
+  if (fields.url !== undefined) {
+    let url: URL;
+    try {
+      url = new URL(fields.url);
+    } catch {
+      return 'url must be an absolute URL';
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return 'url must use http or https';
+    }
+  }
+
+  if (fields.events !== undefined) {
+    if (!Array.isArray(fields.events) || fields.events.length === 0) {
+      return 'events must be a non-empty array';
+    }
+    const known: string[] = [...WEBHOOK_EVENTS, ALL_WEBHOOK_EVENTS];
+    const unknown = fields.events.filter(event => !known.includes(event));
+    if (unknown.length > 0) {
+      return `Unknown events: ${unknown.join(', ')} (expected ${known.join(', ')})`;
+    }
+  }
+
+  if (fields.secret !== undefined && (typeof fields.secret !== 'string' || fields.secret.length < 16)) {
+    return 'secret must be a string of at least 16 characters';
+  }
+  if (fields.active !== undefined && typeof fields.active !== 'boolean') {
+    return 'active must be a boolean';
+  }
+  if (fields.description !== undefined && typeof fields.description !== 'string') {
+    return 'description must be a string';
+  }
+  return null;
+}
+
+// The subscription as shown after creation; the secret is only returned once
+export function maskSubscription(subscription: WebhookSubscription) {
+  return { ...subscription, secret: `...${subscription.secret.slice(-4)}` };
+}
+
+function toSubscription(record: WebhookSubscriptionRecord): WebhookSubscription {
+  return {
+    id: record.id,
+    url: record.url,
+    events: JSON.parse(record.events),
+    secret: record.secret,
+    active: record.active,
+    ...(record.description ? { description: record.description } : {}),
+    createdAt: new Date(record.createdAt).toISOString(),
+    updatedAt: new Date(record.updatedAt).toISOString()
+  };
+}
+
+function toDelivery(record: WebhookDeliveryRecord): WebhookDelivery {
+  return {
+    id: record.id,
+    subscriptionId: record.subscriptionId,
+    eventId: record.eventId,
+    event: record.event,
+    payload: record.payload,
+    status: record.status as WebhookDeliveryStatus,
+    attempts: record.attempts,
+    maxAttempts: record.maxAttempts,
+    nextAttemptAt: new Date(record.nextAttemptAt).toISOString(),
+    ...(record.lastStatusCode !== null ? { lastStatusCode: record.lastStatusCode } : {}),
+    ...(record.lastError ? { lastError: record.lastError } : {}),
+    ...(record.lastResponse ? { lastResponse: record.lastResponse } : {}),
+    ...(record.deliveredAt ? { deliveredAt: new Date(record.deliveredAt).toISOString() } : {}),
+    ...(record.redeliveryOf ? { redeliveryOf: record.redeliveryOf } : {}),
+    createdAt: new Date(record.createdAt).toISOString(),
+    updatedAt: new Date(record.updatedAt).toISOString()
+  };
+}
+
+function toSubscriptionCreate(input: WebhookSubscriptionInput): Prisma.WebhookSubscriptionCreateInput {
+  return {
+    url: input.url,
+    events: JSON.stringify(input.events),
+    secret: input.secret,
+    ...(input.active !== undefined ? { active: input.active } : {}),
+    ...(input.description !== undefined ? { description: input.description } : {})
+  };
+}
+
+function toSubscriptionUpdate(update: WebhookSubscriptionUpdate): Prisma.WebhookSubscriptionUpdateManyMutationInput {
+  const data: Prisma.WebhookSubscriptionUpdateManyMutationInput = {};
+  if (update.url !== undefined) data.url = update.url;
+  if (update.events !== undefined) data.events = JSON.stringify(update.events);
+  if (update.secret !== undefined) data.secret = update.secret;
+  if (update.active !== undefined) data.active = update.active;
+  if (update.description !== undefined) data.description = update.description;
+  return data;
+}
+
+function toDeliveryUpdate(update: WebhookDeliveryUpdate): Prisma.WebhookDeliveryUpdateManyMutationInput {
+  const data: Prisma.WebhookDeliveryUpdateManyMutationInput = {};
+  if (update.status !== undefined) data.status = update.status;
+  if (update.attempts !== undefined) data.attempts = update.attempts;
+  if (update.nextAttemptAt !== undefined) data.nextAttemptAt = new Date(update.nextAttemptAt);
+  if (update.lastStatusCode !== undefined) data.lastStatusCode = update.lastStatusCode;
+  if (update.lastError !== undefined) data.lastError = update.lastError;
+  if (update.lastResponse !== undefined) data.lastResponse = update.lastResponse;
+  if (update.deliveredAt !== undefined) data.deliveredAt = new Date(update.deliveredAt);
+  return data;
+}
+
+class DatabaseWebhookStore implements WebhookStore {
+  async createSubscription(input: WebhookSubscriptionInput) {
+    return toSubscription(await db.webhookSubscription.create({ data: toSubscriptionCreate(input) }));
+  }
+
+  async listSubscriptions() {
+    const records = await db.webhookSubscription.findMany({ orderBy: { createdAt: 'desc' } });
+    return records.map(toSubscription);
+  }
+
+  async getSubscription(id: string) {
+    const record = await db.webhookSubscription.findUnique({ where: { id } });
+    return record ? toSubscription(record) : null;
+  }
+
+  async updateSubscription(id: string, update: WebhookSubscriptionUpdate) {
+    const updated = await db.webhookSubscription.updateMany({ where: { id }, data: toSubscriptionUpdate(update) });
+    return updated.count === 1 ? this.getSubscription(id) : null;
+  }
+
+  async deleteSubscription(id: string) {
+    const deleted = await db.webhookSubscription.deleteMany({ where: { id } });
+    return deleted.count === 1;
+  }
+
+  async createDelivery(input: WebhookDeliveryInput) {
+    return toDelivery(await db.webhookDelivery.create({ data: input }));
+  }
+
+  async getDelivery(id: string) {
+    const record = await db.webhookDelivery.findUnique({ where: { id } });
+    return record ? toDelivery(record) : null;
+  }
+
+  async listDeliveries(subscriptionId: string, { status, limit }: { status?: WebhookDeliveryStatus; limit: number }) {
+    const records = await db.webhookDelivery.findMany({
+      where: { subscriptionId, ...(status ? { status } : {}) },
+      orderBy: { createdAt: 'desc' },
+      take: limit
+    });
+    return records.map(toDelivery);
+  }
+
+  async claimNext(now: Date) {
+    const candidate = await db.webhookDelivery.findFirst({
+      where: { status: 'pending', nextAttemptAt: { lte: now } },
+      orderBy: { nextAttemptAt: 'asc' }
+    });
+    if (!candidate) return null;
+
+    // Conditional update, so two dispatchers never send the same attempt
+    const claimed = await db.webhookDelivery.updateMany({
+      where: { id: candidate.id, status: 'pending' },
+      data: { status: 'delivering', lockedAt: now }
+    });
+    return claimed.count === 1 ? this.getDelivery(candidate.id) : null;
+  }
+
+  async updateDelivery(id: string, expected: WebhookDeliveryStatus, update: WebhookDeliveryUpdate) {
+    const updated = await db.webhookDelivery.updateMany({
+      where: { id, status: expected },
+      data: toDeliveryUpdate(update)
+    });
+    return updated.count === 1 ? this.getDelivery(id) : null;
+  }
+
+  async requeueStale(claimedBefore: Date) {
+    const requeued = await db.webhookDelivery.updateMany({
+      where: { status: 'delivering', lockedAt: { lt: claimedBefore } },
+      data: { status: 'pending', lockedAt: null, nextAttemptAt: new Date() }
+    });
+    return requeued.count;
+  }
+}
+
+const newId = (prefix: string) => `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
+
+// Used when the database cannot be reached; subscriptions are lost on restart
+class MemoryWebhookStore implements WebhookStore {
+  private subscriptions = new Map<string, WebhookSubscription>();
+  private deliveries = new Map<string, WebhookDelivery & { lockedAt?: number }>();
+
+  async createSubscription(input: WebhookSubscriptionInput) {
+    const now = new Date().toISOString();
+    const subscription: WebhookSubscription = { active: true, ...input, id: newId('whsub'), createdAt: now, updatedAt: now };
+    this.subscriptions.set(subscription.id, subscription);
+    return { ...subscription };
+  }
+
+  async listSubscriptions() {
+    return Array.from(this.subscriptions.values())
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map(subscription => ({ ...subscription }));
+  }
+
+  async getSubscription(id: string) {
+    const subscription = this.subscriptions.get(id);
+    return subscription ? { ...subscription } : null;
+  }
+
+  async updateSubscription(id: string, update: WebhookSubscriptionUpdate) {
+    const subscription = this.subscriptions.get(id);
+    if (!subscription) return null;
+    Object.assign(subscription, update, { updatedAt: new Date().toISOString() });
+    return { ...subscription };
+  }
+
+  async deleteSubscription(id: string) {
+    for (const [deliveryId, delivery] of this.deliveries.entries()) {
+      if (delivery.subscriptionId === id) this.deliveries.delete(deliveryId);
+    }
+    return this.subscriptions.delete(id);
+  }
+
+  async createDelivery(input: WebhookDeliveryInput) {
+    const now = new Date().toISOString();
+    const delivery: WebhookDelivery = {
+      ...input,
+      id: newId('whdel'),
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: now,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.deliveries.set(delivery.id, delivery);
+    return { ...delivery };
+  }
+
+  async getDelivery(id: string) {
+    const delivery = this.deliveries.get(id);
+    return delivery ? this.publicDelivery(delivery) : null;
+  }
+
+  async listDeliveries(subscriptionId: string, { status, limit }: { status?: WebhookDeliveryStatus; limit: number }) {
+    return Array.from(this.deliveries.values())
+      .filter(delivery => delivery.subscriptionId === subscriptionId && (!status || delivery.status === status))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, limit)
+      .map(delivery => this.publicDelivery(delivery));
+  }
+
+  async claimNext(now: Date) {
+    const next = Array.from(this.deliveries.values())
+      .filter(delivery => delivery.status === 'pending' && new Date(delivery.nextAttemptAt) <= now)
+      .sort((a, b) => a.nextAttemptAt.localeCompare(b.nextAttemptAt))[0];
+    if (!next) return null;
+
+    next.status = 'delivering';
+    next.lockedAt = now.getTime();
+    next.updatedAt = now.toISOString();
+    return this.publicDelivery(next);
+  }
+
+  async updateDelivery(id: string, expected: WebhookDeliveryStatus, update: WebhookDeliveryUpdate) {
+    const delivery = this.deliveries.get(id);
+    if (!delivery || delivery.status !== expected) return null;
+    Object.assign(delivery, update, { updatedAt: new Date().toISOString() });
+    return this.publicDelivery(delivery);
+  }
+
+  async requeueStale(claimedBefore: Date) {
+    let requeued = 0;
+    for (const delivery of this.deliveries.values()) {
+      if (delivery.status === 'delivering' && (delivery.lockedAt ?? 0) < claimedBefore.getTime()) {
+        Object.assign(delivery, { status: 'pending', lockedAt: undefined, nextAttemptAt: new Date().toISOString() });
+        requeued++;
+      }
+    }
+    return requeued;
+  }
+
+  private publicDelivery(delivery: WebhookDelivery & { lockedAt?: number }): WebhookDelivery {
+    const { lockedAt, ...rest } = delivery;
+    return { ...rest };
+  }
+}
+
+declare global {
+  var _webhookStore: Promise<WebhookStore> | undefined;
+}
+
+// Prefer the database; decided once per process
+async function selectStore(): Promise<WebhookStore> {
+  try {
+    await db.webhookSubscription.count();
+    return new DatabaseWebhookStore();
+  } catch (error) {
+    console.warn('Webhook tables unavailable, keeping subscriptions in memory; they will not survive a restart:', error);
+    return new MemoryWebhookStore();
+  }
+}
+
+export function getWebhookStore(): Promise<WebhookStore> {
+  if (!global._webhookStore) {
+    global._webhookStore = selectStore();
+  }
+  return global._webhookStore;
+}